@@ -0,0 +1,95 @@
+/**
+ * Benchmark: route() vs compileRules() over synthetic CI/log workloads.
+ * Run with `npm run bench` (optionally `npm run bench -- <events> <rules>`).
+ * @module routerBenchmark
+ */
+
+import { performance } from 'perf_hooks';
+import { compileRules, route, type NotificationInput, type Rule } from '../core/index.js';
+
+const SOURCES = ['Git', 'Build', 'Test', 'Debug', 'Extension', 'Language Server', 'File System', 'Chat'];
+const KEYWORDS = ['failed', 'succeeded', 'conflict', 'timeout', 'warning', 'deprecated', 'flaky', 'passed'];
+
+/** Deterministic PRNG so runs are comparable */
+function createRandom(seed: number): () => number {
+	return () => {
+		seed = (seed * 1103515245 + 12345) % 2147483648;
+		return seed / 2147483648;
+	};
+}
+
+/**
+ * Synthetic rule set: mostly per-source contains rules (with some CI/log sources beyond
+ * the built-in ones), a few regex and severity rules, and a catch-all at the end
+ */
+function createRules(count: number, random: () => number): Rule[] {
+	const sources = [...SOURCES, ...Array.from({ length: 40 }, (_, i) => `ci-job-${i}`)];
+	const rules: Rule[] = [];
+	for (let i = 0; i < count - 1; i++) {
+		const source = random() < 0.05 ? '*' : sources[Math.floor(random() * sources.length)];
+		const keyword = `${KEYWORDS[Math.floor(random() * KEYWORDS.length)]}-${i % 50}`;
+		const kind = random();
+		if (kind < 0.1) {
+			rules.push({ source, pattern: `${keyword}: \\d+`, action: 'allow' });
+		} else if (kind < 0.2) {
+			rules.push({ source, minSeverity: 'error', contains: keyword, action: 'allow' });
+		} else {
+			rules.push({ source, contains: keyword.toUpperCase(), action: random() < 0.5 ? 'suppress' : 'digest' });
+		}
+	}
+	rules.push({ source: '*', action: 'digest' });
+	return rules;
+}
+
+function createEvents(count: number, random: () => number): NotificationInput[] {
+	return Array.from({ length: count }, (_, i) => {
+		const source = random() < 0.7 ? `ci-job-${Math.floor(random() * 40)}` : SOURCES[Math.floor(random() * SOURCES.length)];
+		const keyword = `${KEYWORDS[Math.floor(random() * KEYWORDS.length)]}-${Math.floor(random() * 60)}`;
+		return {
+			source,
+			title: `Job ${i} ${keyword}`,
+			body: `Step ${Math.floor(random() * 20)} ${keyword}: ${Math.floor(random() * 10)} in ${'log line '.repeat(5)}`,
+			severity: random() < 0.1 ? 'error' : 'info',
+		};
+	});
+}
+
+function time(label: string, events: NotificationInput[], routeOne: (input: NotificationInput) => string): string[] {
+	const results: string[] = [];
+	const start = performance.now();
+	for (const input of events) {
+		results.push(routeOne(input));
+	}
+	const elapsed = performance.now() - start;
+	const perSecond = Math.round(events.length / (elapsed / 1000));
+	console.log(`${label.padEnd(16)} ${elapsed.toFixed(1).padStart(9)} ms  ${perSecond.toLocaleString().padStart(12)} events/s`);
+	return results;
+}
+
+function main(): void {
+	const eventCount = Number(process.argv[2]) || 20000;
+	const ruleCounts = process.argv[3] ? [Number(process.argv[3])] : [10, 100, 500];
+	const state = { focusMode: false };
+	const getNow = () => 0;
+
+	for (const ruleCount of ruleCounts) {
+		const random = createRandom(ruleCount);
+		const rules = createRules(ruleCount, random);
+		const events = createEvents(eventCount, random);
+		console.log(`\n${eventCount} events, ${ruleCount} rules`);
+
+		const linear = time('route()', events, input => route(input, state, rules, { getNow }));
+		const compileStart = performance.now();
+		const compiled = compileRules(rules);
+		console.log(`${'compileRules()'.padEnd(16)} ${(performance.now() - compileStart).toFixed(1).padStart(9)} ms`);
+		const indexed = time('compiled.route()', events, input => compiled.route(input, state, getNow));
+
+		const mismatches = linear.filter((action, i) => action !== indexed[i]).length;
+		if (mismatches > 0) {
+			console.error(`${mismatches} results differ between route() and the compiled router`);
+			process.exitCode = 1;
+		}
+	}
+}
+
+main();
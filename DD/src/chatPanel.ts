@@ -6,6 +6,7 @@
 import * as vscode from 'vscode';
 import type { NotificationManager } from './notificationManager.js';
 import { getMockSources } from './integrations/mockIntegrations.js';
+import { SEVERITIES, isSeverity, type NotificationMetadata } from './core/index.js';
 
 /**
  * Chat panel webview provider
@@ -34,7 +35,7 @@ export class ChatPanel {
 			async (message) => {
 				switch (message.command) {
 					case 'sendMessage':
-						await this._handleSendMessage(message.text, message.source);
+						await this._handleSendMessage(message.text, message.source, message.sender, message.channel, message.severity);
 						return;
 					case 'getUserName':
 						this._panel.webview.postMessage({
@@ -92,7 +93,7 @@ export class ChatPanel {
 		}
 	}
 
-	private async _handleSendMessage(text: string, source: string): Promise<void> {
+	private async _handleSendMessage(text: string, source: string, sender?: string, channel?: string, severity?: string): Promise<void> {
 		if (!text || text.trim().length === 0) {
 			this._panel.webview.postMessage({
 				command: 'error',
@@ -102,10 +103,17 @@ export class ChatPanel {
 		}
 
 		try {
+			const from = sender?.trim();
+			const room = channel?.trim();
+			const metadata: NotificationMetadata | undefined = from || room
+				? { sender: from || undefined, channel: room || undefined }
+				: undefined;
 			await this._notificationManager.processCustomNotification(
 				source || 'Chat',
-				'Message received',
-				text
+				from ? `Message from ${from}` : 'Message received',
+				text,
+				isSeverity(severity) ? severity : undefined,
+				metadata
 			);
 
 			this._panel.webview.postMessage({
@@ -128,6 +136,7 @@ export class ChatPanel {
 	private _getHtmlForWebview(webview: vscode.Webview): string {
 		const sources = ['Chat', ...getMockSources()];
 		const sourcesOptions = sources.map(s => `<option value="${s}">${s}</option>`).join('\n');
+		const severityOptions = SEVERITIES.map(s => `<option value="${s}">${s.charAt(0).toUpperCase() + s.slice(1)}</option>`).join('\n');
 
 		return `<!DOCTYPE html>
 <html lang="en">
@@ -151,7 +160,7 @@ export class ChatPanel {
 			font-weight: 600;
 			color: var(--vscode-foreground);
 		}
-		select, textarea {
+		select, textarea, input[type="text"] {
 			width: 100%;
 			padding: 8px;
 			border: 1px solid var(--vscode-input-border);
@@ -247,6 +256,24 @@ export class ChatPanel {
 		</select>
 	</div>
 
+	<div class="form-group">
+		<label for="severity">Severity:</label>
+		<select id="severity">
+			${severityOptions}
+		</select>
+	</div>
+
+	<div class="form-group">
+		<label for="sender">From:</label>
+		<input type="text" id="sender" placeholder="e.g., alice">
+		<div class="hint">Three messages from the same sender within 10 minutes break through as important</div>
+	</div>
+
+	<div class="form-group">
+		<label for="channel">Channel:</label>
+		<input type="text" id="channel" placeholder="e.g., #frontend">
+	</div>
+
 	<div class="form-group">
 		<label for="message">Message:</label>
 		<textarea id="message" placeholder="Type your message here... (e.g., @john please review the PR)"></textarea>
@@ -261,6 +288,9 @@ export class ChatPanel {
 	<script>
 		const vscode = acquireVsCodeApi();
 		const sourceSelect = document.getElementById('source');
+		const senderInput = document.getElementById('sender');
+		const severitySelect = document.getElementById('severity');
+		const channelInput = document.getElementById('channel');
 		const messageTextarea = document.getElementById('message');
 		const sendBtn = document.getElementById('sendBtn');
 		const clearBtn = document.getElementById('clearBtn');
@@ -309,7 +339,10 @@ export class ChatPanel {
 			vscode.postMessage({
 				command: 'sendMessage',
 				text: text,
-				source: source
+				source: source,
+				sender: senderInput.value,
+				channel: channelInput.value,
+				severity: severitySelect.value
 			});
 
 			setTimeout(() => {
@@ -0,0 +1,82 @@
+/**
+ * Keys for coalescing repeated notifications (same source, title and normalized body).
+ * @module coalesce
+ */
+
+import type { NotificationInput } from "./types.js";
+
+/**
+ * Normalizes a body for comparison: lowercase, digits collapsed to "#", whitespace collapsed.
+ * "Updated diagnostics for 8 files" and "Updated  diagnostics for 12 files" normalize the same.
+ */
+export function normalizeBody(body: string): string {
+  return body.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Key shared by notifications that should be coalesced: source, title and sender (case-insensitive)
+ * plus the normalized body.
+ */
+export function getCoalesceKey(input: NotificationInput): string {
+  const sender = input.metadata?.sender?.trim().toLowerCase() ?? "";
+  return [input.source.toLowerCase(), input.title.toLowerCase(), sender, normalizeBody(input.body)].join("\u0000");
+}
+
+/** An entry a repeat can be merged into. */
+export interface CoalescableEntry {
+  input: NotificationInput;
+  timestamp: number;
+  /** Latest merged repeat, if any. */
+  lastSeen?: number;
+}
+
+/**
+ * The newest entry of `entries` that a notification arriving at `timestamp` repeats: same
+ * coalesce key, last seen at most `windowMs` earlier. Undefined when none does or windowMs <= 0.
+ */
+export function findCoalescable<T extends CoalescableEntry>(
+  entries: readonly T[],
+  input: NotificationInput,
+  timestamp: number,
+  windowMs: number
+): T | undefined {
+  if (windowMs <= 0) {
+    return undefined;
+  }
+  const key = getCoalesceKey(input);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const candidate = entries[i];
+    const lastSeen = candidate.lastSeen ?? candidate.timestamp;
+    if (timestamp - lastSeen <= windowMs && getCoalesceKey(candidate.input) === key) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/** An entry that can absorb repeats: how many it stands for and which they were. */
+export interface CoalescedEntry<T> extends CoalescableEntry {
+  /** Number of coalesced occurrences (absent = 1). */
+  count?: number;
+  /** Individual occurrences, oldest first (absent until the first repeat). */
+  occurrences?: T[];
+}
+
+/**
+ * Adds `entry` to `entries`, merging it into the entry it repeats (see findCoalescable) or
+ * appending a copy. `entry` itself is never modified, so a caller keeping it elsewhere (e.g. in
+ * history) still has a single occurrence. Returns the entry in `entries` that now holds it.
+ */
+export function coalesceInto<T extends CoalescedEntry<T>>(entries: T[], entry: T, windowMs: number): T {
+  const existing = findCoalescable(entries, entry.input, entry.timestamp, windowMs);
+  if (!existing) {
+    const copy = { ...entry };
+    entries.push(copy);
+    return copy;
+  }
+  existing.occurrences = existing.occurrences ?? [{ ...existing }];
+  existing.occurrences.push(entry);
+  existing.count = (existing.count ?? 1) + 1;
+  existing.lastSeen = entry.timestamp;
+  return existing;
+}
@@ -0,0 +1,142 @@
+/**
+ * Indexed rule compilation for high-volume routing.
+ * compileRules() does the per-rule work of route() once: rules are bucketed by source,
+ * needles are trimmed and lowercased, patterns compiled, and for every known source the
+ * candidate rules are merged with the "*" rules in first-match order.
+ * @module compile
+ */
+
+import type { Action, NotificationInput, Rule } from "./types.js";
+import type { RouterState } from "./state.js";
+import type { Clock } from "./router.js";
+import { findActiveSnooze } from "./snooze.js";
+import {
+  channelMatches,
+  compilePattern,
+  scheduleMatches,
+  senderMatches,
+  severityMatches,
+  tagMatches,
+  whenMatches,
+  type MatchCondition,
+  type MatchContext,
+} from "./matchers.js";
+
+/**
+ * A router over a fixed rule list, equivalent to route()/findMatchingRule() with the
+ * default match conditions. Rules are snapshotted at compile time; recompile after changes.
+ */
+export interface CompiledRouter {
+  /** The rules this router was compiled from, in first-match order. */
+  readonly rules: readonly Rule[];
+  /** Same result as route(input, state, rules, { getNow }). */
+  route(input: NotificationInput, state: RouterState, getNow?: Clock): Action;
+  /** Same result as findMatchingRule(input, rules, { getNow }). */
+  findMatchingRule(input: NotificationInput, getNow?: Clock): Rule | undefined;
+}
+
+/** One rule with its inputs pre-processed. */
+interface CompiledRule {
+  rule: Rule;
+  /** Trimmed, lowercased contains; undefined when there is no contains filter. */
+  needle?: string;
+  /** Compiled pattern; undefined when there is none, null when it is invalid. */
+  pattern?: RegExp | null;
+  /** Remaining default conditions that apply to this rule (absent fields are skipped). */
+  checks: MatchCondition[];
+}
+
+function compileRule(rule: Rule): CompiledRule {
+  const needle = rule.contains?.trim().toLowerCase();
+  const checks: MatchCondition[] = [];
+  if (rule.minSeverity) {
+    checks.push(severityMatches);
+  }
+  if (rule.sender?.trim()) {
+    checks.push(senderMatches);
+  }
+  if (rule.channel?.trim()) {
+    checks.push(channelMatches);
+  }
+  if (rule.tag?.trim()) {
+    checks.push(tagMatches);
+  }
+  if (rule.schedule && rule.schedule.windows.length > 0) {
+    checks.push(scheduleMatches);
+  }
+  if (rule.when) {
+    checks.push(whenMatches);
+  }
+  return { rule, needle: needle || undefined, pattern: compilePattern(rule), checks };
+}
+
+class IndexedRouter implements CompiledRouter {
+  readonly rules: readonly Rule[];
+  /** Candidates (source rules merged with "*" rules, in rule order) per lowercased source. */
+  private readonly bySource = new Map<string, CompiledRule[]>();
+  /** Candidates for sources no rule names: only the "*" rules. */
+  private readonly wildcard: CompiledRule[] = [];
+
+  constructor(rules: Rule[]) {
+    this.rules = [...rules];
+    const compiled = this.rules.map(compileRule);
+    const sources = new Set(compiled.filter((c) => c.rule.source !== "*").map((c) => c.rule.source.toLowerCase()));
+    for (const entry of compiled) {
+      if (entry.rule.source === "*") {
+        this.wildcard.push(entry);
+      }
+    }
+    for (const source of sources) {
+      this.bySource.set(source, compiled.filter((c) => c.rule.source === "*" || c.rule.source.toLowerCase() === source));
+    }
+  }
+
+  route(input: NotificationInput, state: RouterState, getNow: Clock = () => Date.now()): Action {
+    const now = getNow();
+    if (findActiveSnooze(state, input.source, now)) {
+      return "digest";
+    }
+    const rule = this.firstMatch(input, { now });
+    if (rule) {
+      return rule.action;
+    }
+    return state.focusMode ? "digest" : "allow";
+  }
+
+  findMatchingRule(input: NotificationInput, getNow: Clock = () => Date.now()): Rule | undefined {
+    return this.firstMatch(input, { now: getNow() });
+  }
+
+  private firstMatch(input: NotificationInput, context: MatchContext): Rule | undefined {
+    const candidates = this.bySource.get(input.source.toLowerCase()) ?? this.wildcard;
+    let text: string | undefined;
+    let lowered: string | undefined;
+    for (const candidate of candidates) {
+      if (candidate.needle !== undefined) {
+        text ??= input.title + "\n" + input.body;
+        lowered ??= text.toLowerCase();
+        if (!lowered.includes(candidate.needle)) {
+          continue;
+        }
+      }
+      if (candidate.pattern !== undefined) {
+        text ??= input.title + "\n" + input.body;
+        if (candidate.pattern === null || !candidate.pattern.test(text)) {
+          continue;
+        }
+      }
+      if (candidate.checks.every((fn) => fn(candidate.rule, input, context))) {
+        return candidate.rule;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Compiles rules into a router that gives the same results as route() with the default
+ * match conditions, without rescanning rules for other sources or re-lowercasing needles.
+ */
+export function compileRules(rules: Rule[]): CompiledRouter {
+  return new IndexedRouter(rules);
+}
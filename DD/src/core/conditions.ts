@@ -0,0 +1,108 @@
+/**
+ * Helpers for condition trees (validation and human-readable descriptions).
+ * Evaluation lives in matchers (evaluateCondition) next to the leaf matchers it reuses.
+ * @module conditions
+ */
+
+import type { ConditionLeaf, RuleCondition } from "./types.js";
+import { validatePattern } from "./matchers.js";
+import { validateSeverity } from "./severity.js";
+
+/**
+ * Describes a leaf, e.g. `source is "Git" and contains "failed"`. An empty leaf is "anything".
+ */
+function describeLeaf(leaf: ConditionLeaf): string {
+  const parts: string[] = [];
+  if (leaf.source && leaf.source !== "*") {
+    parts.push(`source is "${leaf.source}"`);
+  }
+  if (leaf.contains?.trim()) {
+    parts.push(`contains "${leaf.contains.trim()}"`);
+  }
+  if (leaf.pattern) {
+    parts.push(`matches /${leaf.pattern}/${leaf.patternFlags ?? "i"}`);
+  }
+  if (leaf.minSeverity) {
+    parts.push(`severity >= ${leaf.minSeverity}`);
+  }
+  if (leaf.sender?.trim()) {
+    parts.push(`from "${leaf.sender.trim()}"`);
+  }
+  if (leaf.channel?.trim()) {
+    parts.push(`in channel "${leaf.channel.trim()}"`);
+  }
+  if (leaf.tag?.trim()) {
+    parts.push(`tagged "${leaf.tag.trim()}"`);
+  }
+  return parts.length > 0 ? parts.join(" and ") : "anything";
+}
+
+/**
+ * True if the description of a child needs parentheses inside a larger expression.
+ */
+function isCompound(condition: RuleCondition): boolean {
+  if ("all" in condition) {
+    return condition.all.length > 1;
+  }
+  if ("any" in condition) {
+    return condition.any.length > 1;
+  }
+  if ("not" in condition) {
+    return false;
+  }
+  return describeLeaf(condition).includes(" and ");
+}
+
+/**
+ * Describes a condition tree as text, e.g.
+ * `(source is "Git" or source is "Build") and contains "failed" and not contains "flaky"`.
+ */
+export function describeCondition(condition: RuleCondition): string {
+  const part = (child: RuleCondition): string =>
+    isCompound(child) ? `(${describeCondition(child)})` : describeCondition(child);
+  if ("all" in condition) {
+    return condition.all.length === 0 ? "anything" : condition.all.map(part).join(" and ");
+  }
+  if ("any" in condition) {
+    return condition.any.length === 0 ? "nothing" : condition.any.map(part).join(" or ");
+  }
+  if ("not" in condition) {
+    return `not ${part(condition.not)}`;
+  }
+  return describeLeaf(condition);
+}
+
+/**
+ * Returns an error message for malformed nodes or invalid leaf patterns, else undefined.
+ */
+export function validateCondition(condition: RuleCondition): string | undefined {
+  if (typeof condition !== "object" || condition === null) {
+    return "condition must be an object";
+  }
+  if ("all" in condition || "any" in condition) {
+    const children = "all" in condition ? condition.all : condition.any;
+    if (!Array.isArray(children)) {
+      return `"${"all" in condition ? "all" : "any"}" must be a list of conditions`;
+    }
+    for (const child of children) {
+      const error = validateCondition(child);
+      if (error) {
+        return error;
+      }
+    }
+    return undefined;
+  }
+  if ("not" in condition) {
+    return validateCondition(condition.not);
+  }
+  if (condition.pattern) {
+    const error = validatePattern(condition.pattern, condition.patternFlags);
+    if (error) {
+      return `invalid pattern /${condition.pattern}/ (${error})`;
+    }
+  }
+  if (condition.minSeverity !== undefined) {
+    return validateSeverity(condition.minSeverity);
+  }
+  return undefined;
+}
@@ -0,0 +1,155 @@
+/**
+ * Deferred delivery: holds notifications routed to "defer" until their due time or the next
+ * break, then hands them back to the caller to show. Time comes from an injected clock and
+ * waiting from an injected timer, so tests can drive it without real time passing.
+ * @module defer
+ */
+
+import type { RuleDefer } from "./types.js";
+import type { Clock } from "./router.js";
+
+/** Delay used when a "defer" rule has no defer setting. */
+export const DEFAULT_DEFER: RuleDefer = { minutes: 30 };
+
+/** Longest delay setTimeout accepts; longer waits are re-armed when the timer fires. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Minimal timer abstraction (setTimeout/clearTimeout), injected for deterministic tests.
+ */
+export interface Timer {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/** Timer backed by the global setTimeout/clearTimeout. */
+export const systemTimer: Timer = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/** A held item. Plain data, so entries can be persisted and restored. */
+export interface DeferredEntry<T> {
+  /** Unique within the queue. */
+  id: number;
+  item: T;
+  /** When the item was deferred (epoch ms). */
+  deferredAt: number;
+  /** When the item is due (epoch ms); absent when it waits for the next break. */
+  dueAt?: number;
+}
+
+/**
+ * Due time for a defer setting, or undefined for "next break".
+ */
+export function getDeferDueTime(defer: RuleDefer, now: number): number | undefined {
+  return "minutes" in defer ? now + defer.minutes * 60_000 : undefined;
+}
+
+/**
+ * Problems with a defer setting (empty when valid).
+ */
+export function validateDefer(defer: RuleDefer): string[] {
+  if ("minutes" in defer) {
+    return typeof defer.minutes === "number" && defer.minutes > 0 ? [] : ["defer minutes must be greater than 0"];
+  }
+  return defer.until === "break" ? [] : ['defer must have "minutes" or until: "break"'];
+}
+
+/**
+ * Holds deferred items and releases them through `onRelease` when they are due (one
+ * timer for the earliest due item) or when releaseBreak() is called.
+ */
+export class DeferQueue<T> {
+  private entries: DeferredEntry<T>[] = [];
+  private nextId = 1;
+  private handle: unknown;
+
+  constructor(
+    private readonly onRelease: (entries: DeferredEntry<T>[]) => void,
+    private readonly getNow: Clock = () => Date.now(),
+    private readonly timer: Timer = systemTimer
+  ) {}
+
+  /**
+   * Holds `item` until the time given by `defer`, or until the next break.
+   */
+  add(item: T, defer: RuleDefer): DeferredEntry<T> {
+    const now = this.getNow();
+    const entry: DeferredEntry<T> = { id: this.nextId++, item, deferredAt: now, dueAt: getDeferDueTime(defer, now) };
+    this.entries.push(entry);
+    this.schedule();
+    return entry;
+  }
+
+  /**
+   * Re-adds persisted entries (e.g. after a reload). Entries already due are released at once.
+   */
+  restore(entries: DeferredEntry<T>[]): void {
+    for (const entry of entries) {
+      this.entries.push({ ...entry, id: this.nextId++ });
+    }
+    this.releaseDue();
+  }
+
+  /**
+   * Releases everything waiting for a break. Items with a due time keep waiting.
+   */
+  releaseBreak(): void {
+    this.release((entry) => entry.dueAt === undefined);
+  }
+
+  /**
+   * Releases one entry now, regardless of its due time. Returns false if it is not held.
+   */
+  releaseNow(id: number): boolean {
+    const found = this.entries.some((entry) => entry.id === id);
+    this.release((entry) => entry.id === id);
+    return found;
+  }
+
+  /**
+   * Held entries, earliest due first (break entries last).
+   */
+  getPending(): DeferredEntry<T>[] {
+    return [...this.entries].sort((a, b) => (a.dueAt ?? Infinity) - (b.dueAt ?? Infinity));
+  }
+
+  /**
+   * Stops the timer. Held entries stay in the queue.
+   */
+  dispose(): void {
+    if (this.handle !== undefined) {
+      this.timer.clearTimeout(this.handle);
+      this.handle = undefined;
+    }
+  }
+
+  private releaseDue(): void {
+    const now = this.getNow();
+    this.release((entry) => entry.dueAt !== undefined && entry.dueAt <= now);
+  }
+
+  private release(predicate: (entry: DeferredEntry<T>) => boolean): void {
+    const released = this.entries.filter(predicate);
+    if (released.length > 0) {
+      this.entries = this.entries.filter((entry) => !predicate(entry));
+      this.onRelease(released);
+    }
+    this.schedule();
+  }
+
+  /** Arms the timer for the earliest due entry. */
+  private schedule(): void {
+    this.dispose();
+    const dueTimes = this.entries.flatMap((entry) => (entry.dueAt === undefined ? [] : [entry.dueAt]));
+    if (dueTimes.length === 0) {
+      return;
+    }
+    const delay = Math.min(Math.max(0, Math.min(...dueTimes) - this.getNow()), MAX_TIMER_DELAY);
+    this.handle = this.timer.setTimeout(() => {
+      this.handle = undefined;
+      this.releaseDue();
+    }, delay);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Grouped summaries of digested notifications (e.g. what piled up during a focus session).
+ * @module digest
+ */
+
+import type { NotificationInput } from "./types.js";
+
+/** Digested notifications from one source. */
+export interface DigestGroup {
+  source: string;
+  /** Number of notifications, counting coalesced repeats. */
+  count: number;
+  /** Distinct titles, most recent first. */
+  titles: string[];
+}
+
+/** Digested notifications grouped by source, largest group first. */
+export interface DigestSummary {
+  total: number;
+  groups: DigestGroup[];
+}
+
+/** A digested entry (structurally compatible with processed history entries). */
+export interface DigestEntry {
+  input: NotificationInput;
+  timestamp: number;
+  /** Coalesced occurrences (absent = 1). */
+  count?: number;
+  /** Latest coalesced occurrence, if any. */
+  lastSeen?: number;
+  /** Individual coalesced occurrences, oldest first (the oldest may have been dropped). */
+  occurrences?: readonly { timestamp: number }[];
+}
+
+/**
+ * Occurrences of `entry` at or after `since`: its repeats since then when they are known,
+ * else all of them if it was last seen since then.
+ */
+function countSince(entry: DigestEntry, since: number): number {
+  const count = entry.count ?? 1;
+  if (!entry.occurrences) {
+    return (entry.lastSeen ?? entry.timestamp) >= since ? count : 0;
+  }
+  const recent = entry.occurrences.filter((occurrence) => occurrence.timestamp >= since).length;
+  // Repeats dropped by the history retention are older than every kept one
+  return recent === entry.occurrences.length ? count : recent;
+}
+
+/**
+ * Groups the occurrences of `entries` at or after `since` by source (a coalesced entry only
+ * counts its repeats since then).
+ */
+export function summarizeDigest(entries: readonly DigestEntry[], since: number = -Infinity): DigestSummary {
+  const groups = new Map<string, DigestGroup>();
+  let total = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    const count = countSince(entry, since);
+    if (count === 0) {
+      continue;
+    }
+    const group = groups.get(entry.input.source) ?? { source: entry.input.source, count: 0, titles: [] };
+    group.count += count;
+    if (!group.titles.includes(entry.input.title)) {
+      group.titles.push(entry.input.title);
+    }
+    groups.set(entry.input.source, group);
+    total += count;
+  }
+  return { total, groups: [...groups.values()].sort((a, b) => b.count - a.count) };
+}
+
+/**
+ * One-line description, e.g. "Build (3), Git (2) and 2 more sources".
+ */
+export function formatDigestSummary(summary: DigestSummary, maxGroups: number = 3): string {
+  const shown = summary.groups.slice(0, maxGroups).map((group) => `${group.source} (${group.count})`).join(", ");
+  const rest = summary.groups.length - maxGroups;
+  return rest > 0 ? `${shown} and ${rest} more source${rest === 1 ? "" : "s"}` : shown;
+}
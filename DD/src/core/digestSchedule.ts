@@ -0,0 +1,136 @@
+/**
+ * Scheduled digest delivery: at fixed local times of day (e.g. 11:00, 15:00, 17:30) and/or
+ * every N minutes. Time comes from an injected clock and waiting from an injected timer,
+ * so tests can drive it without real time passing.
+ * @module digestSchedule
+ */
+
+import type { Clock } from "./router.js";
+import { systemTimer, type Timer } from "./defer.js";
+import { parseTimeOfDay } from "./schedule.js";
+
+/** When digests are delivered. Both parts may be combined; with neither, nothing is delivered. */
+export interface DigestSchedule {
+  /** Local times of day ("HH:MM", 24h), e.g. ["11:00", "15:00", "17:30"]. */
+  times: string[];
+  /** Also deliver every this many minutes (0 = off). */
+  intervalMinutes: number;
+}
+
+/** Default: no scheduled delivery (digests wait in the sidebar). */
+export const DEFAULT_DIGEST_SCHEDULE: DigestSchedule = { times: [], intervalMinutes: 0 };
+
+/** Longest delay setTimeout accepts; longer waits are re-armed when the timer fires. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Problems with a digest schedule, one message per invalid value (empty when valid).
+ */
+export function validateDigestSchedule(schedule: DigestSchedule): string[] {
+  const errors: string[] = [];
+  for (const time of schedule.times) {
+    if (parseTimeOfDay(time) === undefined) {
+      errors.push(`invalid time "${time}" (expected HH:MM)`);
+    }
+  }
+  if (typeof schedule.intervalMinutes !== "number" || !(schedule.intervalMinutes >= 0)) {
+    errors.push("intervalMinutes must be 0 or more");
+  }
+  return errors;
+}
+
+/**
+ * First delivery strictly after `now`, or undefined when the schedule is empty. Interval
+ * deliveries fall on `intervalStart` plus whole intervals. Malformed times are ignored.
+ */
+export function getNextDelivery(schedule: DigestSchedule, now: number, intervalStart: number = now): number | undefined {
+  let next: number | undefined;
+  for (const time of schedule.times) {
+    const minutes = parseTimeOfDay(time);
+    if (minutes === undefined) {
+      continue;
+    }
+    const date = new Date(now);
+    date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    if (date.getTime() <= now) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    }
+    next = Math.min(next ?? Infinity, date.getTime());
+  }
+  if (schedule.intervalMinutes > 0) {
+    const interval = schedule.intervalMinutes * 60_000;
+    const elapsed = Math.max(0, now - intervalStart);
+    next = Math.min(next ?? Infinity, intervalStart + (Math.floor(elapsed / interval) + 1) * interval);
+  }
+  return next;
+}
+
+/**
+ * Calls `onDeliver` at each delivery time of the schedule until disposed. Intervals count
+ * from when the schedule was set.
+ */
+export class DigestScheduler {
+  private handle: unknown;
+  private next?: number;
+  private intervalStart: number;
+
+  constructor(
+    private readonly onDeliver: (at: number) => void,
+    private schedule: DigestSchedule = DEFAULT_DIGEST_SCHEDULE,
+    private readonly getNow: Clock = () => Date.now(),
+    private readonly timer: Timer = systemTimer
+  ) {
+    this.intervalStart = getNow();
+    this.arm();
+  }
+
+  /** Replaces the schedule; intervals restart from now. */
+  setSchedule(schedule: DigestSchedule): void {
+    this.schedule = schedule;
+    this.intervalStart = this.getNow();
+    this.arm();
+  }
+
+  /** The current schedule. */
+  getSchedule(): DigestSchedule {
+    return this.schedule;
+  }
+
+  /** When the next delivery is due, or undefined when nothing is scheduled. */
+  getNextDelivery(): number | undefined {
+    return this.next;
+  }
+
+  /** Stops delivering. */
+  dispose(): void {
+    this.clear();
+    this.next = undefined;
+  }
+
+  private arm(): void {
+    this.clear();
+    this.next = getNextDelivery(this.schedule, this.getNow(), this.intervalStart);
+    if (this.next === undefined) {
+      return;
+    }
+    const delay = Math.min(Math.max(0, this.next - this.getNow()), MAX_TIMER_DELAY);
+    this.handle = this.timer.setTimeout(() => this.fire(), delay);
+  }
+
+  private fire(): void {
+    this.handle = undefined;
+    const due = this.next;
+    if (due !== undefined && this.getNow() >= due) {
+      this.onDeliver(due);
+    }
+    this.arm();
+  }
+
+  private clear(): void {
+    if (this.handle !== undefined) {
+      this.timer.clearTimeout(this.handle);
+      this.handle = undefined;
+    }
+  }
+}
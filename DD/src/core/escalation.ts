@@ -0,0 +1,53 @@
+/**
+ * "Repeated calls break through": promotes repeatedly digested notifications.
+ * Stateful like throttling, so callers apply it after routing.
+ * @module escalation
+ */
+
+import type { NotificationInput, RuleEscalation } from "./types.js";
+import type { Clock } from "./router.js";
+
+/**
+ * Key identifying "the same notification" for escalation, case-insensitive: source and
+ * metadata.sender when a sender is known (any message from them counts), else source and title.
+ */
+export function getEscalationKey(input: NotificationInput): string {
+  const sender = input.metadata?.sender?.trim();
+  if (sender) {
+    return [input.source.toLowerCase(), "from", sender.toLowerCase()].join("\u0000");
+  }
+  return [input.source.toLowerCase(), input.title.toLowerCase()].join("\u0000");
+}
+
+/**
+ * Counts digested repeats per key over a sliding window using the injected clock.
+ */
+export class EscalationTracker {
+  private readonly repeats = new Map<string, number[]>();
+
+  constructor(private readonly getNow: Clock = () => Date.now()) {}
+
+  /**
+   * Records a digested repeat for `key`. Returns the number of repeats in the window when it
+   * reaches escalation.count (and starts counting afresh), otherwise undefined.
+   */
+  record(key: string, escalation: RuleEscalation): number | undefined {
+    const now = this.getNow();
+    const windowStart = now - escalation.withinMinutes * 60_000;
+    const repeats = (this.repeats.get(key) ?? []).filter((t) => t > windowStart);
+    repeats.push(now);
+    if (repeats.length >= escalation.count) {
+      this.repeats.delete(key);
+      return repeats.length;
+    }
+    this.repeats.set(key, repeats);
+    return undefined;
+  }
+
+  /**
+   * Forgets all recorded repeats.
+   */
+  reset(): void {
+    this.repeats.clear();
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Human-readable explanations of routing traces (for tooltips, dialogs, logs).
+ * @module explain
+ */
+
+import type { Rule } from "./types.js";
+import type { ConditionResult, RouteTrace } from "./router.js";
+
+/**
+ * Label for a rule: its title, or "source → action" when untitled.
+ */
+export function describeRule(rule: Rule, index: number): string {
+  const label = rule.title ?? `${rule.source === "*" ? "any source" : rule.source} → ${rule.action}`;
+  return `#${index + 1} "${label}"`;
+}
+
+/**
+ * Short label for a condition result: "sourceMatches" → "source ✓".
+ */
+function describeCondition(result: ConditionResult): string {
+  const name = result.name.replace(/Matches$/, "");
+  return `${name} ${result.passed ? "✓" : "✗"}`;
+}
+
+/**
+ * One-line summary of the decision, e.g. `digest (rule #3 "Chat Messages")`.
+ */
+export function summarizeRouteTrace(trace: RouteTrace): string {
+  switch (trace.decidedBy) {
+    case "snooze": {
+      const what = trace.snoozedSource ? `${trace.snoozedSource} snoozed` : "snoozed";
+      return `${trace.action} (${what} until ${new Date(trace.snoozeUntil ?? trace.now).toLocaleTimeString()})`;
+    }
+    case "rule":
+      return `${trace.action} (rule ${describeRule(trace.matchedRule as Rule, trace.matchedRuleIndex ?? 0)})`;
+    case "default":
+      return `${trace.action} (no rule matched; default)`;
+  }
+}
+
+/**
+ * Multi-line explanation: the summary, then one line per evaluated rule with each
+ * condition's pass/fail result, then any pattern capture groups.
+ */
+export function formatRouteTrace(trace: RouteTrace): string[] {
+  const lines = [`Result: ${summarizeRouteTrace(trace)}`];
+  if (trace.decidedBy === "snooze") {
+    lines.push("Snooze was active, so rules were not evaluated.");
+    return lines;
+  }
+  for (const ruleTrace of trace.rules) {
+    const conditions = ruleTrace.conditions.map(describeCondition).join(", ");
+    lines.push(`${describeRule(ruleTrace.rule, ruleTrace.index)}: ${conditions}${ruleTrace.matched ? " → matched" : ""}`);
+  }
+  if (trace.decidedBy === "default") {
+    lines.push("No rule matched; the default applied (digest in focus mode, otherwise allow).");
+  }
+  if (trace.captures) {
+    const groups = trace.captures.groups.map((g, i) => `$${i + 1}=${JSON.stringify(g ?? "")}`).join(" ");
+    lines.push(`Pattern matched "${trace.captures.match}"${groups ? ` (${groups})` : ""}`);
+  }
+  return lines;
+}
@@ -0,0 +1,224 @@
+/**
+ * Exports routed notifications with their routing metadata as Markdown (grouped by
+ * source, for notes), JSON or CSV (for scripts).
+ * @module export
+ */
+
+import type { NotificationMetadata, PatternMatch, Severity } from "./types.js";
+import type { RouteDecision, RouteTrace } from "./router.js";
+import type { MentionMatch } from "./mentions.js";
+import type { HistoryEntry } from "./history.js";
+import { describeRule } from "./explain.js";
+import { NORMAL_MODE_ID } from "./modes.js";
+
+/** Output formats. */
+export type ExportFormat = "markdown" | "json" | "csv";
+
+/** File extension for each format. */
+export const EXPORT_EXTENSIONS: Readonly<Record<ExportFormat, string>> = { markdown: "md", json: "json", csv: "csv" };
+
+/** A routed notification with the routing metadata that is exported (structurally compatible with processed history entries). */
+export interface ExportEntry extends HistoryEntry {
+  trace?: RouteTrace;
+  captures?: PatternMatch;
+  override?: string;
+  mention?: MentionMatch;
+  mode?: string;
+  throttled?: boolean;
+  escalation?: { reason: string; count: number };
+  deferredUntil?: number | "break";
+  resurfaced?: boolean;
+  count?: number;
+  lastSeen?: number;
+}
+
+/** One exported notification: plain data, times as ISO 8601 strings. */
+export interface ExportRecord {
+  timestamp: string;
+  source: string;
+  title: string;
+  body: string;
+  severity?: Severity;
+  action: string;
+  /** Which step decided the action (snooze, rule or default). */
+  decidedBy?: RouteDecision;
+  /** The matched rule, e.g. `#2 "Build failures"`. */
+  rule?: string;
+  /** Id of the mode it was routed in. */
+  mode?: string;
+  /** Manager-level override that replaced the rules' result (e.g. "mention"). */
+  override?: string;
+  /** The mention that triggered the override, e.g. "@ann". */
+  mention?: string;
+  throttled?: boolean;
+  /** Why it was escalated to allow. */
+  escalation?: string;
+  /** When it was (or is) due, or "break". */
+  deferredUntil?: string;
+  resurfaced?: boolean;
+  /** Coalesced occurrences (1 when not coalesced). */
+  count: number;
+  lastSeen?: string;
+  metadata?: NotificationMetadata;
+  captures?: PatternMatch;
+}
+
+/** Options for exportNotifications. */
+export interface ExportOptions {
+  /** Heading of the Markdown export (default "Notifications"). */
+  title?: string;
+  /** How Markdown shows times (default ISO 8601); JSON and CSV always use ISO 8601. */
+  formatTime?: (timestamp: number) => string;
+}
+
+/** CSV columns, in order. */
+const CSV_COLUMNS = [
+  "timestamp",
+  "source",
+  "title",
+  "body",
+  "severity",
+  "action",
+  "decidedBy",
+  "rule",
+  "mode",
+  "override",
+  "mention",
+  "throttled",
+  "escalation",
+  "deferredUntil",
+  "resurfaced",
+  "count",
+  "lastSeen",
+  "sender",
+  "channel",
+  "tags",
+] as const;
+
+const toIso = (timestamp: number): string => new Date(timestamp).toISOString();
+
+/**
+ * The exported form of one entry.
+ */
+export function toExportRecord(entry: ExportEntry): ExportRecord {
+  const trace = entry.trace;
+  return {
+    timestamp: toIso(entry.timestamp),
+    source: entry.input.source,
+    title: entry.input.title,
+    body: entry.input.body,
+    severity: entry.input.severity,
+    action: entry.action,
+    decidedBy: trace?.decidedBy,
+    rule: trace?.matchedRule ? describeRule(trace.matchedRule, trace.matchedRuleIndex ?? 0) : undefined,
+    mode: entry.mode,
+    override: entry.override,
+    mention: entry.mention?.handle,
+    throttled: entry.throttled,
+    escalation: entry.escalation?.reason,
+    deferredUntil: entry.deferredUntil === undefined ? undefined : entry.deferredUntil === "break" ? "break" : toIso(entry.deferredUntil),
+    resurfaced: entry.resurfaced,
+    count: entry.count ?? 1,
+    lastSeen: entry.lastSeen === undefined ? undefined : toIso(entry.lastSeen),
+    metadata: entry.input.metadata,
+    captures: entry.captures,
+  };
+}
+
+/** A CSV field, quoted when it contains a separator, quote or line break. */
+function csvField(value: unknown): string {
+  const text = value === undefined ? "" : Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Text on one line, for Markdown list items. */
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** "digest · rule #2 "Chat" · mode focus · ×3", the routing details of a Markdown item. */
+function describeRecord(record: ExportRecord): string {
+  const details = [record.action];
+  if (record.rule) {
+    details.push(`rule ${record.rule}`);
+  } else if (record.decidedBy === "snooze") {
+    details.push("snoozed");
+  }
+  if (record.mode && record.mode !== NORMAL_MODE_ID) {
+    details.push(`mode ${record.mode}`);
+  }
+  if (record.mention) {
+    details.push(`mention ${record.mention}`);
+  }
+  if (record.throttled) {
+    details.push("throttled");
+  }
+  if (record.escalation) {
+    details.push(`escalated: ${record.escalation}`);
+  }
+  if (record.deferredUntil) {
+    details.push(record.resurfaced ? "deferred, then shown" : `deferred until ${record.deferredUntil}`);
+  }
+  if (record.count > 1) {
+    details.push(`×${record.count}`);
+  }
+  return details.join(" · ");
+}
+
+function toMarkdown(entries: readonly ExportEntry[], options: ExportOptions): string {
+  const formatTime = options.formatTime ?? toIso;
+  const lines = [`# ${options.title ?? "Notifications"}`, ""];
+  if (entries.length === 0) {
+    lines.push("_No notifications._");
+    return lines.join("\n") + "\n";
+  }
+  const countOf = (group: readonly ExportEntry[]): number => group.reduce((sum, entry) => sum + (entry.count ?? 1), 0);
+  const total = countOf(entries);
+  const first = entries.reduce((min, entry) => Math.min(min, entry.timestamp), Infinity);
+  const last = entries.reduce((max, entry) => Math.max(max, entry.lastSeen ?? entry.timestamp), -Infinity);
+  lines.push(`${total} notification${total === 1 ? "" : "s"} from ${formatTime(first)} to ${formatTime(last)}.`);
+
+  const groups = new Map<string, ExportEntry[]>();
+  for (const entry of entries) {
+    groups.set(entry.input.source, [...(groups.get(entry.input.source) ?? []), entry]);
+  }
+  const sorted = [...groups.entries()].sort((a, b) => countOf(b[1]) - countOf(a[1]) || a[0].localeCompare(b[0]));
+  for (const [source, group] of sorted) {
+    lines.push("", `## ${source} (${countOf(group)})`, "");
+    for (const entry of group) {
+      const record = toExportRecord(entry);
+      const body = oneLine(entry.input.body);
+      lines.push(`- ${formatTime(entry.timestamp)} **${oneLine(entry.input.title)}**${body ? ` — ${body}` : ""} _(${describeRecord(record)})_`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function toCsv(entries: readonly ExportEntry[]): string {
+  const rows = entries.map((entry) => {
+    const record = toExportRecord(entry);
+    const values: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> = {
+      ...record,
+      sender: record.metadata?.sender,
+      channel: record.metadata?.channel,
+      tags: record.metadata?.tags,
+    };
+    return CSV_COLUMNS.map((column) => csvField(values[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Exports `entries` (in the given order) in `format`. Markdown groups them by source,
+ * largest group first.
+ */
+export function exportNotifications(entries: readonly ExportEntry[], format: ExportFormat, options: ExportOptions = {}): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(entries, options);
+    case "json":
+      return JSON.stringify(entries.map(toExportRecord), null, 2) + "\n";
+    case "csv":
+      return toCsv(entries);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Grouping of notification lists (the sidebar) by source, matched rule, priority or time,
+ * or none (one chronological list), with a label and codicon per group.
+ * @module grouping
+ */
+
+import type { FilterableEntry } from "./notificationFilter.js";
+import { PRIORITY_LABELS, getNotificationPriority } from "./notificationFilter.js";
+import { Priority } from "./ruleConfig.js";
+import { describeRule } from "./explain.js";
+
+/** How notifications are grouped. "flat" lists them newest first without groups. */
+export type GroupingMode = "source" | "rule" | "priority" | "time" | "flat";
+
+/** Grouping modes with their display names, in picker order. */
+export const GROUPING_MODES: ReadonlyArray<{ mode: GroupingMode; label: string }> = [
+  { mode: "source", label: "Source" },
+  { mode: "rule", label: "Matched Rule" },
+  { mode: "priority", label: "Priority" },
+  { mode: "time", label: "Time" },
+  { mode: "flat", label: "None (chronological list)" },
+];
+
+/** Codicons of the built-in sources, in the order their groups are listed. */
+export const SOURCE_ICONS: Readonly<Record<string, string>> = {
+  Git: "git-branch",
+  Build: "tools",
+  Test: "beaker",
+  Debug: "debug",
+  Extension: "extensions",
+  "Language Server": "server-process",
+  "File System": "file",
+  Chat: "comment-discussion",
+};
+
+/** Codicon for sources without their own. */
+export const DEFAULT_SOURCE_ICON = "bell";
+
+/** A group of notifications, newest first. */
+export interface NotificationGroup<T> {
+  /** Unique within one grouping. */
+  key: string;
+  label: string;
+  /** Codicon name. */
+  icon: string;
+  entries: T[];
+}
+
+const PRIORITY_ICONS: Readonly<Record<Priority, string>> = {
+  [Priority.Critical]: "flame",
+  [Priority.High]: "arrow-up",
+  [Priority.Medium]: "dash",
+  [Priority.Low]: "arrow-down",
+};
+
+const SOURCE_ORDER = Object.keys(SOURCE_ICONS).map((source) => source.toLowerCase());
+
+/**
+ * Codicon for a source (case-insensitive), or DEFAULT_SOURCE_ICON for unknown sources.
+ */
+export function getSourceIcon(source: string): string {
+  const known = Object.keys(SOURCE_ICONS).find((name) => name.toLowerCase() === source.toLowerCase());
+  return known ? SOURCE_ICONS[known] : DEFAULT_SOURCE_ICON;
+}
+
+/** When an entry was last seen (coalesced entries: their latest occurrence). */
+const seenAt = (entry: FilterableEntry): number => entry.lastSeen ?? entry.timestamp;
+
+/** Group key, label, icon and sort rank of one entry. */
+interface Placement {
+  key: string;
+  label: string;
+  icon: string;
+  rank: number;
+}
+
+function placeBySource(entry: FilterableEntry): Placement {
+  const source = entry.input.source;
+  const order = SOURCE_ORDER.indexOf(source.toLowerCase());
+  return { key: source, label: source, icon: getSourceIcon(source), rank: order === -1 ? SOURCE_ORDER.length : order };
+}
+
+function placeByRule(entry: FilterableEntry & { override?: string }): Placement {
+  const trace = entry.trace;
+  if (entry.override === "mention") {
+    return { key: "mention", label: "@Mentions", icon: "mention", rank: -1 };
+  }
+  if (trace?.decidedBy === "rule" && trace.matchedRule) {
+    const label = trace.matchedRule.title ?? describeRule(trace.matchedRule, trace.matchedRuleIndex ?? 0);
+    return { key: `rule:${label}`, label, icon: "filter", rank: trace.matchedRuleIndex ?? 0 };
+  }
+  if (trace?.decidedBy === "snooze") {
+    return { key: "snooze", label: "Snoozed", icon: "bell-slash", rank: Number.MAX_SAFE_INTEGER - 2 };
+  }
+  if (trace?.decidedBy === "default") {
+    return { key: "default", label: "No rule matched", icon: "circle-outline", rank: Number.MAX_SAFE_INTEGER - 1 };
+  }
+  return { key: "unknown", label: "Unknown", icon: "question", rank: Number.MAX_SAFE_INTEGER };
+}
+
+function placeByPriority(entry: FilterableEntry): Placement {
+  const priority = getNotificationPriority(entry);
+  return { key: `priority:${priority}`, label: `${PRIORITY_LABELS[priority]} priority`, icon: PRIORITY_ICONS[priority], rank: -priority };
+}
+
+function placeByTime(entry: FilterableEntry, now: number): Placement {
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const seen = seenAt(entry);
+  if (seen >= now - 60 * 60_000) {
+    return { key: "hour", label: "Last hour", icon: "clock", rank: 0 };
+  }
+  if (seen >= startOfDay.getTime()) {
+    return { key: "today", label: "Today", icon: "calendar", rank: 1 };
+  }
+  return { key: "earlier", label: "Earlier", icon: "history", rank: 2 };
+}
+
+/**
+ * Groups `entries` by `mode` at time `now`. Groups are ordered by source (built-in sources
+ * first, then alphabetically), by rule order, highest priority first or newest first;
+ * entries within a group are newest first. "flat" returns a single group of everything.
+ */
+export function groupNotifications<T extends FilterableEntry & { override?: string }>(
+  entries: readonly T[],
+  mode: GroupingMode,
+  now: number
+): NotificationGroup<T>[] {
+  const newestFirst = [...entries].sort((a, b) => seenAt(b) - seenAt(a));
+  if (mode === "flat") {
+    return newestFirst.length === 0 ? [] : [{ key: "all", label: "All notifications", icon: "list-flat", entries: newestFirst }];
+  }
+  const place = (entry: T): Placement => {
+    switch (mode) {
+      case "source":
+        return placeBySource(entry);
+      case "rule":
+        return placeByRule(entry);
+      case "priority":
+        return placeByPriority(entry);
+      case "time":
+        return placeByTime(entry, now);
+    }
+  };
+  const groups = new Map<string, NotificationGroup<T> & { rank: number }>();
+  for (const entry of newestFirst) {
+    const placement = place(entry);
+    const group = groups.get(placement.key);
+    if (group) {
+      group.entries.push(entry);
+      group.rank = Math.min(group.rank, placement.rank);
+    } else {
+      groups.set(placement.key, { ...placement, entries: [entry] });
+    }
+  }
+  return [...groups.values()]
+    .sort((a, b) => a.rank - b.rank || a.label.localeCompare(b.label))
+    .map(({ key, label, icon, entries: grouped }) => ({ key, label, icon, entries: grouped }));
+}
@@ -0,0 +1,269 @@
+/**
+ * Notification history that outlives the window: retention limits (by count and age),
+ * queries (by source, action, time range and text), compact snapshots, and a store that
+ * saves them to an injected storage (a file in the extension's storage folder) after a
+ * short delay.
+ * @module history
+ */
+
+import type { Action, NotificationInput } from "./types.js";
+import type { RouteTrace } from "./router.js";
+import type { Timer } from "./defer.js";
+import { systemTimer } from "./defer.js";
+
+/** A routed notification (structurally compatible with processed history entries). */
+export interface HistoryEntry {
+  input: NotificationInput;
+  action: Action;
+  /** When it was routed (epoch ms). */
+  timestamp: number;
+}
+
+/** A history entry as routed and coalesced: its trace and its repeats, if any. */
+export interface TracedHistoryEntry extends HistoryEntry {
+  trace?: RouteTrace;
+  /** Latest coalesced occurrence, if any. */
+  lastSeen?: number;
+  /** Individual coalesced occurrences, oldest first. */
+  occurrences?: TracedHistoryEntry[];
+}
+
+/** How much history is kept. 0 means no limit. */
+export interface HistoryRetention {
+  /** Most entries kept; the oldest are dropped first. */
+  maxEntries: number;
+  /** Entries older than this many days are dropped. */
+  maxAgeDays: number;
+}
+
+/** Default retention: the last 1000 notifications from the past week. */
+export const DEFAULT_RETENTION: HistoryRetention = { maxEntries: 1000, maxAgeDays: 7 };
+
+/** Criteria for queryHistory. Absent fields match everything. */
+export interface HistoryQuery {
+  /** Source name (case-insensitive). */
+  source?: string;
+  /** Action, or any of several actions. */
+  action?: Action | Action[];
+  /** Routed (coalesced entries: last seen) at or after this time (epoch ms). */
+  since?: number;
+  /** Routed (coalesced entries: first seen) before this time (epoch ms). */
+  until?: number;
+  /** Text in the source, title or body (case-insensitive). */
+  text?: string;
+  /** Most results returned (newest first). */
+  limit?: number;
+}
+
+/** Version written to saved snapshots; snapshots with another version are ignored. */
+export const HISTORY_VERSION = 1;
+
+/**
+ * Everything saved between sessions: the history and the unread digest and important lists.
+ */
+export interface HistorySnapshot<T extends HistoryEntry = HistoryEntry> {
+  version: number;
+  /** Routed notifications, oldest first. */
+  history: T[];
+  /** Unread digested notifications (sidebar). */
+  digested: T[];
+  /** Unread important notifications (status bar). */
+  important: T[];
+}
+
+/** Where snapshots are kept (e.g. a JSON file). read() resolves undefined when nothing was saved. */
+export interface HistoryStorage {
+  read(): Promise<string | undefined>;
+  write(data: string): Promise<void>;
+}
+
+/**
+ * Entries of `entries` (oldest first) that `retention` keeps at time `now`. Coalesced entries
+ * count as seen at their latest occurrence.
+ */
+export function applyRetention<T extends HistoryEntry & { lastSeen?: number }>(
+  entries: readonly T[],
+  retention: HistoryRetention,
+  now: number
+): T[] {
+  const kept = retention.maxEntries > 0 ? entries.slice(-retention.maxEntries) : [...entries];
+  if (retention.maxAgeDays <= 0) {
+    return kept;
+  }
+  const oldest = now - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  return kept.filter((entry) => (entry.lastSeen ?? entry.timestamp) >= oldest);
+}
+
+/**
+ * The part of a routing trace worth saving: the decision and the matched rule's index,
+ * title, source, action and priority. Per-rule condition results are dropped.
+ */
+export function compactTrace(trace: RouteTrace): RouteTrace {
+  const rule = trace.matchedRule;
+  return {
+    action: trace.action,
+    decidedBy: trace.decidedBy,
+    now: trace.now,
+    snoozeUntil: trace.snoozeUntil,
+    snoozedSource: trace.snoozedSource,
+    matchedRuleIndex: trace.matchedRuleIndex,
+    matchedRule: rule && { title: rule.title, source: rule.source, action: rule.action, priority: rule.priority },
+    rules: [],
+  };
+}
+
+/**
+ * A snapshot of the history and unread lists to save: each list and each entry's occurrences
+ * within `retention` at time `now`, with compact traces (see compactTrace).
+ */
+export function createHistorySnapshot<T extends TracedHistoryEntry>(
+  lists: Omit<HistorySnapshot<T>, "version">,
+  retention: HistoryRetention,
+  now: number
+): HistorySnapshot<T> {
+  const compact = <E extends TracedHistoryEntry>(entry: E): E => ({
+    ...entry,
+    trace: entry.trace && compactTrace(entry.trace),
+    occurrences: entry.occurrences && applyRetention(entry.occurrences, retention, now).map(compact),
+  });
+  const save = (entries: T[]): T[] => applyRetention(entries, retention, now).map(compact);
+  return {
+    version: HISTORY_VERSION,
+    history: save(lists.history),
+    digested: save(lists.digested),
+    important: save(lists.important),
+  };
+}
+
+/**
+ * Problems with retention settings (empty when valid).
+ */
+export function validateRetention(retention: HistoryRetention): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(retention.maxEntries) || retention.maxEntries < 0) {
+    errors.push("maxEntries must be a whole number of 0 or more");
+  }
+  if (typeof retention.maxAgeDays !== "number" || !(retention.maxAgeDays >= 0)) {
+    errors.push("maxAgeDays must be 0 or more");
+  }
+  return errors;
+}
+
+/**
+ * Entries of `entries` (oldest first) matching `query`, newest first. A coalesced entry is in
+ * the time range when any of its repeats could be.
+ */
+export function queryHistory<T extends HistoryEntry & { lastSeen?: number }>(entries: readonly T[], query: HistoryQuery = {}): T[] {
+  const source = query.source?.toLowerCase();
+  const actions = query.action === undefined ? undefined : Array.isArray(query.action) ? query.action : [query.action];
+  const text = query.text?.trim().toLowerCase();
+  const limit = query.limit ?? Infinity;
+  const results: T[] = [];
+  for (let i = entries.length - 1; i >= 0 && results.length < limit; i--) {
+    const entry = entries[i];
+    if (source !== undefined && entry.input.source.toLowerCase() !== source) {
+      continue;
+    }
+    if (actions && !actions.includes(entry.action)) {
+      continue;
+    }
+    if ((query.since !== undefined && (entry.lastSeen ?? entry.timestamp) < query.since) || (query.until !== undefined && entry.timestamp >= query.until)) {
+      continue;
+    }
+    if (text && !`${entry.input.source}\n${entry.input.title}\n${entry.input.body}`.toLowerCase().includes(text)) {
+      continue;
+    }
+    results.push(entry);
+  }
+  return results;
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry | undefined;
+  return (
+    typeof entry?.timestamp === "number" &&
+    typeof entry.action === "string" &&
+    typeof entry.input?.source === "string" &&
+    typeof entry.input.title === "string" &&
+    typeof entry.input.body === "string"
+  );
+}
+
+/**
+ * Parses a saved snapshot. Returns undefined for invalid JSON or another version; malformed
+ * entries are dropped.
+ */
+export function parseHistorySnapshot<T extends HistoryEntry = HistoryEntry>(data: string): HistorySnapshot<T> | undefined {
+  let parsed: Partial<HistorySnapshot<T>>;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+  if (parsed?.version !== HISTORY_VERSION) {
+    return undefined;
+  }
+  const entries = (list: unknown): T[] => (Array.isArray(list) ? list.filter(isHistoryEntry) : []) as T[];
+  return {
+    version: HISTORY_VERSION,
+    history: entries(parsed.history),
+    digested: entries(parsed.digested),
+    important: entries(parsed.important),
+  };
+}
+
+/**
+ * Loads and saves history snapshots. save() waits `delayMs` so a burst of notifications
+ * is written once; writes never overlap, and flush() writes a pending save at once.
+ */
+export class HistoryStore<T extends HistoryEntry = HistoryEntry> {
+  private pending?: () => HistorySnapshot<T>;
+  private handle: unknown;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storage: HistoryStorage,
+    private readonly onError: (error: unknown) => void = () => undefined,
+    private readonly timer: Timer = systemTimer,
+    private readonly delayMs: number = 2000
+  ) {}
+
+  /**
+   * The saved snapshot, or undefined when nothing (or nothing readable) was saved.
+   */
+  async load(): Promise<HistorySnapshot<T> | undefined> {
+    const data = await this.storage.read();
+    return data === undefined ? undefined : parseHistorySnapshot<T>(data);
+  }
+
+  /**
+   * Saves the snapshot `getSnapshot` returns after the delay (called then, so it is current).
+   */
+  save(getSnapshot: () => HistorySnapshot<T>): void {
+    this.pending = getSnapshot;
+    if (this.handle === undefined) {
+      this.handle = this.timer.setTimeout(() => {
+        this.handle = undefined;
+        void this.flush();
+      }, this.delayMs);
+    }
+  }
+
+  /**
+   * Writes the pending save now. Resolves when every write so far has finished.
+   */
+  flush(): Promise<void> {
+    if (this.handle !== undefined) {
+      this.timer.clearTimeout(this.handle);
+      this.handle = undefined;
+    }
+    const getSnapshot = this.pending;
+    this.pending = undefined;
+    if (getSnapshot) {
+      this.writing = this.writing
+        .then(() => this.storage.write(JSON.stringify(getSnapshot())))
+        .catch((error) => this.onError(error));
+    }
+    return this.writing;
+  }
+}
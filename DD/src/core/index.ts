@@ -5,19 +5,165 @@
  */
 
 // Domain types
-export type { Action, NotificationInput, Rule } from "./types.js";
+export type {
+  Action,
+  Severity,
+  NotificationMetadata,
+  NotificationInput,
+  PatternMatch,
+  Rule,
+  RuleSchedule,
+  TimeWindow,
+  Weekday,
+  RuleCondition,
+  RuleThrottle,
+  RuleEscalation,
+  RuleDefer,
+  ConditionLeaf,
+  AllCondition,
+  AnyCondition,
+  NotCondition,
+} from "./types.js";
 
 // State
 export type { RouterState } from "./state.js";
 
 // Matchers (for OCP: custom conditions and defaults)
-export type { MatchCondition } from "./matchers.js";
+export type { MatchCondition, MatchContext } from "./matchers.js";
 export {
   sourceMatches,
   containsMatches,
+  patternMatches,
+  severityMatches,
+  senderMatches,
+  channelMatches,
+  tagMatches,
+  scheduleMatches,
+  whenMatches,
+  leafMatchConditions,
   defaultMatchConditions,
+  evaluateCondition,
+  matchPattern,
+  compilePattern,
+  validatePattern,
 } from "./matchers.js";
 
+// Severity
+export { SEVERITIES, getSeverity, compareSeverity, isSeverity, validateSeverity } from "./severity.js";
+
+// Condition trees
+export { describeCondition, validateCondition } from "./conditions.js";
+
+// Schedules
+export { WEEKDAYS, isWithinSchedule, isWithinWindow, validateSchedule } from "./schedule.js";
+
+// Snoozes
+export type { ActiveSnooze, SourceSnooze, GlobalSnooze, SnoozeSummary } from "./snooze.js";
+export {
+  findActiveSnooze,
+  snoozeSource,
+  unsnoozeSource,
+  getSourceSnoozes,
+  summarizeSnooze,
+  formatRemaining,
+  formatCountdown,
+} from "./snooze.js";
+
 // Router
-export type { Clock, RouteOptions } from "./router.js";
-export { route } from "./router.js";
+export type { Clock, RouteOptions, RouteDecision, ConditionResult, RuleTrace, RouteTrace } from "./router.js";
+export { route, routeWithTrace, findMatchingRule } from "./router.js";
+
+// Compiled (indexed) routing
+export type { CompiledRouter } from "./compile.js";
+export { compileRules } from "./compile.js";
+
+// Coalescing
+export type { CoalescableEntry, CoalescedEntry } from "./coalesce.js";
+export { normalizeBody, getCoalesceKey, findCoalescable, coalesceInto } from "./coalesce.js";
+
+// Throttling
+export type { ThrottleUsage } from "./throttle.js";
+export { ThrottleTracker } from "./throttle.js";
+
+// Escalation
+export { EscalationTracker, getEscalationKey } from "./escalation.js";
+
+// Deferred delivery
+export type { Timer, DeferredEntry } from "./defer.js";
+export { DeferQueue, DEFAULT_DEFER, systemTimer, getDeferDueTime, validateDefer } from "./defer.js";
+
+// Mentions
+export type { BroadcastPolicy, MentionKind, MentionConfig, MentionMatch, MentionMatcher } from "./mentions.js";
+export { BROADCAST_HANDLES, createMentionMatcher, findMention, escapeRegExp } from "./mentions.js";
+
+// Modes
+export type { MentionPolicy, ModeDefinition, ModeTransition } from "./modes.js";
+export {
+  ModeMachine,
+  BUILT_IN_MODES,
+  NORMAL_MODE,
+  NORMAL_MODE_ID,
+  FOCUS_MODE_ID,
+  AFK_MODE_ID,
+  getModeId,
+  validateMode,
+} from "./modes.js";
+
+// Pomodoro sessions
+export type { PomodoroSettings, PomodoroPhase, PomodoroStatus } from "./pomodoro.js";
+export { PomodoroTimer, DEFAULT_POMODORO, validatePomodoroSettings } from "./pomodoro.js";
+
+// Digest summaries
+export type { DigestEntry, DigestGroup, DigestSummary } from "./digest.js";
+export { summarizeDigest, formatDigestSummary } from "./digest.js";
+export type { DigestSchedule } from "./digestSchedule.js";
+export { DigestScheduler, DEFAULT_DIGEST_SCHEDULE, getNextDelivery, validateDigestSchedule } from "./digestSchedule.js";
+
+// Persistent history
+export type { HistoryEntry, TracedHistoryEntry, HistoryRetention, HistoryQuery, HistorySnapshot, HistoryStorage } from "./history.js";
+export {
+  HistoryStore,
+  DEFAULT_RETENTION,
+  HISTORY_VERSION,
+  applyRetention,
+  compactTrace,
+  createHistorySnapshot,
+  validateRetention,
+  queryHistory,
+  parseHistorySnapshot,
+} from "./history.js";
+
+// Sidebar filters
+export type { NotificationFilter, FilterableEntry } from "./notificationFilter.js";
+export {
+  PRIORITY_LABELS,
+  getNotificationPriority,
+  isFilterEmpty,
+  describeAge,
+  describeFilter,
+  matchesFilter,
+  filterNotifications,
+} from "./notificationFilter.js";
+
+// Sidebar grouping
+export type { GroupingMode, NotificationGroup } from "./grouping.js";
+export { GROUPING_MODES, SOURCE_ICONS, DEFAULT_SOURCE_ICON, getSourceIcon, groupNotifications } from "./grouping.js";
+
+// Export
+export type { ExportFormat, ExportEntry, ExportRecord, ExportOptions } from "./export.js";
+export { exportNotifications, toExportRecord, EXPORT_EXTENSIONS } from "./export.js";
+
+// Rule configuration and its text format
+export type { SourceRuleConfig } from "./ruleConfig.js";
+export { Priority, getActionLabel, generateRuleTitle, getModeRuleConfigs, convertToRoutingRules } from "./ruleConfig.js";
+export type { RuleDslError, RuleDslParseResult } from "./ruleDsl.js";
+export { parseRuleDsl, serializeRule, serializeRuleDsl } from "./ruleDsl.js";
+export type { RuleLintKind, RuleLintFinding } from "./ruleLint.js";
+export { lintRules, getEvaluationOrder } from "./ruleLint.js";
+
+// What-if simulation
+export type { SimulationEntry, SimulationChange, SimulationResult } from "./simulate.js";
+export { simulateRules } from "./simulate.js";
+
+// Explanations
+export { describeRule, summarizeRouteTrace, formatRouteTrace } from "./explain.js";
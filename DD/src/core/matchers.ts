@@ -3,13 +3,24 @@
  * @module matchers
  */
 
-import type { NotificationInput, Rule } from "./types.js";
+import type { NotificationInput, PatternMatch, Rule, RuleCondition } from "./types.js";
+import { isWithinSchedule } from "./schedule.js";
+import { compareSeverity, getSeverity, isSeverity } from "./severity.js";
 
 /**
- * A match condition: (rule, input) => true if this criterion passes.
- * All conditions in a list must pass for a rule to match.
+ * Evaluation context passed by the router to every condition.
  */
-export type MatchCondition = (rule: Rule, input: NotificationInput) => boolean;
+export interface MatchContext {
+  /** Current time as epoch ms, from the router's injected clock. */
+  now: number;
+}
+
+/**
+ * A match condition: (rule, input, context?) => true if this criterion passes.
+ * All conditions in a list must pass for a rule to match. Conditions that do not
+ * depend on time may ignore the context.
+ */
+export type MatchCondition = (rule: Rule, input: NotificationInput, context?: MatchContext) => boolean;
 
 /**
  * Source matcher: rule.source === "*" or equals input.source (case-insensitive).
@@ -30,8 +41,195 @@ export const containsMatches: MatchCondition = (rule, input) => {
   return haystack.includes(needle.toLowerCase());
 };
 
+/** Compiled patterns keyed by flags + "/" + source; invalid patterns are cached as null. */
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Normalizes pattern flags: defaults to "i", drops the stateful "g" and "y" flags.
+ */
+function normalizeFlags(flags: string | undefined): string {
+  return (flags ?? "i").replace(/[gy]/g, "");
+}
+
+/**
+ * Returns an error message if pattern/flags do not form a valid regular expression, else undefined.
+ */
+export function validatePattern(pattern: string, flags?: string): string | undefined {
+  try {
+    new RegExp(pattern, normalizeFlags(flags));
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Compiles rule.pattern (cached). Returns undefined when the rule has no pattern,
+ * null when the pattern is invalid.
+ */
+export function compilePattern(rule: Rule): RegExp | null | undefined {
+  const pattern = rule.pattern;
+  if (!pattern) {
+    return undefined;
+  }
+  const flags = normalizeFlags(rule.patternFlags);
+  const key = flags + "/" + pattern;
+  let re = patternCache.get(key);
+  if (re === undefined) {
+    re = validatePattern(pattern, flags) ? null : new RegExp(pattern, flags);
+    patternCache.set(key, re);
+  }
+  return re;
+}
+
+/**
+ * Runs rule.pattern against (title + "\\n" + body) and returns its capture groups.
+ * Returns undefined when the rule has no pattern, the pattern is invalid, or it does not match.
+ */
+export function matchPattern(rule: Rule, input: NotificationInput): PatternMatch | undefined {
+  const re = compilePattern(rule);
+  if (!re) {
+    return undefined;
+  }
+  const result = re.exec(input.title + "\n" + input.body);
+  if (!result) {
+    return undefined;
+  }
+  return {
+    match: result[0],
+    groups: result.slice(1),
+    namedGroups: result.groups ? { ...result.groups } : undefined,
+  };
+}
+
+/**
+ * Pattern matcher: if rule.pattern is absent or empty, passes (no filter).
+ * Otherwise the regex must match (title + "\\n" + body). Invalid patterns never match.
+ */
+export const patternMatches: MatchCondition = (rule, input) => {
+  const re = compilePattern(rule);
+  if (re === undefined) {
+    return true;
+  }
+  return re !== null && re.test(input.title + "\n" + input.body);
+};
+
+/**
+ * Severity matcher: if rule.minSeverity is absent, passes (no filter).
+ * Otherwise input.severity (default "info") must be at least rule.minSeverity.
+ * Unknown thresholds never match.
+ */
+export const severityMatches: MatchCondition = (rule, input) => {
+  if (!rule.minSeverity) {
+    return true;
+  }
+  return isSeverity(rule.minSeverity) && compareSeverity(getSeverity(input), rule.minSeverity) >= 0;
+};
+
+/**
+ * Case-insensitive equality for optional metadata filters: passes when the filter is
+ * absent or trims to empty, fails when the input has no value.
+ */
+function metadataEquals(filter: string | undefined, value: string | undefined, normalize: (s: string) => string): boolean {
+  const needle = filter?.trim();
+  if (!needle) {
+    return true;
+  }
+  return value !== undefined && normalize(value) === normalize(needle);
+}
+
+const normalizeName = (value: string): string => value.trim().toLowerCase();
+const normalizeChannel = (value: string): string => normalizeName(value).replace(/^#/, "");
+
+/**
+ * Sender matcher: if rule.sender is absent or empty, passes (no filter).
+ * Otherwise input.metadata.sender must equal it case-insensitively.
+ */
+export const senderMatches: MatchCondition = (rule, input) => {
+  return metadataEquals(rule.sender, input.metadata?.sender, normalizeName);
+};
+
+/**
+ * Channel matcher: if rule.channel is absent or empty, passes (no filter).
+ * Otherwise input.metadata.channel must equal it case-insensitively; "#frontend" equals "frontend".
+ */
+export const channelMatches: MatchCondition = (rule, input) => {
+  return metadataEquals(rule.channel, input.metadata?.channel, normalizeChannel);
+};
+
+/**
+ * Tag matcher: if rule.tag is absent or empty, passes (no filter).
+ * Otherwise input.metadata.tags must include it case-insensitively.
+ */
+export const tagMatches: MatchCondition = (rule, input) => {
+  const tags = input.metadata?.tags ?? [];
+  return !rule.tag?.trim() || tags.some((tag) => metadataEquals(rule.tag, tag, normalizeName));
+};
+
+/**
+ * Schedule matcher: if rule.schedule is absent or has no windows, passes (no filter).
+ * Otherwise context.now (default: Date.now()) must be inside a window, or outside all
+ * windows when schedule.outside is true.
+ */
+export const scheduleMatches: MatchCondition = (rule, _input, context) => {
+  const schedule = rule.schedule;
+  if (!schedule || schedule.windows.length === 0) {
+    return true;
+  }
+  return isWithinSchedule(schedule, context?.now ?? Date.now());
+};
+
+/**
+ * Conditions applied to each leaf of a condition tree (see evaluateCondition).
+ */
+export const leafMatchConditions: MatchCondition[] = [
+  sourceMatches,
+  containsMatches,
+  patternMatches,
+  severityMatches,
+  senderMatches,
+  channelMatches,
+  tagMatches,
+];
+
+/**
+ * Evaluates a condition tree: "all" (AND, true when empty), "any" (OR, false when empty),
+ * "not", and leaves checked with leafMatchConditions as if they were rules.
+ */
+export function evaluateCondition(condition: RuleCondition, input: NotificationInput, context?: MatchContext): boolean {
+  if ("all" in condition) {
+    return condition.all.every((child) => evaluateCondition(child, input, context));
+  }
+  if ("any" in condition) {
+    return condition.any.some((child) => evaluateCondition(child, input, context));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, input, context);
+  }
+  const leafRule: Rule = { ...condition, source: condition.source || "*", action: "allow" };
+  return leafMatchConditions.every((fn) => fn(leafRule, input, context));
+}
+
+/**
+ * Condition-tree matcher: if rule.when is absent, passes (no filter).
+ * Otherwise the tree must evaluate to true (see evaluateCondition).
+ */
+export const whenMatches: MatchCondition = (rule, input, context) => {
+  return !rule.when || evaluateCondition(rule.when, input, context);
+};
+
 /**
- * Default list of match conditions: source, then contains.
- * Router runs these in order; all must pass for a rule to match.
+ * Default list of match conditions: source, contains, pattern, severity, metadata (sender, channel, tag),
+ * schedule, then the condition tree. Router runs these in order; all must pass for a rule to match.
  */
-export const defaultMatchConditions: MatchCondition[] = [sourceMatches, containsMatches];
+export const defaultMatchConditions: MatchCondition[] = [
+  sourceMatches,
+  containsMatches,
+  patternMatches,
+  severityMatches,
+  senderMatches,
+  channelMatches,
+  tagMatches,
+  scheduleMatches,
+  whenMatches,
+];
@@ -0,0 +1,102 @@
+/**
+ * @mention detection: the user's names and aliases, team handles they belong to, and
+ * broadcast handles (@here, @channel, @all), with per-sender blocklists.
+ * @module mentions
+ */
+
+import type { NotificationInput } from "./types.js";
+
+/**
+ * How broadcast handles (@here, @channel, @all) are treated:
+ * - "mention": like a direct mention of the user
+ * - "ignore": not a mention; the notification is routed normally
+ */
+export type BroadcastPolicy = "mention" | "ignore";
+
+/** Who or what a notification mentioned. */
+export type MentionKind = "direct" | "team" | "broadcast";
+
+/** Handles that count as broadcasts. */
+export const BROADCAST_HANDLES: readonly string[] = ["here", "channel", "all"];
+
+/** What counts as a mention of the user. Handles may be given with or without "@". */
+export interface MentionConfig {
+  /** The user's name and aliases. */
+  names: string[];
+  /** Team handles the user belongs to (e.g. "frontend"). */
+  teams: string[];
+  /** How @here, @channel and @all are treated. */
+  broadcast: BroadcastPolicy;
+  /** Senders (metadata.sender, case-insensitive) whose mentions do not count. */
+  blockedSenders: string[];
+}
+
+/** The first mention found in a notification. */
+export interface MentionMatch {
+  kind: MentionKind;
+  /** The handle as written in the notification, e.g. "@Frontend". */
+  handle: string;
+}
+
+/** Finds the first mention of the user in a notification, or undefined. */
+export type MentionMatcher = (input: NotificationInput) => MentionMatch | undefined;
+
+/**
+ * Escapes regular expression metacharacters so `text` matches literally.
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Trimmed handles without a leading "@", lowercased, empty ones dropped. */
+function normalizeHandles(handles: readonly string[]): string[] {
+  return handles.map((handle) => handle.trim().replace(/^@+/, "").toLowerCase()).filter((handle) => handle.length > 0);
+}
+
+/**
+ * Regex matching "@handle" for any of `handles`, not preceded by a word character, "@" or "."
+ * (so e-mail addresses do not count) and not followed by more of a handle ("@ann" does not
+ * match "@anna" or "@ann.lee", but matches "@ann." at the end of a sentence).
+ */
+function handlePattern(handles: string[]): RegExp | undefined {
+  if (handles.length === 0) {
+    return undefined;
+  }
+  const alternatives = [...new Set(handles)].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(?<![\\w@.])@(?:${alternatives.join("|")})(?![\\w-]|\\.\\w)`, "i");
+}
+
+/**
+ * Builds a matcher for `config`. Direct mentions are checked before team handles, and team
+ * handles before broadcasts.
+ */
+export function createMentionMatcher(config: MentionConfig): MentionMatcher {
+  const patterns: Array<[MentionKind, RegExp | undefined]> = [
+    ["direct", handlePattern(normalizeHandles(config.names))],
+    ["team", handlePattern(normalizeHandles(config.teams))],
+    ["broadcast", config.broadcast === "mention" ? handlePattern([...BROADCAST_HANDLES]) : undefined],
+  ];
+  const blocked = new Set(normalizeHandles(config.blockedSenders));
+
+  return (input) => {
+    const sender = input.metadata?.sender;
+    if (sender && blocked.has(sender.trim().replace(/^@+/, "").toLowerCase())) {
+      return undefined;
+    }
+    const text = `${input.title}\n${input.body}`;
+    for (const [kind, pattern] of patterns) {
+      const match = pattern?.exec(text);
+      if (match) {
+        return { kind, handle: match[0] };
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Finds the first mention of the user in `input` (see createMentionMatcher).
+ */
+export function findMention(input: NotificationInput, config: MentionConfig): MentionMatch | undefined {
+  return createMentionMatcher(config)(input);
+}
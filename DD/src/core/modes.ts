@@ -0,0 +1,227 @@
+/**
+ * Notification modes ("Focus", "AFK", "Meeting", ...) and the state machine that moves
+ * between them. Each mode has its own rule list, default action and @mention policy;
+ * every transition is recorded so the history can be shown.
+ * @module modes
+ */
+
+import type { Action } from "./types.js";
+import type { Clock } from "./router.js";
+import type { SourceRuleConfig } from "./ruleConfig.js";
+
+/**
+ * What happens to notifications that @mention the user:
+ * - "allow": always shown, whatever the rules say
+ * - "digest": always queued to the sidebar
+ * - "rules": routed by the mode's rules like any other notification
+ */
+export type MentionPolicy = "allow" | "digest" | "rules";
+
+/**
+ * A notification mode.
+ */
+export interface ModeDefinition {
+  /** Unique id (lowercase, e.g. "deep-work"). */
+  id: string;
+  /** Display name (e.g. "Deep Work"). */
+  name: string;
+  /** Codicon name shown in the status bar (e.g. "bell"). */
+  icon?: string;
+  /** One-line description for the mode picker. */
+  description?: string;
+  /** Own rule list, checked highest priority first; absent means the main rule list. */
+  rules?: SourceRuleConfig[];
+  /** Without own rules: use only the main rules marked showInFocusMode (breakthrough rules). */
+  breakthroughOnly?: boolean;
+  /** Action for notifications that no rule matches. */
+  defaultAction: Action;
+  /** How @mentions are handled. */
+  mentions: MentionPolicy;
+}
+
+/** Id of the mode the machine starts in and falls back to. */
+export const NORMAL_MODE_ID = "normal";
+
+/** Id of the built-in Focus mode. */
+export const FOCUS_MODE_ID = "focus";
+
+/** Id of the built-in AFK (away from keyboard) mode. */
+export const AFK_MODE_ID = "afk";
+
+/** The mode the machine starts in: the main rule list, unmatched notifications digested. */
+export const NORMAL_MODE: ModeDefinition = {
+  id: NORMAL_MODE_ID,
+  name: "Normal",
+  icon: "bell",
+  description: "Main rules; unmatched notifications go to the sidebar",
+  defaultAction: "digest",
+  mentions: "allow",
+};
+
+/**
+ * Modes that always exist. Focus applies only the breakthrough rules; AFK queues everything
+ * except @mentions.
+ */
+export const BUILT_IN_MODES: readonly ModeDefinition[] = [
+  NORMAL_MODE,
+  {
+    id: FOCUS_MODE_ID,
+    name: "Focus",
+    icon: "eye-closed",
+    description: "Only @mentions and Focus mode exceptions get through; the rest goes to the sidebar",
+    breakthroughOnly: true,
+    defaultAction: "digest",
+    mentions: "allow",
+  },
+  {
+    id: AFK_MODE_ID,
+    name: "AFK",
+    icon: "circle-slash",
+    description: "Away from keyboard: everything except @mentions is queued",
+    rules: [],
+    defaultAction: "digest",
+    mentions: "allow",
+  },
+];
+
+/** One recorded mode change. */
+export interface ModeTransition {
+  from: string;
+  to: string;
+  /** When it happened (epoch ms). */
+  at: number;
+  /** What caused it (e.g. "command", "pomodoro", "status bar"). */
+  reason: string;
+}
+
+const ACTIONS: readonly Action[] = ["allow", "suppress", "digest", "defer"];
+const MENTION_POLICIES: readonly MentionPolicy[] = ["allow", "digest", "rules"];
+
+/**
+ * Id for a mode name: "Release day" → "release-day".
+ */
+export function getModeId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * Problems with a mode definition, one message per invalid field (empty when valid).
+ */
+export function validateMode(mode: ModeDefinition): string[] {
+  const errors: string[] = [];
+  if (!mode.id) {
+    errors.push("mode must have a name");
+  }
+  if (!ACTIONS.includes(mode.defaultAction)) {
+    errors.push(`defaultAction must be one of ${ACTIONS.join(", ")}`);
+  }
+  if (!MENTION_POLICIES.includes(mode.mentions)) {
+    errors.push(`mentions must be one of ${MENTION_POLICIES.join(", ")}`);
+  }
+  if (mode.rules !== undefined && !Array.isArray(mode.rules)) {
+    errors.push("rules must be a list of rules");
+  }
+  return errors;
+}
+
+/**
+ * Tracks the current mode. enter() switches to a mode and remembers where it came from;
+ * exit() goes back there (so leaving AFK entered from "On-call" returns to "On-call").
+ */
+export class ModeMachine {
+  private modes = new Map<string, ModeDefinition>();
+  private current: string = NORMAL_MODE_ID;
+  /** Modes to return to on exit(), innermost last. */
+  private returnStack: string[] = [];
+  private history: ModeTransition[] = [];
+
+  constructor(
+    modes: readonly ModeDefinition[] = [],
+    private readonly onChange?: (mode: ModeDefinition, transition: ModeTransition) => void,
+    private readonly getNow: Clock = () => Date.now(),
+    private readonly historyLimit: number = 100
+  ) {
+    this.setModes(modes);
+  }
+
+  /**
+   * Replaces the user-defined modes (built-in modes cannot be replaced). If the current
+   * mode no longer exists, the machine returns to the normal mode.
+   */
+  setModes(modes: readonly ModeDefinition[]): void {
+    this.modes = new Map(BUILT_IN_MODES.map((mode) => [mode.id, mode]));
+    for (const mode of modes) {
+      if (!this.modes.has(mode.id)) {
+        this.modes.set(mode.id, mode);
+      }
+    }
+    this.returnStack = this.returnStack.filter((id) => this.modes.has(id));
+    if (!this.modes.has(this.current)) {
+      this.returnStack = [];
+      this.move(NORMAL_MODE_ID, "mode removed");
+    }
+  }
+
+  /** All modes, built-in first. */
+  getModes(): ModeDefinition[] {
+    return [...this.modes.values()];
+  }
+
+  /** The mode with `id`, if defined. */
+  getMode(id: string): ModeDefinition | undefined {
+    return this.modes.get(id);
+  }
+
+  /** The current mode. */
+  getCurrent(): ModeDefinition {
+    return this.modes.get(this.current) as ModeDefinition;
+  }
+
+  /**
+   * Switches to mode `id`. Entering the normal mode clears the way back.
+   * Returns the transition, or undefined when already in that mode.
+   * @throws Error if no mode has that id
+   */
+  enter(id: string, reason: string): ModeTransition | undefined {
+    if (!this.modes.has(id)) {
+      throw new Error(`Unknown mode "${id}"`);
+    }
+    if (id === this.current) {
+      return undefined;
+    }
+    if (id === NORMAL_MODE_ID) {
+      this.returnStack = [];
+    } else {
+      this.returnStack = this.returnStack.filter((previous) => previous !== id);
+      this.returnStack.push(this.current);
+    }
+    return this.move(id, reason);
+  }
+
+  /**
+   * Leaves the current mode for the one it was entered from (normal if none).
+   * Returns the transition, or undefined when already in the normal mode.
+   */
+  exit(reason: string): ModeTransition | undefined {
+    if (this.current === NORMAL_MODE_ID) {
+      return undefined;
+    }
+    return this.move(this.returnStack.pop() ?? NORMAL_MODE_ID, reason);
+  }
+
+  /** Recorded transitions, oldest first. */
+  getHistory(): ModeTransition[] {
+    return [...this.history];
+  }
+
+  private move(to: string, reason: string): ModeTransition {
+    const transition: ModeTransition = { from: this.current, to, at: this.getNow(), reason };
+    this.current = to;
+    this.history.push(transition);
+    if (this.history.length > this.historyLimit) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+    this.onChange?.(this.getCurrent(), transition);
+    return transition;
+  }
+}
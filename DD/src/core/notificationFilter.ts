@@ -0,0 +1,112 @@
+/**
+ * Filters for notification lists (the sidebar): text, source, minimum priority and age.
+ * @module notificationFilter
+ */
+
+import type { HistoryEntry } from "./history.js";
+import type { RouteTrace } from "./router.js";
+import { Priority } from "./ruleConfig.js";
+
+/** What a notification list is narrowed to. Absent fields match everything. */
+export interface NotificationFilter {
+  /** Text in the source, title or body (case-insensitive). */
+  text?: string;
+  /** Source name (case-insensitive). */
+  source?: string;
+  /** Lowest priority shown. */
+  minPriority?: Priority;
+  /** Only notifications seen within this many minutes. */
+  maxAgeMinutes?: number;
+}
+
+/** A notification that can be filtered (structurally compatible with processed history entries). */
+export interface FilterableEntry extends HistoryEntry {
+  trace?: RouteTrace;
+  /** Latest coalesced occurrence, if any. */
+  lastSeen?: number;
+}
+
+/** Priority names, lowest first, e.g. for pickers. */
+export const PRIORITY_LABELS: Readonly<Record<Priority, string>> = {
+  [Priority.Low]: "Low",
+  [Priority.Medium]: "Medium",
+  [Priority.High]: "High",
+  [Priority.Critical]: "Critical",
+};
+
+/**
+ * Priority of the rule that routed `entry`; low when no prioritized rule matched (e.g. the catch-all).
+ */
+export function getNotificationPriority(entry: { trace?: RouteTrace }): Priority {
+  return entry.trace?.matchedRule?.priority ?? Priority.Low;
+}
+
+/** True when `filter` narrows nothing. */
+export function isFilterEmpty(filter: NotificationFilter): boolean {
+  return !filter.text?.trim() && !filter.source && filter.minPriority === undefined && filter.maxAgeMinutes === undefined;
+}
+
+/**
+ * "Last hour", "Last 15 min", "Last 2 days": an age limit in words.
+ */
+export function describeAge(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? "Last day" : `Last ${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? "Last hour" : `Last ${hours} hours`;
+  }
+  return `Last ${minutes} min`;
+}
+
+/**
+ * Short description of the active filter, e.g. `"deploy" · Git · High+ · Last hour`
+ * (empty when the filter narrows nothing).
+ */
+export function describeFilter(filter: NotificationFilter): string {
+  const parts: string[] = [];
+  const text = filter.text?.trim();
+  if (text) {
+    parts.push(`"${text}"`);
+  }
+  if (filter.source) {
+    parts.push(filter.source);
+  }
+  if (filter.minPriority !== undefined) {
+    parts.push(filter.minPriority === Priority.Critical ? PRIORITY_LABELS[Priority.Critical] : `${PRIORITY_LABELS[filter.minPriority]}+`);
+  }
+  if (filter.maxAgeMinutes !== undefined) {
+    parts.push(describeAge(filter.maxAgeMinutes));
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * True if `entry` passes `filter` at time `now`. Coalesced entries count as seen at their
+ * latest occurrence.
+ */
+export function matchesFilter(entry: FilterableEntry, filter: NotificationFilter, now: number): boolean {
+  const text = filter.text?.trim().toLowerCase();
+  if (text && !`${entry.input.source}\n${entry.input.title}\n${entry.input.body}`.toLowerCase().includes(text)) {
+    return false;
+  }
+  if (filter.source && entry.input.source.toLowerCase() !== filter.source.toLowerCase()) {
+    return false;
+  }
+  if (filter.minPriority !== undefined && getNotificationPriority(entry) < filter.minPriority) {
+    return false;
+  }
+  if (filter.maxAgeMinutes !== undefined && (entry.lastSeen ?? entry.timestamp) < now - filter.maxAgeMinutes * 60_000) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Entries of `entries` that pass `filter` at time `now`, in their original order.
+ */
+export function filterNotifications<T extends FilterableEntry>(entries: readonly T[], filter: NotificationFilter, now: number): T[] {
+  return isFilterEmpty(filter) ? [...entries] : entries.filter((entry) => matchesFilter(entry, filter, now));
+}
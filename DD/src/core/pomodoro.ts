@@ -0,0 +1,169 @@
+/**
+ * Pomodoro sessions: alternating timed work and break phases with a session counter.
+ * Time comes from an injected clock and waiting from an injected timer, so tests can
+ * drive a whole cycle without real time passing.
+ * @module pomodoro
+ */
+
+import type { Clock } from "./router.js";
+import type { Timer } from "./defer.js";
+import { systemTimer } from "./defer.js";
+
+/** Lengths and behavior of Pomodoro sessions. */
+export interface PomodoroSettings {
+  /** Length of a work (focus) phase in minutes. */
+  workMinutes: number;
+  /** Length of a short break in minutes. */
+  breakMinutes: number;
+  /** Length of the break after every `sessionsBeforeLongBreak` work phases, in minutes. */
+  longBreakMinutes: number;
+  /** Work phases per long break (0 disables long breaks). */
+  sessionsBeforeLongBreak: number;
+  /** Start the next work phase when a break ends; otherwise the timer stops. */
+  autoResume: boolean;
+}
+
+/** Classic 25/5 with a 15 minute break every fourth session. */
+export const DEFAULT_POMODORO: PomodoroSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  sessionsBeforeLongBreak: 4,
+  autoResume: true,
+};
+
+/** Current phase of a running timer. */
+export type PomodoroPhase = "work" | "break" | "longBreak";
+
+/** Snapshot of a running timer. */
+export interface PomodoroStatus {
+  phase: PomodoroPhase;
+  /** 1-based number of the current work phase (during a break, the one just finished). */
+  session: number;
+  /** Work phases completed since the timer was created. */
+  completed: number;
+  /** When the phase started (epoch ms). */
+  startedAt: number;
+  /** When the phase ends (epoch ms). */
+  endsAt: number;
+}
+
+/**
+ * Problems with Pomodoro settings, one message per invalid field (empty when valid).
+ */
+export function validatePomodoroSettings(settings: PomodoroSettings): string[] {
+  const errors: string[] = [];
+  for (const key of ["workMinutes", "breakMinutes", "longBreakMinutes"] as const) {
+    if (!(settings[key] > 0)) {
+      errors.push(`${key} must be a positive number`);
+    }
+  }
+  if (!Number.isInteger(settings.sessionsBeforeLongBreak) || settings.sessionsBeforeLongBreak < 0) {
+    errors.push("sessionsBeforeLongBreak must be a whole number of at least 0");
+  }
+  return errors;
+}
+
+/**
+ * Runs work and break phases back to back and reports every phase change through
+ * `onChange` (the new status, or undefined once stopped, plus the phase that ended).
+ */
+export class PomodoroTimer {
+  private status?: PomodoroStatus;
+  private completed = 0;
+  private handle: unknown;
+
+  constructor(
+    private readonly onChange: (status: PomodoroStatus | undefined, ended?: PomodoroPhase) => void,
+    private settings: PomodoroSettings = DEFAULT_POMODORO,
+    private readonly getNow: Clock = () => Date.now(),
+    private readonly timer: Timer = systemTimer
+  ) {}
+
+  /**
+   * Replaces the settings. The current phase keeps its length; later phases use the new ones.
+   */
+  setSettings(settings: PomodoroSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Starts a work phase now (restarting the current one if a phase is running).
+   */
+  start(): PomodoroStatus {
+    return this.enter("work", this.completed + 1);
+  }
+
+  /**
+   * Ends the current phase early and moves on as if its time had run out.
+   */
+  skip(): void {
+    if (this.status) {
+      this.advance();
+    }
+  }
+
+  /**
+   * Stops the timer. The completed-session count is kept for the next start().
+   */
+  stop(): void {
+    const ended = this.status?.phase;
+    this.clear();
+    if (ended) {
+      this.status = undefined;
+      this.onChange(undefined, ended);
+    }
+  }
+
+  /**
+   * The running phase, or undefined when stopped.
+   */
+  getStatus(): PomodoroStatus | undefined {
+    return this.status ? { ...this.status } : undefined;
+  }
+
+  /**
+   * Stops the timer without reporting a change.
+   */
+  dispose(): void {
+    this.clear();
+    this.status = undefined;
+  }
+
+  private advance(): void {
+    const status = this.status as PomodoroStatus;
+    if (status.phase === "work") {
+      this.completed++;
+      const every = this.settings.sessionsBeforeLongBreak;
+      const long = every > 0 && this.completed % every === 0;
+      this.enter(long ? "longBreak" : "break", status.session, status.phase);
+    } else if (this.settings.autoResume) {
+      this.enter("work", this.completed + 1, status.phase);
+    } else {
+      this.stop();
+    }
+  }
+
+  private enter(phase: PomodoroPhase, session: number, ended?: PomodoroPhase): PomodoroStatus {
+    this.clear();
+    const minutes = phase === "work"
+      ? this.settings.workMinutes
+      : phase === "longBreak" ? this.settings.longBreakMinutes : this.settings.breakMinutes;
+    const startedAt = this.getNow();
+    const status: PomodoroStatus = { phase, session, completed: this.completed, startedAt, endsAt: startedAt + minutes * 60_000 };
+    this.status = status;
+    this.handle = this.timer.setTimeout(() => {
+      this.handle = undefined;
+      this.advance();
+    }, status.endsAt - startedAt);
+    this.onChange({ ...status }, ended);
+    return { ...status };
+  }
+
+  private clear(): void {
+    if (this.handle !== undefined) {
+      this.timer.clearTimeout(this.handle);
+      this.handle = undefined;
+    }
+  }
+}
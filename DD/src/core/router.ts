@@ -1,13 +1,14 @@
 /**
- * Pure routing logic: classifies a notification into "allow" | "suppress" | "digest".
+ * Pure routing logic: classifies a notification into "allow" | "suppress" | "digest" | "defer".
  * Depends on abstractions (matchers, clock) for testability (DIP).
  * @module router
  */
 
-import type { Action, NotificationInput, Rule } from "./types.js";
+import type { Action, NotificationInput, PatternMatch, Rule } from "./types.js";
 import type { RouterState } from "./state.js";
-import type { MatchCondition } from "./matchers.js";
-import { defaultMatchConditions } from "./matchers.js";
+import type { MatchCondition, MatchContext } from "./matchers.js";
+import { defaultMatchConditions, matchPattern } from "./matchers.js";
+import { findActiveSnooze } from "./snooze.js";
 
 /**
  * Clock function returning current time as epoch ms. Injected for deterministic tests (DIP).
@@ -24,19 +25,71 @@ export interface RouteOptions {
   getNow?: Clock;
 }
 
+/**
+ * Which step of route() produced the action.
+ * - "snooze": state.snoozeUntil or the source's snooze was in the future; rules were not evaluated
+ * - "rule": a rule matched (see matchedRuleIndex)
+ * - "default": no rule matched; focusMode decided
+ */
+export type RouteDecision = "snooze" | "rule" | "default";
+
+/** Result of one match condition for one rule. */
+export interface ConditionResult {
+  /** Condition name (function name, e.g. "sourceMatches"; "condition N" when anonymous). */
+  name: string;
+  /** Whether the condition passed. */
+  passed: boolean;
+}
+
+/** Evaluation of one rule. Every condition is evaluated, even after one fails. */
+export interface RuleTrace {
+  /** Index of the rule in the rules array. */
+  index: number;
+  /** The rule that was evaluated. */
+  rule: Rule;
+  /** One result per match condition, in condition order. */
+  conditions: ConditionResult[];
+  /** True if all conditions passed. */
+  matched: boolean;
+}
+
+/**
+ * Explanation of a routing decision, as returned by routeWithTrace().
+ */
+export interface RouteTrace {
+  /** The resulting action (same as route()). */
+  action: Action;
+  /** Which step decided the action. */
+  decidedBy: RouteDecision;
+  /** Clock value used for the decision (epoch ms). */
+  now: number;
+  /** Snooze end when decidedBy is "snooze". */
+  snoozeUntil?: number;
+  /** The snoozed source when decidedBy is "snooze" because of a per-source snooze. */
+  snoozedSource?: string;
+  /** Index of the matched rule when decidedBy is "rule". */
+  matchedRuleIndex?: number;
+  /** The matched rule when decidedBy is "rule". */
+  matchedRule?: Rule;
+  /** Rules evaluated in order, up to and including the match. Empty when snoozed. */
+  rules: RuleTrace[];
+  /** Capture groups of the matched rule's pattern, if it has one. */
+  captures?: PatternMatch;
+}
+
 /**
  * Classifies a notification into an Action using state and rules.
  *
  * Behavior:
- * 1. If state.snoozeUntil is set and getNow() < snoozeUntil → "digest"
- * 2. Else, for each rule in order: if source matches and contains matches (when given) → rule.action
+ * 1. If state.snoozeUntil (or the input's source in state.sourceSnoozes) is set and getNow() is before it → "digest"
+ * 2. Else, for each rule in order: if all match conditions pass at getNow() → rule.action
  * 3. If no rule matches: focusMode ? "digest" : "allow"
  *
  * @param input - The notification to classify
  * @param state - focusMode and optional snoozeUntil
  * @param rules - Ordered list; first match wins
  * @param opts - Optional matchers and clock (for tests)
- * @returns "allow" | "suppress" | "digest"
+ * @returns "allow" | "suppress" | "digest" | "defer"
  */
 export function route(
   input: NotificationInput,
@@ -45,24 +98,101 @@ export function route(
   opts: RouteOptions = {}
 ): Action {
   const getNow: Clock = opts.getNow ?? (() => Date.now());
-  const conditions: MatchCondition[] = opts.matchConditions ?? defaultMatchConditions;
+  const now = getNow();
 
-  // 1) Snooze: if snoozeUntil exists and now < snoozeUntil → digest
-  const snoozeUntil = state.snoozeUntil;
-  if (snoozeUntil != null && typeof snoozeUntil === "number" && getNow() < snoozeUntil) {
+  // 1) Snooze (global or this source): digest until it ends
+  if (findActiveSnooze(state, input.source, now)) {
     return "digest";
   }
 
   // 2) First matching rule wins
-  for (const rule of rules) {
-    const allPass = conditions.every((fn) => fn(rule, input));
-    if (allPass) return rule.action;
+  const rule = firstMatch(input, rules, opts.matchConditions ?? defaultMatchConditions, { now });
+  if (rule) {
+    return rule.action;
   }
 
   // 3) No match: focusMode → digest, else allow
   return state.focusMode ? "digest" : "allow";
 }
 
+/**
+ * Returns the first rule whose match conditions all pass, ignoring snooze and focus state.
+ *
+ * @param input - The notification to classify
+ * @param rules - Ordered list; first match wins
+ * @param opts - Optional matchers and clock (used by schedule conditions)
+ * @returns The matching rule, or undefined when none matches
+ */
+export function findMatchingRule(
+  input: NotificationInput,
+  rules: Rule[],
+  opts: RouteOptions = {}
+): Rule | undefined {
+  const getNow: Clock = opts.getNow ?? (() => Date.now());
+  return firstMatch(input, rules, opts.matchConditions ?? defaultMatchConditions, { now: getNow() });
+}
+
+/**
+ * Like route(), but also returns why: the matched rule, every evaluated condition's
+ * pass/fail result, and whether snooze or the default applied.
+ * Always returns the same action as route() for the same arguments and clock.
+ *
+ * @param input - The notification to classify
+ * @param state - focusMode and optional snoozeUntil
+ * @param rules - Ordered list; first match wins
+ * @param opts - Optional matchers and clock (for tests)
+ * @returns The action together with its explanation
+ */
+export function routeWithTrace(
+  input: NotificationInput,
+  state: RouterState,
+  rules: Rule[],
+  opts: RouteOptions = {}
+): RouteTrace {
+  const getNow: Clock = opts.getNow ?? (() => Date.now());
+  const conditions: MatchCondition[] = opts.matchConditions ?? defaultMatchConditions;
+  const now = getNow();
+
+  const snooze = findActiveSnooze(state, input.source, now);
+  if (snooze) {
+    return { action: "digest", decidedBy: "snooze", now, snoozeUntil: snooze.until, snoozedSource: snooze.source, rules: [] };
+  }
+
+  const context: MatchContext = { now };
+  const evaluated: RuleTrace[] = [];
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    const results = conditions.map((fn, i) => ({
+      name: fn.name || `condition ${i + 1}`,
+      passed: fn(rule, input, context),
+    }));
+    const matched = results.every((r) => r.passed);
+    evaluated.push({ index, rule, conditions: results, matched });
+    if (matched) {
+      return {
+        action: rule.action,
+        decidedBy: "rule",
+        now,
+        matchedRuleIndex: index,
+        matchedRule: rule,
+        rules: evaluated,
+        captures: matchPattern(rule, input),
+      };
+    }
+  }
+
+  return { action: state.focusMode ? "digest" : "allow", decidedBy: "default", now, rules: evaluated };
+}
+
+function firstMatch(
+  input: NotificationInput,
+  rules: Rule[],
+  conditions: MatchCondition[],
+  context: MatchContext
+): Rule | undefined {
+  return rules.find((rule) => conditions.every((fn) => fn(rule, input, context)));
+}
+
 // --- Self-check (commented out): example calls and expected outputs ---
 /*
 // Helpers for self-check (inline):
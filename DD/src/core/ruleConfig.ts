@@ -0,0 +1,137 @@
+/**
+ * User-facing rule configuration (as stored in the `dd.rules` setting) and its conversion
+ * to routing rules for a mode.
+ * Lives in core so that text formats and analyses can be tested without vscode.
+ * @module ruleConfig
+ */
+
+import type { Action, Rule, RuleCondition, RuleDefer, RuleEscalation, RuleSchedule, RuleThrottle, Severity } from "./types.js";
+import type { ModeDefinition } from "./modes.js";
+import { NORMAL_MODE_ID } from "./modes.js";
+import { describeCondition } from "./conditions.js";
+
+/**
+ * Priority levels for notification sources. Higher priority rules are checked first.
+ */
+export enum Priority {
+  Low = 0,
+  Medium = 1,
+  High = 2,
+  Critical = 3,
+}
+
+/**
+ * Rule configuration for a source.
+ */
+export interface SourceRuleConfig {
+  /** User-friendly title/name for the rule. */
+  title?: string;
+  /** Source to match, or "*" for any. */
+  source: string;
+  /** Order in which rules are checked (highest first). */
+  priority: Priority;
+  /** Action when the rule matches. */
+  action: Action;
+  /** Breakthrough rule: still applies in Focus mode, where rules without it are skipped. */
+  showInFocusMode: boolean;
+  /** Optional text filter. */
+  contains?: string;
+  /** Optional regular expression filter. */
+  pattern?: string;
+  /** Regex flags for pattern (default: "i"). */
+  patternFlags?: string;
+  /** Optional: only match notifications at least this severe. */
+  minSeverity?: Severity;
+  /** Optional: only match notifications from this sender (metadata). */
+  sender?: string;
+  /** Optional: only match notifications in this channel (metadata). */
+  channel?: string;
+  /** Optional: only match notifications carrying this tag (metadata). */
+  tag?: string;
+  /** Optional time windows when the rule applies. */
+  schedule?: RuleSchedule;
+  /** Optional all/any/not condition tree, combined with the fields above. */
+  when?: RuleCondition;
+  /** Optional rate limit, e.g. at most 3 per 10 minutes, the rest to digest. */
+  throttle?: RuleThrottle;
+  /** Optional: promote digested repeats to allow, e.g. 3 within 10 minutes. */
+  escalation?: RuleEscalation;
+  /** For "defer" rules: show after this many minutes, or at the next break. Default: 30 minutes. */
+  defer?: RuleDefer;
+}
+
+/**
+ * Label for an action, e.g. "digest" → "Digest (Sidebar)".
+ */
+export function getActionLabel(action: string): string {
+  switch (action) {
+    case "allow": return "Show Immediately";
+    case "suppress": return "Suppress";
+    case "digest": return "Digest (Sidebar)";
+    case "defer": return "Defer (Show Later)";
+    default: return action;
+  }
+}
+
+/**
+ * The rule's title, or a generated one such as `Build containing "failed" → Show Immediately`.
+ */
+export function generateRuleTitle(rule: SourceRuleConfig): string {
+  if (rule.title) {
+    return rule.title;
+  }
+  const source = rule.source === "*" ? "Any source" : rule.source;
+  const action = getActionLabel(rule.action);
+  const contains = rule.contains ? ` containing "${rule.contains}"` : "";
+  const pattern = rule.pattern ? ` matching /${rule.pattern}/` : "";
+  const severity = rule.minSeverity ? ` with severity ≥ ${rule.minSeverity}` : "";
+  const sender = rule.sender ? ` from ${rule.sender}` : "";
+  const channel = rule.channel ? ` in ${rule.channel}` : "";
+  const tag = rule.tag ? ` tagged "${rule.tag}"` : "";
+  const when = rule.when ? ` when ${describeCondition(rule.when)}` : "";
+  const schedule = rule.schedule?.windows.length ? (rule.schedule.outside ? " (outside schedule)" : " (scheduled)") : "";
+  return `${source}${sender}${channel}${tag}${contains}${pattern}${severity}${when}${schedule} → ${action}`;
+}
+
+/**
+ * Rule configs a mode routes with: its own rules, else only the breakthrough rules
+ * (showInFocusMode) for modes that ask for them, else all of `configs`.
+ */
+export function getModeRuleConfigs(configs: SourceRuleConfig[], mode: ModeDefinition): SourceRuleConfig[] {
+  if (mode.rules) {
+    return mode.rules;
+  }
+  return mode.breakthroughOnly ? configs.filter((config) => config.showInFocusMode) : configs;
+}
+
+/**
+ * Routing rules for a mode: its rule configs (see getModeRuleConfigs) highest priority
+ * first, then a catch-all with the mode's default action. Each rule keeps the index of its
+ * config in the mode's own rules, or else in `configs`.
+ */
+export function convertToRoutingRules(configs: SourceRuleConfig[], mode: ModeDefinition): Rule[] {
+  const list = mode.rules ?? configs;
+  const sorted = [...getModeRuleConfigs(configs, mode)].sort((a, b) => b.priority - a.priority);
+  const rules: Rule[] = sorted.map((config) => ({
+    title: generateRuleTitle(config),
+    source: config.source,
+    contains: config.contains,
+    pattern: config.pattern,
+    patternFlags: config.patternFlags,
+    minSeverity: config.minSeverity,
+    sender: config.sender,
+    channel: config.channel,
+    tag: config.tag,
+    schedule: config.schedule,
+    when: config.when,
+    throttle: config.throttle,
+    escalation: config.escalation,
+    defer: config.defer,
+    priority: config.priority,
+    configIndex: list.indexOf(config),
+    action: config.action,
+  }));
+  const title = mode.id === NORMAL_MODE_ID ? "Catch-all" : `Catch-all (${mode.name} mode)`;
+  rules.push({ title, source: "*", action: mode.defaultAction });
+  return rules;
+}
@@ -0,0 +1,716 @@
+/**
+ * Compact text format for rule configurations, one rule per line:
+ *
+ *   Git contains "conflict" -> allow priority high focus
+ *   Build severity >= error -> allow priority high title "Build Failures"
+ *   "Language Server" when contains "diagnostics" and not tag "ci" -> digest throttle 3 per 10m
+ *   Extension during mon-fri 09:00-12:00 -> suppress
+ *
+ *   Chat from "ci-bot" -> defer 30m
+ *   Extension -> defer until break
+ *
+ * A line is `<source> <filters...> -> <action> <options...>`; `#` starts a comment.
+ * Filters: contains, matches /re/flags, severity >= level, from, channel, tag,
+ * when <expression>, during/outside <window>. Options: priority, focus,
+ * throttle N per <duration> [then <action>], escalate N within <duration>, title.
+ * Priority defaults to medium; "focus" sets showInFocusMode. "defer" may be followed by a
+ * duration or "until break".
+ * @module ruleDsl
+ */
+
+import type { Action, RuleCondition, RuleSchedule, Severity, TimeWindow, Weekday } from "./types.js";
+import { Priority, type SourceRuleConfig } from "./ruleConfig.js";
+import { validatePattern } from "./matchers.js";
+import { parseTimeOfDay, validateSchedule } from "./schedule.js";
+import { isSeverity } from "./severity.js";
+
+/**
+ * A problem found while parsing, located by 1-based line and column.
+ */
+export interface RuleDslError {
+  message: string;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column of the offending text. */
+  column: number;
+  /** Length of the offending text (at least 1). */
+  length: number;
+}
+
+/**
+ * Result of parsing a rules document. Lines with errors are left out of `rules`.
+ */
+export interface RuleDslParseResult {
+  rules: SourceRuleConfig[];
+  errors: RuleDslError[];
+}
+
+type TokenKind = "word" | "string" | "regex" | "number" | "time" | "arrow" | "gte" | "lparen" | "rparen" | "comma" | "dash" | "end";
+
+interface Token {
+  kind: TokenKind;
+  /** Source text of the token. */
+  text: string;
+  /** Decoded value: string contents, regex source, or the word/number text. */
+  value: string;
+  /** Regex flags, for regex tokens. */
+  flags?: string;
+  /** 0-based offset within the line. */
+  start: number;
+}
+
+/** Thrown inside the parser; converted to a RuleDslError for the current line. */
+class DslSyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly length: number) {
+    super(message);
+  }
+}
+
+/** Words with a meaning in the format; sources spelled like these must be quoted. */
+const KEYWORDS = new Set([
+  "contains", "matches", "severity", "from", "channel", "tag", "source", "when", "during", "outside", "tz",
+  "and", "or", "not", "anything", "nothing", "allow", "suppress", "digest", "defer", "until", "break",
+  "priority", "focus", "throttle", "per", "then", "escalate", "within", "title",
+]);
+
+const ACTIONS: Action[] = ["allow", "suppress", "digest", "defer"];
+
+const PRIORITY_NAMES: Record<string, Priority> = {
+  low: Priority.Low,
+  medium: Priority.Medium,
+  high: Priority.High,
+  critical: Priority.Critical,
+};
+
+/** Days in week order for ranges such as mon-fri. */
+const WEEK: Weekday[] = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+/** Minutes per duration unit; a bare number is minutes. */
+const DURATION_UNITS: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 };
+
+/**
+ * Splits one line into tokens. Comments (`#` to end of line) are dropped.
+ */
+function tokenize(line: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i];
+    if (ch === " " || ch === "\t" || ch === "\r") {
+      i++;
+      continue;
+    }
+    if (ch === "#") {
+      break;
+    }
+    const start = i;
+    if (ch === '"') {
+      i++;
+      while (i < line.length && line[i] !== '"') {
+        i += line[i] === "\\" ? 2 : 1;
+      }
+      if (i >= line.length) {
+        throw new DslSyntaxError("unterminated string", start, line.length - start);
+      }
+      i++;
+      const text = line.slice(start, i);
+      let value: string;
+      try {
+        value = JSON.parse(text) as string;
+      } catch {
+        throw new DslSyntaxError("invalid escape in string", start, text.length);
+      }
+      tokens.push({ kind: "string", text, value, start });
+      continue;
+    }
+    if (ch === "/") {
+      i++;
+      let source = "";
+      let inClass = false;
+      while (i < line.length && (line[i] !== "/" || inClass)) {
+        if (line[i] === "\\" && i + 1 < line.length) {
+          // "\/" is how a slash is written inside /.../; other escapes belong to the regex
+          source += line[i + 1] === "/" ? "/" : line.slice(i, i + 2);
+          i += 2;
+          continue;
+        }
+        if (line[i] === "[") {
+          inClass = true;
+        } else if (line[i] === "]") {
+          inClass = false;
+        }
+        source += line[i];
+        i++;
+      }
+      if (i >= line.length) {
+        throw new DslSyntaxError("unterminated regular expression", start, line.length - start);
+      }
+      i++;
+      const flagsStart = i;
+      while (i < line.length && /[a-z]/.test(line[i])) {
+        i++;
+      }
+      tokens.push({ kind: "regex", text: line.slice(start, i), value: source, flags: line.slice(flagsStart, i), start });
+      continue;
+    }
+    const rest = line.slice(i);
+    const simple =
+      rest.startsWith("->") ? (["arrow", 2] as const)
+      : rest.startsWith(">=") ? (["gte", 2] as const)
+      : ch === "(" ? (["lparen", 1] as const)
+      : ch === ")" ? (["rparen", 1] as const)
+      : ch === "," ? (["comma", 1] as const)
+      : ch === "-" ? (["dash", 1] as const)
+      : undefined;
+    if (simple) {
+      i += simple[1];
+      tokens.push({ kind: simple[0], text: line.slice(start, i), value: line.slice(start, i), start });
+      continue;
+    }
+    const time = /^\d{1,2}:\d{2}/.exec(rest);
+    if (time) {
+      i += time[0].length;
+      tokens.push({ kind: "time", text: time[0], value: time[0], start });
+      continue;
+    }
+    const number = /^\d+(?:\.\d+)?[a-z]*/.exec(rest);
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: "number", text: number[0], value: number[0], start });
+      continue;
+    }
+    const word = /^(?:\*|[A-Za-z_](?:[\w.]|-(?!>))*)/.exec(rest);
+    if (word) {
+      i += word[0].length;
+      tokens.push({ kind: "word", text: word[0], value: word[0], start });
+      continue;
+    }
+    throw new DslSyntaxError(`unexpected character "${ch}"`, start, 1);
+  }
+  tokens.push({ kind: "end", text: "", value: "", start: line.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser for a single rule line.
+ */
+class RuleLineParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseRule(): SourceRuleConfig {
+    const rule: SourceRuleConfig = { source: this.parseSource(), priority: Priority.Medium, action: "digest", showInFocusMode: false };
+    const windows: TimeWindow[] = [];
+    let outside: boolean | undefined;
+
+    while (this.peek().kind !== "arrow") {
+      const token = this.peek();
+      if (token.kind === "end") {
+        throw this.error(token, 'expected "->" followed by an action');
+      }
+      const keyword = this.expectWord("a filter such as contains, matches or when");
+      if (keyword.value === "during" || keyword.value === "outside") {
+        if (outside !== undefined && outside !== (keyword.value === "outside")) {
+          throw this.error(keyword, 'cannot mix "during" and "outside" in one rule');
+        }
+        outside = keyword.value === "outside";
+        windows.push(this.parseWindow());
+        continue;
+      }
+      if (keyword.value === "when") {
+        this.setOnce(rule, "when", this.parseExpression(), keyword);
+        continue;
+      }
+      this.pos--;
+      const leaf = this.parseLeaf(false);
+      for (const [key, value] of Object.entries(leaf)) {
+        this.setOnce(rule, key as keyof SourceRuleConfig, value, keyword);
+      }
+    }
+    this.pos++;
+
+    rule.action = this.parseAction();
+    if (rule.action === "defer") {
+      this.parseDeferTarget(rule);
+    }
+    while (this.peek().kind !== "end") {
+      this.parseOption(rule);
+    }
+    if (windows.length > 0) {
+      const schedule: RuleSchedule = outside ? { windows, outside } : { windows };
+      rule.schedule = schedule;
+    }
+    return reorder(rule);
+  }
+
+  private parseSource(): string {
+    const token = this.next();
+    if (token.kind === "string") {
+      return token.value;
+    }
+    if (token.kind === "word" && !KEYWORDS.has(token.value)) {
+      return token.value;
+    }
+    throw this.error(token, 'expected a source name, "*" or a quoted source');
+  }
+
+  private parseAction(): Action {
+    const token = this.next();
+    if (token.kind === "word" && (ACTIONS as string[]).includes(token.value)) {
+      return token.value as Action;
+    }
+    throw this.error(token, `expected an action (${ACTIONS.join(", ")})`);
+  }
+
+  /** Optional `<duration>` or `until break` after a defer action. */
+  private parseDeferTarget(rule: SourceRuleConfig): void {
+    if (this.peek().kind === "number") {
+      rule.defer = { minutes: this.parseDuration() };
+    } else if (this.peekWord("until")) {
+      this.pos++;
+      this.expectKeyword("break");
+      rule.defer = { until: "break" };
+    }
+  }
+
+  private parseOption(rule: SourceRuleConfig): void {
+    const keyword = this.expectWord("an option such as priority, focus, throttle, escalate or title");
+    switch (keyword.value) {
+      case "priority": {
+        const token = this.next();
+        const priority = token.kind === "word" ? PRIORITY_NAMES[token.value] : undefined;
+        if (priority === undefined) {
+          throw this.error(token, `expected a priority (${Object.keys(PRIORITY_NAMES).join(", ")})`);
+        }
+        rule.priority = priority;
+        return;
+      }
+      case "focus":
+        rule.showInFocusMode = true;
+        return;
+      case "throttle": {
+        const limit = this.parseInteger(1, "throttle limit");
+        this.expectKeyword("per");
+        const windowMinutes = this.parseDuration();
+        const throttle: SourceRuleConfig["throttle"] = { limit, windowMinutes };
+        if (this.peek().kind === "word" && this.peek().value === "then") {
+          this.pos++;
+          throttle.overflowAction = this.parseAction();
+        }
+        this.setOnce(rule, "throttle", throttle, keyword);
+        return;
+      }
+      case "escalate": {
+        const count = this.parseInteger(2, "escalation count");
+        this.expectKeyword("within");
+        this.setOnce(rule, "escalation", { count, withinMinutes: this.parseDuration() }, keyword);
+        return;
+      }
+      case "title":
+        this.setOnce(rule, "title", this.parseText("a title"), keyword);
+        return;
+      default:
+        throw this.error(keyword, `unknown option "${keyword.value}"`);
+    }
+  }
+
+  /** Parses `or` chains of `and` chains of unary terms. */
+  private parseExpression(): RuleCondition {
+    const terms = [this.parseConjunction()];
+    while (this.peekWord("or")) {
+      this.pos++;
+      terms.push(this.parseConjunction());
+    }
+    return terms.length === 1 ? terms[0] : { any: terms };
+  }
+
+  private parseConjunction(): RuleCondition {
+    const terms = [this.parseUnary()];
+    while (this.peekWord("and")) {
+      this.pos++;
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : { all: terms };
+  }
+
+  private parseUnary(): RuleCondition {
+    const token = this.peek();
+    if (token.kind === "lparen") {
+      this.pos++;
+      const inner = this.parseExpression();
+      if (this.next().kind !== "rparen") {
+        throw this.error(this.tokens[this.pos - 1], 'expected ")"');
+      }
+      return inner;
+    }
+    if (this.peekWord("not")) {
+      this.pos++;
+      return { not: this.parseUnary() };
+    }
+    if (this.peekWord("anything")) {
+      this.pos++;
+      return { all: [] };
+    }
+    if (this.peekWord("nothing")) {
+      this.pos++;
+      return { any: [] };
+    }
+    return this.parseLeaf(true);
+  }
+
+  /**
+   * Parses one filter (`contains "x"`, `matches /x/`, `severity >= error`, `from x`,
+   * `channel x`, `tag x`; plus `source x` inside expressions).
+   */
+  private parseLeaf(allowSource: boolean): Partial<SourceRuleConfig> {
+    const keyword = this.expectWord(allowSource ? "a condition such as source, contains or not" : "a filter such as contains, matches or when");
+    switch (keyword.value) {
+      case "source":
+        if (allowSource) {
+          return { source: this.peek().kind === "word" && this.peek().value === "*" ? this.next().value : this.parseText("a source") };
+        }
+        break;
+      case "contains":
+        return { contains: this.parseText("the text to look for") };
+      case "matches": {
+        const token = this.next();
+        if (token.kind !== "regex") {
+          throw this.error(token, "expected a regular expression such as /failed: \\d+/i");
+        }
+        const error = validatePattern(token.value, token.flags);
+        if (error) {
+          throw this.error(token, error);
+        }
+        return { pattern: token.value, patternFlags: token.flags };
+      }
+      case "severity": {
+        const op = this.next();
+        if (op.kind !== "gte") {
+          throw this.error(op, 'expected ">=" after severity');
+        }
+        const token = this.next();
+        if (!isSeverity(token.value) || token.kind !== "word") {
+          throw this.error(token, "expected a severity (info, warning, error, critical)");
+        }
+        return { minSeverity: token.value as Severity };
+      }
+      case "from":
+        return { sender: this.parseText("a sender") };
+      case "channel":
+        return { channel: this.parseText("a channel") };
+      case "tag":
+        return { tag: this.parseText("a tag") };
+    }
+    throw this.error(keyword, `unknown ${allowSource ? "condition" : "filter"} "${keyword.value}"`);
+  }
+
+  /** Parses `[days] HH:MM-HH:MM [tz "Zone"]`. */
+  private parseWindow(): TimeWindow {
+    const first = this.peek();
+    const days: Weekday[] = [];
+    while (this.peek().kind === "word" && !KEYWORDS.has(this.peek().value)) {
+      days.push(...this.parseDays(this.next()));
+      if (this.peek().kind !== "comma") {
+        break;
+      }
+      this.pos++;
+    }
+    const start = this.parseTime();
+    const dash = this.next();
+    if (dash.kind !== "dash") {
+      throw this.error(dash, 'expected "-" between start and end time');
+    }
+    const end = this.parseTime();
+    const window: TimeWindow = days.length > 0 ? { days, start, end } : { start, end };
+    if (this.peekWord("tz")) {
+      this.pos++;
+      window.timeZone = this.parseText("a time zone such as \"Europe/Berlin\"");
+    }
+    const error = validateSchedule({ windows: [window] });
+    if (error) {
+      const last = this.tokens[this.pos - 1];
+      throw this.error(first, error, last.start + last.text.length - first.start);
+    }
+    return window;
+  }
+
+  private parseDays(token: Token): Weekday[] {
+    const [from, to, extra] = token.value.toLowerCase().split("-");
+    const startIndex = WEEK.indexOf(from as Weekday);
+    const endIndex = to === undefined ? startIndex : WEEK.indexOf(to as Weekday);
+    if (startIndex < 0 || endIndex < 0 || extra !== undefined) {
+      throw this.error(token, `unknown days "${token.value}" (use e.g. mon-fri or sat,sun)`);
+    }
+    const days: Weekday[] = [];
+    for (let i = startIndex; ; i = (i + 1) % WEEK.length) {
+      days.push(WEEK[i]);
+      if (i === endIndex) {
+        return days;
+      }
+    }
+  }
+
+  private parseTime(): string {
+    const token = this.next();
+    if (token.kind !== "time" || parseTimeOfDay(token.value) === undefined) {
+      throw this.error(token, "expected a time such as 09:00");
+    }
+    return token.value;
+  }
+
+  private parseInteger(min: number, what: string): number {
+    const token = this.next();
+    const value = Number(token.value);
+    if (token.kind !== "number" || !Number.isInteger(value) || value < min) {
+      throw this.error(token, `expected a whole number of at least ${min} for the ${what}`);
+    }
+    return value;
+  }
+
+  /** Parses a duration such as 10m, 2h, 30s or 1d (a bare number is minutes) into minutes. */
+  private parseDuration(): number {
+    const token = this.next();
+    const match = token.kind === "number" ? /^(\d+(?:\.\d+)?)([a-z]*)$/.exec(token.value) : null;
+    const unit = match ? DURATION_UNITS[match[2] || "m"] : undefined;
+    const minutes = match && unit !== undefined ? Number(match[1]) * unit : 0;
+    if (!(minutes > 0)) {
+      throw this.error(token, "expected a duration such as 10m, 2h or 1d");
+    }
+    return minutes;
+  }
+
+  private parseText(what: string): string {
+    const token = this.next();
+    if (token.kind === "string" || (token.kind === "word" && !KEYWORDS.has(token.value))) {
+      return token.value;
+    }
+    throw this.error(token, `expected ${what} (quote it if it contains spaces or symbols)`);
+  }
+
+  private setOnce<K extends keyof SourceRuleConfig>(rule: SourceRuleConfig, key: K, value: SourceRuleConfig[K], at: Token): void {
+    if (rule[key] !== undefined) {
+      throw this.error(at, `"${at.value}" is given more than once; combine conditions with when ... and ...`);
+    }
+    rule[key] = value;
+  }
+
+  private expectWord(what: string): Token {
+    const token = this.next();
+    if (token.kind !== "word") {
+      throw this.error(token, `expected ${what}`);
+    }
+    return token;
+  }
+
+  private expectKeyword(word: string): void {
+    const token = this.next();
+    if (token.kind !== "word" || token.value !== word) {
+      throw this.error(token, `expected "${word}"`);
+    }
+  }
+
+  private peekWord(word: string): boolean {
+    const token = this.peek();
+    return token.kind === "word" && token.value === word;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== "end") {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private error(token: Token, message: string, length?: number): DslSyntaxError {
+    const found = token.kind === "end" ? "end of line" : `"${token.text}"`;
+    const text = message.startsWith("expected") ? `${message}, found ${found}` : message;
+    return new DslSyntaxError(text, token.start, Math.max(1, length ?? token.text.length));
+  }
+}
+
+/** Canonical key order, so parsed rules compare equal to hand-written configs. */
+const KEY_ORDER: (keyof SourceRuleConfig)[] = [
+  "title", "source", "priority", "action", "showInFocusMode", "contains", "pattern", "patternFlags",
+  "minSeverity", "sender", "channel", "tag", "schedule", "when", "throttle", "escalation", "defer",
+];
+
+function reorder(rule: SourceRuleConfig): SourceRuleConfig {
+  const ordered: Record<string, unknown> = {};
+  for (const key of KEY_ORDER) {
+    if (rule[key] !== undefined) {
+      ordered[key] = rule[key];
+    }
+  }
+  return ordered as unknown as SourceRuleConfig;
+}
+
+/**
+ * Parses a rules document. Each non-empty, non-comment line is one rule; errors are
+ * collected per line (with 1-based line/column) and the remaining lines still parse.
+ */
+export function parseRuleDsl(text: string): RuleDslParseResult {
+  const rules: SourceRuleConfig[] = [];
+  const errors: RuleDslError[] = [];
+  text.split("\n").forEach((line, index) => {
+    try {
+      const tokens = tokenize(line);
+      if (tokens.length === 1) {
+        return;
+      }
+      rules.push(new RuleLineParser(tokens).parseRule());
+    } catch (error) {
+      if (!(error instanceof DslSyntaxError)) {
+        throw error;
+      }
+      errors.push({ message: error.message, line: index + 1, column: error.start + 1, length: error.length });
+    }
+  });
+  return { rules, errors };
+}
+
+/** Quotes a value unless it is a plain, non-keyword word. */
+function formatText(value: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(value) && !KEYWORDS.has(value) ? value : JSON.stringify(value);
+}
+
+function formatRegex(pattern: string, flags: string | undefined): string {
+  let body = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\" && i + 1 < pattern.length) {
+      body += pattern.slice(i, i + 2);
+      i++;
+    } else if (ch === "/") {
+      body += "\\/";
+    } else if (ch === "\n") {
+      body += "\\n";
+    } else if (ch === "\r") {
+      body += "\\r";
+    } else {
+      body += ch;
+    }
+  }
+  return `/${body}/${flags ?? "i"}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    return `${minutes / 1440}d`;
+  }
+  if (minutes >= 60 && minutes % 60 === 0) {
+    return `${minutes / 60}h`;
+  }
+  return `${minutes}m`;
+}
+
+function formatDays(days: Weekday[]): string {
+  const indexes = days.map((day) => WEEK.indexOf(day));
+  const consecutive = indexes.every((index, i) => i === 0 || index === indexes[i - 1] + 1);
+  if (days.length >= 3 && consecutive) {
+    return `${days[0]}-${days[days.length - 1]}`;
+  }
+  return days.join(",");
+}
+
+function formatWindow(window: TimeWindow): string {
+  const days = window.days?.length ? `${formatDays(window.days)} ` : "";
+  const zone = window.timeZone ? ` tz ${JSON.stringify(window.timeZone)}` : "";
+  return `${days}${window.start}-${window.end}${zone}`;
+}
+
+/** Filters of a leaf (or of a rule's top-level fields), in canonical order. */
+function formatFilters(leaf: Partial<SourceRuleConfig>, includeSource: boolean): string[] {
+  const parts: string[] = [];
+  if (includeSource && leaf.source && leaf.source !== "*") {
+    parts.push(`source ${formatText(leaf.source)}`);
+  }
+  if (leaf.contains?.trim()) {
+    parts.push(`contains ${JSON.stringify(leaf.contains)}`);
+  }
+  if (leaf.pattern) {
+    parts.push(`matches ${formatRegex(leaf.pattern, leaf.patternFlags)}`);
+  }
+  if (leaf.minSeverity) {
+    parts.push(`severity >= ${leaf.minSeverity}`);
+  }
+  if (leaf.sender?.trim()) {
+    parts.push(`from ${JSON.stringify(leaf.sender)}`);
+  }
+  if (leaf.channel?.trim()) {
+    parts.push(`channel ${JSON.stringify(leaf.channel)}`);
+  }
+  if (leaf.tag?.trim()) {
+    parts.push(`tag ${JSON.stringify(leaf.tag)}`);
+  }
+  return parts;
+}
+
+/** Serializes a condition tree; compound children are parenthesized. */
+function formatCondition(condition: RuleCondition): string {
+  const part = (child: RuleCondition): string => {
+    const text = formatCondition(child);
+    const compound = ("all" in child && child.all.length > 1) || ("any" in child && child.any.length > 1)
+      || (!("all" in child) && !("any" in child) && !("not" in child) && formatFilters(child, true).length > 1);
+    return compound ? `(${text})` : text;
+  };
+  if ("all" in condition) {
+    return condition.all.length === 0 ? "anything" : condition.all.map(part).join(" and ");
+  }
+  if ("any" in condition) {
+    return condition.any.length === 0 ? "nothing" : condition.any.map(part).join(" or ");
+  }
+  if ("not" in condition) {
+    return `not ${part(condition.not)}`;
+  }
+  const filters = formatFilters(condition, true);
+  return filters.length > 0 ? filters.join(" and ") : "anything";
+}
+
+/**
+ * Serializes one rule configuration as a single line of the text format.
+ */
+export function serializeRule(rule: SourceRuleConfig): string {
+  const parts = [rule.source === "*" ? "*" : formatText(rule.source), ...formatFilters(rule, false)];
+  if (rule.when) {
+    parts.push(`when ${formatCondition(rule.when)}`);
+  }
+  for (const window of rule.schedule?.windows ?? []) {
+    parts.push(`${rule.schedule?.outside ? "outside" : "during"} ${formatWindow(window)}`);
+  }
+  parts.push("->", rule.action);
+  if (rule.action === "defer" && rule.defer) {
+    parts.push("minutes" in rule.defer ? formatDuration(rule.defer.minutes) : "until break");
+  }
+  const priority = Object.keys(PRIORITY_NAMES).find((name) => PRIORITY_NAMES[name] === rule.priority);
+  if (priority && rule.priority !== Priority.Medium) {
+    parts.push(`priority ${priority}`);
+  }
+  if (rule.showInFocusMode) {
+    parts.push("focus");
+  }
+  if (rule.throttle) {
+    const then = rule.throttle.overflowAction ? ` then ${rule.throttle.overflowAction}` : "";
+    parts.push(`throttle ${rule.throttle.limit} per ${formatDuration(rule.throttle.windowMinutes)}${then}`);
+  }
+  if (rule.escalation) {
+    parts.push(`escalate ${rule.escalation.count} within ${formatDuration(rule.escalation.withinMinutes)}`);
+  }
+  if (rule.title) {
+    parts.push(`title ${JSON.stringify(rule.title)}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Serializes rule configurations, one per line. parseRuleDsl(serializeRuleDsl(rules))
+ * gives back equivalent rules.
+ */
+export function serializeRuleDsl(rules: SourceRuleConfig[]): string {
+  return rules.map(serializeRule).join("\n") + "\n";
+}
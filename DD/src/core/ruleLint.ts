@@ -0,0 +1,151 @@
+/**
+ * Static analysis of rule configurations: rules that can never fire, duplicates,
+ * and settings that can never take effect. Mirrors the evaluation order of
+ * convertToRoutingRules (highest priority first, then configuration order, then a
+ * "*" digest catch-all). Checks are conservative: a finding is only reported when it
+ * holds for every notification, in every mode (breakthrough rules also route on their own
+ * in Focus mode, see getModeRuleConfigs).
+ * @module ruleLint
+ */
+
+import type { SourceRuleConfig } from "./ruleConfig.js";
+import { compareSeverity, isSeverity } from "./severity.js";
+
+/**
+ * Kind of problem found:
+ * - "shadowed": an earlier rule matches everything this rule matches
+ * - "duplicate": an earlier rule has exactly the same conditions
+ * - "unreachable": the rule's conditions can never all hold
+ * - "ineffective": part of the rule (or the whole rule) never changes the outcome
+ */
+export type RuleLintKind = "shadowed" | "duplicate" | "unreachable" | "ineffective";
+
+/** One finding, reported against a rule's index in the configuration list. */
+export interface RuleLintFinding {
+  kind: RuleLintKind;
+  /** Index of the rule in the list passed to lintRules. */
+  ruleIndex: number;
+  /** Index of the earlier rule responsible, for "shadowed" and "duplicate". */
+  relatedIndex?: number;
+  message: string;
+}
+
+/** Action of the catch-all appended after all configured rules. */
+const CATCH_ALL_ACTION = "digest";
+
+function ruleName(rule: SourceRuleConfig, index: number): string {
+  return rule.title ? `"${rule.title}"` : `rule ${index + 1}`;
+}
+
+const normalize = (value: string | undefined): string => value?.trim().toLowerCase() ?? "";
+const normalizeChannel = (value: string | undefined): string => normalize(value).replace(/^#/, "");
+
+/** True if the optional filter `a` passes whenever `b` passes (a absent, or both equal). */
+function filterCovers(a: string, b: string): boolean {
+  return a === "" || a === b;
+}
+
+function sourceCovers(a: SourceRuleConfig, b: SourceRuleConfig): boolean {
+  return a.source === "*" || (b.source !== "*" && a.source.toLowerCase() === b.source.toLowerCase());
+}
+
+/**
+ * True if every notification that matches `b` also matches `a`, judged from the
+ * filters alone (throttle and escalation apply after matching).
+ */
+function covers(a: SourceRuleConfig, b: SourceRuleConfig): boolean {
+  if (!sourceCovers(a, b)) {
+    return false;
+  }
+  const aNeedle = normalize(a.contains);
+  if (aNeedle && !normalize(b.contains).includes(aNeedle)) {
+    return false;
+  }
+  if (a.pattern && (a.pattern !== b.pattern || (a.patternFlags ?? "i") !== (b.patternFlags ?? "i"))) {
+    return false;
+  }
+  if (a.minSeverity && !(b.minSeverity && isSeverity(a.minSeverity) && isSeverity(b.minSeverity)
+    && compareSeverity(b.minSeverity, a.minSeverity) >= 0)) {
+    return false;
+  }
+  if (!filterCovers(normalize(a.sender), normalize(b.sender))
+    || !filterCovers(normalizeChannel(a.channel), normalizeChannel(b.channel))
+    || !filterCovers(normalize(a.tag), normalize(b.tag))) {
+    return false;
+  }
+  if (a.schedule?.windows.length && JSON.stringify(a.schedule) !== JSON.stringify(b.schedule)) {
+    return false;
+  }
+  if (a.when && JSON.stringify(a.when) !== JSON.stringify(b.when)) {
+    return false;
+  }
+  return true;
+}
+
+/** True if the two rules could match a common notification (only sources are compared). */
+function mayOverlap(a: SourceRuleConfig, b: SourceRuleConfig): boolean {
+  return a.source === "*" || b.source === "*" || a.source.toLowerCase() === b.source.toLowerCase();
+}
+
+/**
+ * Indexes of rules in evaluation order: priority descending, ties in configuration order.
+ */
+export function getEvaluationOrder(rules: SourceRuleConfig[]): number[] {
+  return rules.map((_, index) => index).sort((a, b) => rules[b].priority - rules[a].priority || a - b);
+}
+
+/**
+ * Reports unreachable, shadowed and duplicate rules, and settings that never take effect.
+ * Findings are ordered by rule index.
+ */
+export function lintRules(rules: SourceRuleConfig[]): RuleLintFinding[] {
+  const findings: RuleLintFinding[] = [];
+  const order = getEvaluationOrder(rules);
+  const unreachable = new Set<number>();
+
+  order.forEach((index, position) => {
+    const rule = rules[index];
+    const name = ruleName(rule, index);
+
+    if (rule.when && "any" in rule.when && rule.when.any.length === 0) {
+      unreachable.add(index);
+      findings.push({ kind: "unreachable", ruleIndex: index, message: `${name} can never match: its condition is an empty "any" group` });
+      return;
+    }
+
+    for (const earlierIndex of order.slice(0, position)) {
+      const earlier = rules[earlierIndex];
+      // Only another breakthrough rule hides a breakthrough rule in Focus mode as well
+      if (unreachable.has(earlierIndex) || !covers(earlier, rule) || (rule.showInFocusMode && !earlier.showInFocusMode)) {
+        continue;
+      }
+      unreachable.add(index);
+      const earlierName = ruleName(earlier, earlierIndex);
+      if (covers(rule, earlier)) {
+        const outcome = earlier.action === rule.action ? "" : `; its action (${rule.action}) never applies`;
+        findings.push({ kind: "duplicate", ruleIndex: index, relatedIndex: earlierIndex, message: `${name} has the same conditions as ${earlierName}, which is checked first${outcome}` });
+      } else {
+        findings.push({ kind: "shadowed", ruleIndex: index, relatedIndex: earlierIndex, message: `${name} can never fire: ${earlierName} is checked first and matches everything it matches` });
+      }
+      return;
+    }
+
+    if (rule.escalation && rule.action !== "digest") {
+      findings.push({ kind: "ineffective", ruleIndex: index, message: `${name}: escalation only applies to rules that digest` });
+    }
+    if (rule.defer && rule.action !== "defer") {
+      findings.push({ kind: "ineffective", ruleIndex: index, message: `${name}: the defer setting only applies to rules that defer` });
+    }
+    if (rule.throttle && (rule.throttle.overflowAction ?? "digest") === rule.action) {
+      findings.push({ kind: "ineffective", ruleIndex: index, message: `${name}: throttling has no effect because the overflow action is the rule's own action (${rule.action})` });
+    }
+    if (rule.action === CATCH_ALL_ACTION && !rule.showInFocusMode && !rule.throttle && !rule.escalation) {
+      const later = order.slice(position + 1).filter((i) => !unreachable.has(i) && mayOverlap(rule, rules[i]));
+      if (later.every((i) => rules[i].action === CATCH_ALL_ACTION)) {
+        findings.push({ kind: "ineffective", ruleIndex: index, message: `${name} has no effect: what it matches would be digested anyway` });
+      }
+    }
+  });
+
+  return findings.sort((a, b) => a.ruleIndex - b.ruleIndex);
+}
@@ -0,0 +1,124 @@
+/**
+ * Time-of-day and weekday windows for rule schedules. Time zones via Intl (no dependencies).
+ * @module schedule
+ */
+
+import type { RuleSchedule, TimeWindow, Weekday } from "./types.js";
+
+/** Weekdays in Date#getDay() order (0 = Sunday). */
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Formatters keyed by time zone; creating Intl.DateTimeFormat is comparatively expensive. */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parses "HH:MM" (24h) into minutes since midnight. Returns undefined if malformed.
+ */
+export function parseTimeOfDay(value: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return hours * 60 + minutes;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Weekday index (0 = Sunday) and minutes since midnight of `now` in the given time zone.
+ * Throws RangeError for an unknown time zone.
+ */
+export function getLocalTime(now: number, timeZone?: string): { day: number; minutes: number } {
+  if (!timeZone) {
+    const date = new Date(now);
+    return { day: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+  }
+  const parts = getFormatter(timeZone).formatToParts(new Date(now));
+  const part = (type: string): string => parts.find((p) => p.type === type)?.value ?? "";
+  const day = WEEKDAYS.indexOf(part("weekday").toLowerCase() as Weekday);
+  return { day, minutes: Number(part("hour")) * 60 + Number(part("minute")) };
+}
+
+/**
+ * True if `now` falls in the window. For windows wrapping midnight, the part after
+ * midnight belongs to the previous day's window. Malformed windows never match.
+ */
+export function isWithinWindow(window: TimeWindow, now: number): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === undefined || end === undefined) {
+    return false;
+  }
+  let local: { day: number; minutes: number };
+  try {
+    local = getLocalTime(now, window.timeZone);
+  } catch {
+    return false;
+  }
+  const startsOn = (day: number): boolean =>
+    !window.days || window.days.length === 0 || window.days.includes(WEEKDAYS[(day + 7) % 7]);
+
+  if (start < end) {
+    return startsOn(local.day) && local.minutes >= start && local.minutes < end;
+  }
+  // Wraps midnight (or start === end: the full 24h from start)
+  const length = end - start + MINUTES_PER_DAY;
+  if (local.minutes >= start) {
+    return startsOn(local.day) && local.minutes - start < length;
+  }
+  return startsOn(local.day - 1) && local.minutes + MINUTES_PER_DAY - start < length;
+}
+
+/**
+ * True if the schedule applies at `now`: inside any window, or outside all of them when inverted.
+ */
+export function isWithinSchedule(schedule: RuleSchedule, now: number): boolean {
+  const inside = schedule.windows.some((window) => isWithinWindow(window, now));
+  return schedule.outside ? !inside : inside;
+}
+
+/**
+ * Returns an error message if the schedule has malformed times, days or time zones, else undefined.
+ */
+export function validateSchedule(schedule: RuleSchedule): string | undefined {
+  for (const window of schedule.windows) {
+    if (parseTimeOfDay(window.start) === undefined) {
+      return `invalid start time "${window.start}" (expected HH:MM)`;
+    }
+    if (parseTimeOfDay(window.end) === undefined) {
+      return `invalid end time "${window.end}" (expected HH:MM)`;
+    }
+    const badDay = window.days?.find((day) => !WEEKDAYS.includes(day));
+    if (badDay) {
+      return `invalid day "${badDay}" (expected one of ${WEEKDAYS.join(", ")})`;
+    }
+    if (window.timeZone) {
+      try {
+        getFormatter(window.timeZone);
+      } catch {
+        return `unknown time zone "${window.timeZone}"`;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,37 @@
+/**
+ * Notification severity ordering and parsing.
+ * @module severity
+ */
+
+import type { NotificationInput, Severity } from "./types.js";
+
+/** All severities, least to most severe. */
+export const SEVERITIES: readonly Severity[] = ["info", "warning", "error", "critical"];
+
+/**
+ * Severity of an input, defaulting to "info" when absent.
+ */
+export function getSeverity(input: NotificationInput): Severity {
+  return input.severity ?? "info";
+}
+
+/**
+ * Negative if a is less severe than b, 0 if equal, positive if more severe.
+ */
+export function compareSeverity(a: Severity, b: Severity): number {
+  return SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b);
+}
+
+/**
+ * True if `value` is one of the known severities.
+ */
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === "string" && (SEVERITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns an error message if `value` is not a known severity, else undefined.
+ */
+export function validateSeverity(value: unknown): string | undefined {
+  return isSeverity(value) ? undefined : `unknown severity "${String(value)}" (expected ${SEVERITIES.join(", ")})`;
+}
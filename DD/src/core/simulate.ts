@@ -0,0 +1,109 @@
+/**
+ * What-if simulation: replays routed notifications against a candidate rule list and
+ * reports which would have been routed differently. Throttles and escalations are
+ * replayed with fresh counters on the recorded timestamps, so the result does not depend
+ * on the live trackers.
+ * @module simulate
+ */
+
+import type { Action, NotificationInput, Rule } from "./types.js";
+import type { RouteTrace } from "./router.js";
+import { routeWithTrace } from "./router.js";
+import { ThrottleTracker } from "./throttle.js";
+import { EscalationTracker, getEscalationKey } from "./escalation.js";
+import { describeRule } from "./explain.js";
+
+/** A notification as it was routed (structurally compatible with processed history entries). */
+export interface SimulationEntry {
+  input: NotificationInput;
+  action: Action;
+  /** When it was routed (epoch ms); schedules, throttles and escalations are replayed at this time. */
+  timestamp: number;
+  /** What the rules decided at the time. */
+  trace?: RouteTrace;
+  /** Set when something other than the rules decided the action (e.g. a mention or focus mode). */
+  override?: string;
+}
+
+/** One notification whose action would change. */
+export interface SimulationChange {
+  /** Index of the entry in the replayed history. */
+  index: number;
+  input: NotificationInput;
+  timestamp: number;
+  /** Action it was routed to. */
+  before: Action;
+  /** Action the candidate rules route it to. */
+  after: Action;
+  /** Title of the rule that decided it at the time, if any. */
+  beforeRule?: string;
+  /** Title of the candidate rule that decides it, if any. */
+  afterRule?: string;
+}
+
+/** Outcome of replaying a history against candidate rules. */
+export interface SimulationResult {
+  /** Number of entries replayed. */
+  total: number;
+  /** Entries whose action would change, in history order. */
+  changes: SimulationChange[];
+  /** Number of changes per transition, keyed "before→after" (e.g. "allow→digest"). */
+  transitions: Record<string, number>;
+  /** Entries kept as they were because an override or a snooze decided them, not the rules. */
+  overridden: number;
+}
+
+/** Rule title for a change, falling back to the trace's description. */
+function ruleLabel(trace: RouteTrace | undefined): string | undefined {
+  const rule = trace?.matchedRule;
+  if (!rule || trace.matchedRuleIndex === undefined) {
+    return undefined;
+  }
+  return rule.title ?? describeRule(rule, trace.matchedRuleIndex);
+}
+
+/**
+ * Re-routes every entry of `history` (oldest first) through `rules` and diffs the result
+ * against the recorded actions. Entries decided by an override or a snooze keep their action.
+ */
+export function simulateRules(history: readonly SimulationEntry[], rules: Rule[]): SimulationResult {
+  let now = 0;
+  const getNow = () => now;
+  const throttles = new ThrottleTracker(getNow);
+  const escalations = new EscalationTracker(getNow);
+  const result: SimulationResult = { total: history.length, changes: [], transitions: {}, overridden: 0 };
+
+  history.forEach((entry, index) => {
+    if (entry.override || entry.trace?.decidedBy === "snooze") {
+      result.overridden++;
+      return;
+    }
+    now = entry.timestamp;
+    const trace = routeWithTrace(entry.input, { focusMode: false }, rules, { getNow });
+    let action = trace.action;
+    const rule = trace.matchedRule;
+    if (rule?.throttle) {
+      action = throttles.admit(String(trace.matchedRuleIndex), action, rule.throttle);
+    }
+    if (action === "digest" && trace.action === "digest" && rule?.escalation
+      && escalations.record(getEscalationKey(entry.input), rule.escalation) !== undefined) {
+      action = "allow";
+    }
+    if (action === entry.action) {
+      return;
+    }
+    const transition = `${entry.action}→${action}`;
+    result.transitions[transition] = (result.transitions[transition] ?? 0) + 1;
+    result.changes.push({
+      index,
+      input: entry.input,
+      timestamp: entry.timestamp,
+      before: entry.action,
+      after: action,
+      beforeRule: ruleLabel(entry.trace),
+      afterRule: ruleLabel(trace),
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,142 @@
+/**
+ * Snoozes: the global snoozeUntil and per-source snoozes in RouterState. Helpers return new
+ * state objects so callers can replace their state atomically.
+ * @module snooze
+ */
+
+import type { RouterState } from "./state.js";
+import type { NotificationInput } from "./types.js";
+
+/** A snooze in effect for a notification. */
+export interface ActiveSnooze {
+  /** When the snooze ends (epoch ms). */
+  until: number;
+  /** The snoozed source, when the snooze is per-source rather than global. */
+  source?: string;
+}
+
+/** An active per-source snooze. */
+export interface SourceSnooze {
+  source: string;
+  /** When the snooze ends (epoch ms). */
+  until: number;
+}
+
+/** A global snooze (RouterState.snoozeUntil) with the time it started, as persisted. */
+export interface GlobalSnooze {
+  startedAt: number;
+  until: number;
+}
+
+/** What arrived while a snooze was active. */
+export interface SnoozeSummary {
+  startedAt: number;
+  endedAt: number;
+  /** Number of notifications that arrived. */
+  total: number;
+  /** Arrivals per source, most first. */
+  bySource: { source: string; count: number }[];
+}
+
+/** Key in sourceSnoozes matching `source` case-insensitively, if any. */
+function findSourceKey(state: RouterState, source: string): string | undefined {
+  const lower = source.toLowerCase();
+  return Object.keys(state.sourceSnoozes ?? {}).find((key) => key.toLowerCase() === lower);
+}
+
+/**
+ * The snooze that applies to a notification from `source` at `now`: the global snooze or
+ * the source's own, whichever ends later. Undefined when neither is active.
+ */
+export function findActiveSnooze(state: RouterState, source: string, now: number): ActiveSnooze | undefined {
+  const global = typeof state.snoozeUntil === "number" && now < state.snoozeUntil ? state.snoozeUntil : undefined;
+  const key = findSourceKey(state, source);
+  const sourceUntil = key === undefined ? undefined : state.sourceSnoozes?.[key];
+  const perSource = typeof sourceUntil === "number" && now < sourceUntil ? sourceUntil : undefined;
+  if (perSource !== undefined && (global === undefined || perSource > global)) {
+    return { until: perSource, source: key };
+  }
+  return global === undefined ? undefined : { until: global };
+}
+
+/**
+ * State with `source` snoozed until `until` (replacing any snooze of the same source).
+ */
+export function snoozeSource(state: RouterState, source: string, until: number): RouterState {
+  const snoozes = { ...state.sourceSnoozes };
+  const key = findSourceKey(state, source);
+  if (key !== undefined) {
+    delete snoozes[key];
+  }
+  snoozes[source] = until;
+  return { ...state, sourceSnoozes: snoozes };
+}
+
+/**
+ * State without a snooze for `source` (case-insensitive).
+ */
+export function unsnoozeSource(state: RouterState, source: string): RouterState {
+  const key = findSourceKey(state, source);
+  if (key === undefined) {
+    return state;
+  }
+  const snoozes = { ...state.sourceSnoozes };
+  delete snoozes[key];
+  return { ...state, sourceSnoozes: snoozes };
+}
+
+/**
+ * Per-source snoozes still active at `now`, soonest to end first.
+ */
+export function getSourceSnoozes(state: RouterState, now: number): SourceSnooze[] {
+  return Object.entries(state.sourceSnoozes ?? {})
+    .filter(([, until]) => typeof until === "number" && now < until)
+    .map(([source, until]) => ({ source, until }))
+    .sort((a, b) => a.until - b.until);
+}
+
+/**
+ * Compact remaining time, e.g. "1h 20m", "45m", "30s".
+ */
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const totalMinutes = Math.ceil(totalSeconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+/**
+ * Countdown for a status bar, e.g. "14:05" or "1:02:09".
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Summarizes the notifications that arrived in [startedAt, endedAt).
+ */
+export function summarizeSnooze(
+  history: readonly { input: NotificationInput; timestamp: number }[],
+  startedAt: number,
+  endedAt: number
+): SnoozeSummary {
+  const counts = new Map<string, number>();
+  for (const entry of history) {
+    if (entry.timestamp >= startedAt && entry.timestamp < endedAt) {
+      counts.set(entry.input.source, (counts.get(entry.input.source) ?? 0) + 1);
+    }
+  }
+  const bySource = [...counts].map(([source, count]) => ({ source, count })).sort((a, b) => b.count - a.count);
+  return { startedAt, endedAt, total: bySource.reduce((sum, entry) => sum + entry.count, 0), bySource };
+}
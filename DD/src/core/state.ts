@@ -8,12 +8,13 @@
  * - focusMode: when true and no rule matches, result is "digest".
  * - snoozeUntil: epoch ms; when now < snoozeUntil, result is forced to "digest"
  *   before any rule evaluation. Absent/undefined means no snooze.
+ * - sourceSnoozes: the same, per source (case-insensitive), e.g. { "Extension": <epoch ms> }.
  */
 export interface RouterState {
   /** When true, default (no-rule match) is "digest" instead of "allow". */
   focusMode: boolean;
   /** Epoch ms; if now < snoozeUntil, force "digest". Omit when not snoozing. */
   snoozeUntil?: number;
-  /** When true, all notifications are queued (digest) - Away From Keyboard mode. */
-  afkMode?: boolean;
+  /** Per-source snoozes: source → epoch ms; notifications from that source are digested until then. */
+  sourceSnoozes?: Record<string, number>;
 }
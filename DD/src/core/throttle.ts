@@ -0,0 +1,79 @@
+/**
+ * Sliding-window throttling of rule matches. Stateful, so it lives outside the pure router:
+ * callers route first, then ask the tracker whether the matched rule is still within its limit.
+ * @module throttle
+ */
+
+import type { Action, RuleThrottle } from "./types.js";
+import type { Clock } from "./router.js";
+
+/**
+ * Counters for one throttled rule within the current window.
+ */
+export interface ThrottleUsage {
+  /** Matches that kept the rule's action in the current window. */
+  admitted: number;
+  /** Matches that were throttled to the overflow action in the current window. */
+  throttled: number;
+  /** The configured limit. */
+  limit: number;
+  /** The configured window in minutes. */
+  windowMinutes: number;
+}
+
+/**
+ * Tracks rule matches per key (usually the rule title) over a sliding window.
+ * Time comes from the injected clock so tests are deterministic.
+ */
+export class ThrottleTracker {
+  private readonly admitted = new Map<string, number[]>();
+  private readonly throttled = new Map<string, number[]>();
+
+  constructor(private readonly getNow: Clock = () => Date.now()) {}
+
+  /**
+   * Records a match for `key`. Returns the rule's own action if the match is within the
+   * limit, otherwise the throttle's overflow action (default "digest").
+   */
+  admit(key: string, action: Action, throttle: RuleThrottle): Action {
+    const now = this.getNow();
+    const admitted = this.prune(this.admitted, key, throttle, now);
+    if (admitted.length < throttle.limit) {
+      admitted.push(now);
+      return action;
+    }
+    this.prune(this.throttled, key, throttle, now).push(now);
+    return throttle.overflowAction ?? "digest";
+  }
+
+  /**
+   * Current counters for `key` under the given throttle.
+   */
+  getUsage(key: string, throttle: RuleThrottle): ThrottleUsage {
+    const now = this.getNow();
+    return {
+      admitted: this.prune(this.admitted, key, throttle, now).length,
+      throttled: this.prune(this.throttled, key, throttle, now).length,
+      limit: throttle.limit,
+      windowMinutes: throttle.windowMinutes,
+    };
+  }
+
+  /**
+   * Forgets all recorded matches.
+   */
+  reset(): void {
+    this.admitted.clear();
+    this.throttled.clear();
+  }
+
+  /**
+   * Drops timestamps that fell out of the window and returns the remaining list for `key`.
+   */
+  private prune(store: Map<string, number[]>, key: string, throttle: RuleThrottle, now: number): number[] {
+    const windowStart = now - throttle.windowMinutes * 60_000;
+    const kept = (store.get(key) ?? []).filter((t) => t > windowStart);
+    store.set(key, kept);
+    return kept;
+  }
+}
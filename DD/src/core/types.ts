@@ -8,8 +8,32 @@
  * - "allow": show immediately
  * - "suppress": drop silently
  * - "digest": queue for later (digest)
+ * - "defer": hold, then show as "allow" after a delay or at the next break (see RuleDefer)
  */
-export type Action = "allow" | "suppress" | "digest";
+export type Action = "allow" | "suppress" | "digest" | "defer";
+
+/**
+ * How serious a notification is, in increasing order: info < warning < error < critical.
+ */
+export type Severity = "info" | "warning" | "error" | "critical";
+
+/**
+ * Optional structured context about where a notification came from.
+ */
+export interface NotificationMetadata {
+  /** Who sent it (e.g. a chat user name). */
+  sender?: string;
+  /** Channel or room it was posted in (e.g. "#frontend"). */
+  channel?: string;
+  /** Name of the workspace folder it relates to. */
+  workspaceFolder?: string;
+  /** Git branch it relates to. */
+  branch?: string;
+  /** URI of the file it relates to, as a string. */
+  fileUri?: string;
+  /** Free-form labels (e.g. "ci", "flaky"). */
+  tags?: string[];
+}
 
 /**
  * Input describing an incoming notification to be classified.
@@ -21,6 +45,10 @@ export interface NotificationInput {
   title: string;
   /** Notification body text. */
   body: string;
+  /** Optional severity. Absent is treated as "info" when matching. */
+  severity?: Severity;
+  /** Optional structured context: sender, channel, workspace folder, branch, file, tags. */
+  metadata?: NotificationMetadata;
 }
 
 /**
@@ -28,13 +56,165 @@ export interface NotificationInput {
  * - source: exact source or "*" for any (case-insensitive for exact).
  * - contains: optional substring in (title + "\\n" + body), case-insensitive.
  *   Trimmed; empty string is treated as "no contains filter" (only source is checked).
+ * - pattern: optional regular expression tested against (title + "\\n" + body).
+ * - minSeverity: optional threshold; input.severity (default "info") must be at least this.
+ * - sender / channel / tag: optional metadata filters (case-insensitive; a leading "#" on channels is ignored).
+ * - schedule: optional time windows; the rule only applies inside (or outside) them.
+ * - when: optional condition tree (all/any/not over source/contains/pattern), ANDed with the above.
+ * - throttle: optional rate limit applied by the caller after routing (see ThrottleTracker).
+ * - escalation: optional "repeats break through" policy applied by the caller (see EscalationTracker).
+ * - defer: when a "defer" result is shown again (see DeferQueue); default 30 minutes.
  * - action: the Action to return when this rule matches.
  */
 export interface Rule {
+  /** Optional human-readable label, used when explaining routing decisions. */
+  title?: string;
   /** Source to match: "*" or exact match (case-insensitive). */
   source: string | "*";
   /** Optional substring in title+body (case-insensitive). Empty/whitespace = no filter. */
   contains?: string;
+  /** Optional regular expression source tested against title+body. Empty = no filter; invalid = never matches. */
+  pattern?: string;
+  /** Flags for pattern (e.g. "i", "im"). Default: "i". "g" and "y" are ignored. */
+  patternFlags?: string;
+  /** Optional threshold: matches only when input.severity is at least this (e.g. "error"). */
+  minSeverity?: Severity;
+  /** Optional sender to match against metadata.sender (case-insensitive). */
+  sender?: string;
+  /** Optional channel to match against metadata.channel (case-insensitive, leading "#" ignored). */
+  channel?: string;
+  /** Optional tag that metadata.tags must include (case-insensitive). */
+  tag?: string;
+  /** Optional time-of-day/weekday windows restricting when the rule applies. */
+  schedule?: RuleSchedule;
+  /** Optional boolean condition tree; must also hold for the rule to match. */
+  when?: RuleCondition;
+  /** Optional rate limit: at most `limit` matches per window, the rest get `overflowAction`. */
+  throttle?: RuleThrottle;
+  /** Optional escalation: digested repeats of the same notification are promoted to "allow". */
+  escalation?: RuleEscalation;
+  /** When notifications deferred by this rule are shown. Default: after 30 minutes. */
+  defer?: RuleDefer;
+  /** Optional priority of the rule configuration it came from (0 = low … 3 = critical). Not used for matching: rules are checked in order. */
+  priority?: number;
+  /** Optional index of the rule configuration it came from, in its list. Unlike the title, unique within the list. */
+  configIndex?: number;
   /** Action to take when this rule matches. */
   action: Action;
 }
+
+/**
+ * Result of a successful pattern match, exposed so callers can show capture groups.
+ */
+export interface PatternMatch {
+  /** The full matched text. */
+  match: string;
+  /** Positional capture groups (group 1 at index 0). Unmatched optional groups are undefined. */
+  groups: (string | undefined)[];
+  /** Named capture groups, when the pattern defines any. */
+  namedGroups?: Record<string, string | undefined>;
+}
+
+/**
+ * Sliding-window rate limit for a rule, e.g. at most 3 per 10 minutes, the rest to digest.
+ */
+export interface RuleThrottle {
+  /** Maximum matches that keep the rule's action within one window. */
+  limit: number;
+  /** Sliding window length in minutes. */
+  windowMinutes: number;
+  /** Action for matches beyond the limit. Default: "digest". */
+  overflowAction?: Action;
+}
+
+/**
+ * Escalation policy: when the same notification is digested `count` times within
+ * `withinMinutes`, the last one is promoted to "allow".
+ */
+export interface RuleEscalation {
+  /** Number of digested repeats that triggers escalation (including the current one). */
+  count: number;
+  /** Window in minutes within which the repeats must occur. */
+  withinMinutes: number;
+}
+
+/**
+ * When a deferred notification is shown: after a number of minutes, or at the next break
+ * (the next time the user returns to the normal mode, or a Pomodoro break starts).
+ */
+export type RuleDefer = { minutes: number } | { until: "break" };
+
+/**
+ * Leaf of a condition tree: the same filters a Rule supports, with the same semantics.
+ * All filters present must pass; source defaults to "*".
+ */
+export interface ConditionLeaf {
+  /** Source to match: "*" or exact match (case-insensitive). Default "*". */
+  source?: string;
+  /** Substring in title+body (case-insensitive). */
+  contains?: string;
+  /** Regular expression tested against title+body. */
+  pattern?: string;
+  /** Flags for pattern. Default: "i". */
+  patternFlags?: string;
+  /** Minimum severity. */
+  minSeverity?: Severity;
+  /** Sender (metadata.sender). */
+  sender?: string;
+  /** Channel (metadata.channel). */
+  channel?: string;
+  /** Tag included in metadata.tags. */
+  tag?: string;
+}
+
+/** All children must hold (true when empty). */
+export interface AllCondition {
+  all: RuleCondition[];
+}
+
+/** At least one child must hold (false when empty). */
+export interface AnyCondition {
+  any: RuleCondition[];
+}
+
+/** The child must not hold. */
+export interface NotCondition {
+  not: RuleCondition;
+}
+
+/**
+ * Composable boolean condition: AND/OR/NOT nodes over leaves.
+ * Example: source is Git or Build, contains "failed", and not "flaky":
+ * `{ all: [{ any: [{ source: "Git" }, { source: "Build" }] }, { contains: "failed" }, { not: { contains: "flaky" } }] }`
+ */
+export type RuleCondition = AllCondition | AnyCondition | NotCondition | ConditionLeaf;
+
+/** Day of week, lowercase three-letter abbreviation. */
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/**
+ * A recurring time window, e.g. weekdays 09:00–12:00.
+ * - days: days the window starts on; absent or empty = every day.
+ * - start/end: "HH:MM" (24h). If end <= start the window wraps past midnight.
+ * - timeZone: IANA time zone (e.g. "Europe/Berlin"); absent = local time.
+ */
+export interface TimeWindow {
+  /** Days the window starts on. Absent/empty = every day. */
+  days?: Weekday[];
+  /** Start time "HH:MM" (inclusive). */
+  start: string;
+  /** End time "HH:MM" (exclusive). End <= start wraps past midnight. */
+  end: string;
+  /** IANA time zone. Absent = local time. */
+  timeZone?: string;
+}
+
+/**
+ * When a rule applies: inside any of the windows, or (outside: true) outside all of them.
+ */
+export interface RuleSchedule {
+  /** Time windows; the rule applies when now falls in any of them. */
+  windows: TimeWindow[];
+  /** When true, invert: the rule applies only when now is outside every window. */
+  outside?: boolean;
+}
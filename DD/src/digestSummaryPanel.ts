@@ -0,0 +1,174 @@
+/**
+ * Digest summary webview: counts per source and the top items of the digest.
+ * @module digestSummaryPanel
+ */
+
+import * as vscode from 'vscode';
+import type { DigestSummary } from './core/index.js';
+
+/** Titles listed per source; the rest are counted */
+const TOP_ITEMS = 5;
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Digest summary webview panel (one at a time; showing another summary replaces it)
+ */
+export class DigestSummaryPanel {
+	private static currentPanel: DigestSummaryPanel | undefined;
+	private readonly _panel: vscode.WebviewPanel;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel) {
+		this._panel = panel;
+
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+		this._panel.webview.onDidReceiveMessage(
+			async (message) => {
+				switch (message.command) {
+					case 'openSidebar':
+						await vscode.commands.executeCommand('workbench.view.extension.ddNotifications');
+						return;
+				}
+			},
+			null,
+			this._disposables
+		);
+	}
+
+	public static createOrShow(summary: DigestSummary, asOf: number): void {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (!DigestSummaryPanel.currentPanel) {
+			const panel = vscode.window.createWebviewPanel(
+				'digestSummary',
+				'Digest Summary',
+				column || vscode.ViewColumn.One,
+				{ enableScripts: true }
+			);
+			DigestSummaryPanel.currentPanel = new DigestSummaryPanel(panel);
+		}
+		const current = DigestSummaryPanel.currentPanel;
+		current._panel.webview.html = current._getHtmlForWebview(summary, asOf);
+		current._panel.reveal(column);
+	}
+
+	public dispose(): void {
+		DigestSummaryPanel.currentPanel = undefined;
+
+		this._panel.dispose();
+
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	private _getHtmlForWebview(summary: DigestSummary, asOf: number): string {
+		const rows = summary.groups.map(group => {
+			const items = group.titles.slice(0, TOP_ITEMS).map(title => `<li>${escapeHtml(title)}</li>`).join('');
+			const more = group.titles.length > TOP_ITEMS ? `<li class="more">and ${group.titles.length - TOP_ITEMS} more</li>` : '';
+			return `<tr>
+				<td class="source">${escapeHtml(group.source)}</td>
+				<td class="count">${group.count}</td>
+				<td><ul>${items}${more}</ul></td>
+			</tr>`;
+		}).join('\n');
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Digest Summary</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			padding: 20px;
+			color: var(--vscode-foreground);
+			background-color: var(--vscode-editor-background);
+		}
+		h2 {
+			margin-top: 0;
+			margin-bottom: 4px;
+			font-size: 18px;
+			font-weight: 600;
+		}
+		.hint {
+			margin-bottom: 20px;
+			font-size: 12px;
+			color: var(--vscode-descriptionForeground);
+		}
+		table {
+			border-collapse: collapse;
+			width: 100%;
+		}
+		th, td {
+			text-align: left;
+			vertical-align: top;
+			padding: 8px;
+			border-bottom: 1px solid var(--vscode-panel-border);
+		}
+		td.source {
+			font-weight: 600;
+			white-space: nowrap;
+		}
+		td.count {
+			text-align: right;
+			width: 60px;
+		}
+		ul {
+			margin: 0;
+			padding-left: 18px;
+		}
+		li.more {
+			list-style: none;
+			color: var(--vscode-descriptionForeground);
+		}
+		button {
+			margin-top: 20px;
+			background-color: var(--vscode-button-background);
+			color: var(--vscode-button-foreground);
+			border: none;
+			padding: 8px 16px;
+			cursor: pointer;
+			font-size: 13px;
+			border-radius: 4px;
+		}
+		button:hover {
+			background-color: var(--vscode-button-hoverBackground);
+		}
+	</style>
+</head>
+<body>
+	<h2>${summary.total} digested notification${summary.total === 1 ? '' : 's'}</h2>
+	<div class="hint">As of ${escapeHtml(new Date(asOf).toLocaleString())}; the notifications stay in the sidebar until you mark them as read.</div>
+	<table>
+		<thead>
+			<tr><th>Source</th><th class="count">Count</th><th>Top items</th></tr>
+		</thead>
+		<tbody>
+			${rows}
+		</tbody>
+	</table>
+	<button onclick="openSidebar()">Show in Sidebar</button>
+	<script>
+		const vscode = acquireVsCodeApi();
+		function openSidebar() {
+			vscode.postMessage({ command: 'openSidebar' });
+		}
+	</script>
+</body>
+</html>`;
+	}
+}
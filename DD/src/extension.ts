@@ -1,18 +1,41 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { NotificationManager } from './notificationManager.js';
+import { NotificationManager, explainRouting, type MentionSettings, type ProcessedNotification, type StoredDeferredItem } from './notificationManager.js';
 import { getMockSources } from './integrations/mockIntegrations.js';
 import { NotificationTreeProvider } from './notificationTreeProvider.js';
 import { ChatPanel } from './chatPanel.js';
 import { RulesPanel } from './rulesPanel.js';
-import { loadRuleConfigs, convertToRoutingRules } from './rulesConfig.js';
+import { DigestSummaryPanel } from './digestSummaryPanel.js';
+import { loadRuleConfigs, loadModes, convertToRoutingRules } from './rulesConfig.js';
+import { registerRulesLanguage } from './rulesLanguage.js';
+import { registerRulesDiagnostics } from './rulesDiagnostics.js';
+import { registerExportCommand } from './notificationExport.js';
+import { registerSidebarFilter } from './sidebarFilter.js';
+import { registerSidebarGrouping } from './sidebarGrouping.js';
+import { DEFAULT_DIGEST_SCHEDULE, DEFAULT_POMODORO, DEFAULT_RETENTION, HistoryStore, NORMAL_MODE_ID, formatCountdown, formatDigestSummary, formatRemaining, validateDigestSchedule, validatePomodoroSettings, validateRetention, summarizeDigest, summarizeSnooze, type DeferredEntry, type DigestSchedule, type DigestSummary, type GlobalSnooze, type HistoryRetention, type HistoryStorage, type ModeDefinition, type PomodoroSettings, type PomodoroStatus, type SnoozeSummary, type SourceSnooze } from './core/index.js';
 
 // Status bar items
 let statusBarItem: vscode.StatusBarItem;
+let modeStatusBarItem: vscode.StatusBarItem;
 let notificationManager: NotificationManager;
 let notificationTreeProvider: NotificationTreeProvider;
 let mockNotificationInterval: NodeJS.Timeout | undefined;
+let snoozeRefreshInterval: NodeJS.Timeout | undefined;
+let countdownInterval: NodeJS.Timeout | undefined;
+let historyStore: HistoryStore<ProcessedNotification> | undefined;
+
+/** workspaceState key for notifications held by defer rules */
+const DEFERRED_STATE_KEY = 'dd.deferredNotifications';
+
+/** globalState key for per-source snoozes */
+const SOURCE_SNOOZES_KEY = 'dd.sourceSnoozes';
+
+/** globalState key for the global snooze */
+const GLOBAL_SNOOZE_KEY = 'dd.snooze';
+
+/** File in the extension's storage folder holding the notification history */
+const HISTORY_FILE = 'history.json';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -30,12 +53,45 @@ export function activate(context: vscode.ExtensionContext) {
 	const config = vscode.workspace.getConfiguration('dd');
 	const userName = config.get<string>('userName') || process.env.USER || process.env.USERNAME || 'user';
 	notificationManager.setUserName(userName);
+	notificationManager.setMentionSettings(loadMentionSettings());
+	notificationManager.setCoalesceWindow(config.get<number>('coalesceWindowSeconds', 300) * 1000);
+	notificationManager.setPomodoroSettings(loadPomodoroSettings());
+	notificationManager.setHistoryRetention(loadHistoryRetention());
+	notificationManager.setDigestSchedule(loadDigestSchedule());
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration('dd.coalesceWindowSeconds')) {
+			const seconds = vscode.workspace.getConfiguration('dd').get<number>('coalesceWindowSeconds', 300);
+			notificationManager.setCoalesceWindow(seconds * 1000);
+		}
+		if (e.affectsConfiguration('dd.mentions')) {
+			notificationManager.setMentionSettings(loadMentionSettings());
+		}
+		if (e.affectsConfiguration('dd.pomodoro')) {
+			notificationManager.setPomodoroSettings(loadPomodoroSettings());
+		}
+		if (e.affectsConfiguration('dd.history')) {
+			notificationManager.setHistoryRetention(loadHistoryRetention());
+		}
+		if (e.affectsConfiguration('dd.digestSchedule')) {
+			notificationManager.setDigestSchedule(loadDigestSchedule());
+		}
+		if (e.affectsConfiguration('dd.modes')) {
+			applyModes();
+			notificationManager.setRules(convertToRoutingRules(loadRuleConfigs(), notificationManager.getMode()));
+			updateModeStatusBarItem();
+		}
+	}));
 	
-	// Load and apply configurable rules
+	// Load modes, then apply the current mode's rules
+	applyModes();
 	const ruleConfigs = loadRuleConfigs();
-	const focusMode = notificationManager.isFocusMode();
-	const routingRules = convertToRoutingRules(ruleConfigs, focusMode);
+	const routingRules = convertToRoutingRules(ruleConfigs, notificationManager.getMode());
 	notificationManager.setRules(routingRules);
+
+	// .ddrules text format: diagnostics and open/apply commands
+	registerRulesLanguage(context, notificationManager);
+	registerRulesDiagnostics(context);
+	registerExportCommand(context, notificationManager);
 	
 	// Set callbacks
 	notificationManager.setUnreadCountCallback(() => {
@@ -48,18 +104,113 @@ export function activate(context: vscode.ExtensionContext) {
 		updateStatusBarItem();
 	});
 
-	notificationManager.setFocusModeCallback((enabled) => {
-		// Update status bar when focus mode changes
-		updateStatusBarItem();
-		// Reapply rules when focus mode changes (rules may differ in focus mode)
+	notificationManager.setModeCallback((mode) => {
+		// Each mode routes with its own rules and default action
 		const ruleConfigs = loadRuleConfigs();
-		const routingRules = convertToRoutingRules(ruleConfigs, enabled);
+		const routingRules = convertToRoutingRules(ruleConfigs, mode);
 		notificationManager.setRules(routingRules);
+		updateStatusBarItem();
+		updateModeStatusBarItem();
 	});
 
-	notificationManager.setAFKModeCallback((enabled: boolean) => {
-		// Update status bar when AFK mode changes
+	// Deferred notifications survive a window reload
+	notificationManager.setDeferredCallback(() => {
 		updateStatusBarItem();
+		void context.workspaceState.update(DEFERRED_STATE_KEY, notificationManager.getDeferredForStorage());
+	});
+	notificationManager.restoreDeferred(context.workspaceState.get<DeferredEntry<StoredDeferredItem>[]>(DEFERRED_STATE_KEY, []));
+
+	// Per-source snoozes survive restarts; tell the user when one runs out
+	let activeSnoozes: SourceSnooze[] = [];
+	notificationManager.setSnoozeCallback((snoozes) => {
+		const ended = activeSnoozes.filter(previous => previous.until <= Date.now() && !snoozes.some(s => s.source === previous.source));
+		for (const snooze of ended) {
+			vscode.window.showInformationMessage(`${snooze.source} is no longer snoozed`);
+		}
+		activeSnoozes = snoozes;
+		notificationTreeProvider?.refresh();
+		// Keep the remaining time shown on snoozed categories current
+		if (snoozes.length > 0 && !snoozeRefreshInterval) {
+			snoozeRefreshInterval = setInterval(() => notificationTreeProvider?.refresh(), 60_000);
+		} else if (snoozes.length === 0 && snoozeRefreshInterval) {
+			clearInterval(snoozeRefreshInterval);
+			snoozeRefreshInterval = undefined;
+		}
+		void context.globalState.update(SOURCE_SNOOZES_KEY, snoozes);
+	});
+
+	// The global snooze survives restarts; the status bar counts down while it is active
+	notificationManager.setGlobalSnoozeCallback((snooze, summary) => {
+		void context.globalState.update(GLOBAL_SNOOZE_KEY, snooze);
+		updateCountdown();
+		updateStatusBarItem();
+		if (summary) {
+			showSnoozeSummary(summary);
+		}
+	});
+
+	// Pomodoro phases: count down in the status bar and summarize the digest at each break
+	let previousPomodoro: PomodoroStatus | undefined;
+	notificationManager.setPomodoroCallback((status, summary) => {
+		updateCountdown();
+		updateStatusBarItem();
+		if (status && status.phase !== 'work' && summary) {
+			showBreakSummary(status, summary);
+		} else if (status?.phase === 'work' && previousPomodoro && previousPomodoro.phase !== 'work') {
+			vscode.window.setStatusBarMessage(`$(target) Break over: Pomodoro session ${status.session} started`, 5000);
+		} else if (!status && previousPomodoro && previousPomodoro.endsAt <= Date.now()) {
+			// The break ran out and dd.pomodoro.autoResume is off
+			vscode.window.showInformationMessage('Break over.', 'Start Next Session').then(choice => {
+				if (choice) {
+					notificationManager.startPomodoro();
+				}
+			});
+		}
+		previousPomodoro = status;
+	});
+	// Scheduled digests arrive as one grouped notification that opens the summary view
+	notificationManager.setDigestDeliveryCallback((summary, deliveredAt) => {
+		showDigestDelivery(summary, deliveredAt);
+	});
+
+	// A global snooze that ran out while the window was closed is summarized once the history is loaded
+	const savedSnooze = context.globalState.get<GlobalSnooze>(GLOBAL_SNOOZE_KEY);
+	let expiredSnooze: GlobalSnooze | undefined;
+	if (savedSnooze && savedSnooze.until > Date.now()) {
+		notificationManager.snooze(savedSnooze.until, savedSnooze.startedAt);
+	} else if (savedSnooze) {
+		expiredSnooze = savedSnooze;
+		void context.globalState.update(GLOBAL_SNOOZE_KEY, undefined);
+	}
+	for (const snooze of context.globalState.get<SourceSnooze[]>(SOURCE_SNOOZES_KEY, [])) {
+		if (snooze.until > Date.now()) {
+			notificationManager.snoozeSource(snooze.source, snooze.until);
+		}
+	}
+
+	// The history and the unread digest and important lists survive reloads. Saving starts once
+	// the previous session's history is loaded, so an early save cannot overwrite it
+	historyStore = new HistoryStore<ProcessedNotification>(
+		createFileStorage(vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, HISTORY_FILE)),
+		error => console.error('Failed to save notification history:', error)
+	);
+	const store = historyStore;
+	const startSaving = () => notificationManager.setHistoryCallback(() => store.save(() => notificationManager.getHistorySnapshot()));
+	const summarizeExpiredSnooze = () => {
+		if (expiredSnooze) {
+			showSnoozeSummary(summarizeSnooze(notificationManager.getHistorySnapshot().history, expiredSnooze.startedAt, expiredSnooze.until));
+		}
+	};
+	store.load().then(snapshot => {
+		startSaving();
+		if (snapshot) {
+			notificationManager.restoreHistory(snapshot);
+		}
+		summarizeExpiredSnooze();
+	}, error => {
+		startSaving();
+		vscode.window.showErrorMessage(`Failed to load notification history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		summarizeExpiredSnooze();
 	});
 
 	// Create tree view for unimportant notifications (sidebar)
@@ -70,6 +221,8 @@ export function activate(context: vscode.ExtensionContext) {
 		showCollapseAll: true,
 	});
 	context.subscriptions.push(treeView);
+	registerSidebarFilter(context, treeView, notificationTreeProvider, notificationManager);
+	registerSidebarGrouping(context, notificationTreeProvider);
 
 	// Command to mark a notification as read from tree view
 	const markNotificationAsReadCommand = vscode.commands.registerCommand('DD.markNotificationAsRead', async (item: any) => {
@@ -107,6 +260,39 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	// Command to explain why a notification was routed (tree item context menu or command palette)
+	const explainNotificationCommand = vscode.commands.registerCommand('DD.explainNotification', async (item?: any) => {
+		try {
+			let notification: ProcessedNotification | undefined = item?.notification;
+			if (!notification) {
+				const recent = notificationManager.getProcessedNotifications().reverse().slice(0, 50);
+				if (recent.length === 0) {
+					vscode.window.showInformationMessage('No notifications have been routed yet');
+					return;
+				}
+				const selected = await vscode.window.showQuickPick(
+					recent.map(n => ({
+						label: `${n.input.source}: ${n.input.title}`,
+						description: n.action,
+						detail: `${new Date(n.timestamp).toLocaleTimeString()} • ${n.input.body}`,
+						notification: n,
+					})),
+					{ placeHolder: 'Select a notification to explain' }
+				);
+				notification = selected?.notification;
+			}
+			if (!notification) {
+				return;
+			}
+			await vscode.window.showInformationMessage(
+				`Why was "${notification.input.title}" routed to ${notification.action}?`,
+				{ modal: true, detail: explainRouting(notification).join('\n') }
+			);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to explain notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
 	// Create unified status bar item (shows focus mode or important count)
 	statusBarItem = vscode.window.createStatusBarItem(
 		vscode.StatusBarAlignment.Right,
@@ -119,6 +305,12 @@ export function activate(context: vscode.ExtensionContext) {
 	
 	context.subscriptions.push(statusBarItem);
 
+	// Mode picker, to the left of the main item
+	modeStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+	modeStatusBarItem.command = 'DD.selectMode';
+	updateModeStatusBarItem();
+	context.subscriptions.push(modeStatusBarItem);
+
 	// Start mock notification generator (every 5 seconds)
 	startMockNotificationGenerator();
 
@@ -135,7 +327,7 @@ export function activate(context: vscode.ExtensionContext) {
 					const items = missed.map((n, i) => ({
 						label: `$(warning) ${n.input.source}: ${n.input.title}`,
 						description: n.input.body,
-						detail: new Date(n.timestamp).toLocaleTimeString(),
+						detail: getImportantDetail(n),
 						index: i,
 					}));
 
@@ -171,7 +363,7 @@ export function activate(context: vscode.ExtensionContext) {
 					const items = important.map((n, i) => ({
 						label: `$(warning) ${n.input.source}: ${n.input.title}`,
 						description: n.input.body,
-						detail: new Date(n.timestamp).toLocaleTimeString(),
+						detail: getImportantDetail(n),
 						index: i,
 					}));
 
@@ -221,7 +413,7 @@ export function activate(context: vscode.ExtensionContext) {
 						items.push({
 							label: `$(warning) ${n.input.source}: ${n.input.title}`,
 							description: n.input.body,
-							detail: `Important • ${new Date(n.timestamp).toLocaleString()}`,
+							detail: `Important • ${new Date(n.timestamp).toLocaleString()}${n.escalation ? ` • Escalated: ${n.escalation.reason}` : ''}`,
 							source: n.input.source,
 							isImportant: true,
 							timestamp: n.timestamp,
@@ -308,7 +500,7 @@ export function activate(context: vscode.ExtensionContext) {
 			const enabled = notificationManager.toggleFocusMode();
 			if (enabled) {
 				// Don't clear important notifications - we want to show them when focus mode is turned off
-				vscode.window.showInformationMessage('Focus mode enabled - all notifications silenced (except @mentions)');
+				vscode.window.showInformationMessage('Focus mode enabled - only @mentions and Focus mode exceptions get through');
 			} else {
 				// Show missed notifications when disabling focus mode
 				const missed = notificationManager.getImportantNotifications();
@@ -316,7 +508,7 @@ export function activate(context: vscode.ExtensionContext) {
 					const items = missed.map((n, i) => ({
 						label: `$(warning) ${n.input.source}: ${n.input.title}`,
 						description: n.input.body,
-						detail: new Date(n.timestamp).toLocaleTimeString(),
+						detail: getImportantDetail(n),
 						index: i,
 					}));
 
@@ -402,6 +594,263 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		});
 
+	// Command to list held (deferred) notifications and show one now
+	const showDeferredCommand = vscode.commands.registerCommand('DD.showDeferredNotifications', async () => {
+		try {
+			const deferred = notificationManager.getDeferredNotifications();
+			if (deferred.length === 0) {
+				vscode.window.showInformationMessage('No deferred notifications');
+				return;
+			}
+			const selected = await vscode.window.showQuickPick(
+				deferred.map(entry => ({
+					label: `${entry.item.input.source}: ${entry.item.input.title}`,
+					description: entry.dueAt === undefined ? 'at the next break' : `at ${new Date(entry.dueAt).toLocaleTimeString()}`,
+					detail: entry.item.input.body,
+					entry,
+				})),
+				{ placeHolder: 'Select a deferred notification to show now' }
+			);
+			if (selected) {
+				notificationManager.releaseDeferred(selected.entry.id);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to show deferred notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	// Command to switch modes
+	const selectModeCommand = vscode.commands.registerCommand('DD.selectMode', async () => {
+		const current = notificationManager.getMode();
+		const items: Array<vscode.QuickPickItem & { mode?: ModeDefinition; action?: 'history' | 'settings' }> = notificationManager.getModes().map(mode => ({
+			label: `$(${mode.icon ?? 'symbol-event'}) ${mode.name}`,
+			description: mode.id === current.id ? 'current' : undefined,
+			detail: mode.description ?? describeModeBehavior(mode),
+			mode,
+		}));
+		items.push(
+			{ label: '', kind: vscode.QuickPickItemKind.Separator },
+			{ label: '$(history) Show Mode History', action: 'history' },
+			{ label: '$(gear) Edit Modes in Settings', action: 'settings' },
+		);
+		const selected = await vscode.window.showQuickPick(items, { placeHolder: `Notification mode (current: ${current.name})` });
+		if (selected?.mode) {
+			notificationManager.setMode(selected.mode.id, 'mode picker');
+		} else if (selected?.action === 'history') {
+			await vscode.commands.executeCommand('DD.showModeHistory');
+		} else if (selected?.action === 'settings') {
+			await vscode.commands.executeCommand('workbench.action.openSettings', 'dd.modes');
+		}
+	});
+
+	// Command to list recent mode transitions
+	const showModeHistoryCommand = vscode.commands.registerCommand('DD.showModeHistory', async () => {
+		const history = notificationManager.getModeHistory();
+		if (history.length === 0) {
+			vscode.window.showInformationMessage('The mode has not changed yet in this session');
+			return;
+		}
+		const nameOf = (id: string) => notificationManager.getModes().find(mode => mode.id === id)?.name ?? id;
+		await vscode.window.showQuickPick(
+			history.reverse().map(transition => ({
+				label: `${nameOf(transition.from)} → ${nameOf(transition.to)}`,
+				description: new Date(transition.at).toLocaleTimeString(),
+				detail: `via ${transition.reason}`,
+			})),
+			{ placeHolder: 'Mode transitions, newest first' }
+		);
+	});
+
+	// Commands to search and clear the notification history
+	const searchHistoryCommand = vscode.commands.registerCommand('DD.searchHistory', async () => {
+		try {
+			const text = await vscode.window.showInputBox({
+				prompt: 'Search notification history',
+				placeHolder: 'Text in the source, title or body (empty for everything)',
+			});
+			if (text === undefined) {
+				return;
+			}
+			const results = notificationManager.queryHistory({ text, limit: 200 });
+			if (results.length === 0) {
+				vscode.window.showInformationMessage(text ? `No notifications match "${text}"` : 'The notification history is empty');
+				return;
+			}
+			const selected = await vscode.window.showQuickPick(
+				results.map(n => ({
+					label: `${n.input.source}: ${n.input.title}`,
+					description: n.action,
+					detail: `${new Date(n.timestamp).toLocaleString()} • ${n.input.body}`,
+					notification: n,
+				})),
+				{ placeHolder: `${results.length} notification(s), newest first; select one to see why it was routed`, matchOnDetail: true }
+			);
+			if (selected) {
+				await vscode.commands.executeCommand('DD.explainNotification', { notification: selected.notification });
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to search notification history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	const clearHistoryCommand = vscode.commands.registerCommand('DD.clearHistory', async () => {
+		const choice = await vscode.window.showWarningMessage(
+			'Clear the notification history? Unread sidebar and important notifications are kept.',
+			{ modal: true },
+			'Clear History'
+		);
+		if (choice) {
+			notificationManager.clearHistory();
+		}
+	});
+
+	// Commands for timed Pomodoro focus sessions
+	const startPomodoroCommand = vscode.commands.registerCommand('DD.startPomodoro', () => {
+		const status = notificationManager.startPomodoro();
+		vscode.window.showInformationMessage(`Pomodoro session ${status.session} started: focus until ${new Date(status.endsAt).toLocaleTimeString()}`);
+	});
+
+	const stopPomodoroCommand = vscode.commands.registerCommand('DD.stopPomodoro', () => {
+		if (!notificationManager.getPomodoroStatus()) {
+			vscode.window.showInformationMessage('No Pomodoro session is running');
+			return;
+		}
+		notificationManager.stopPomodoro();
+	});
+
+	// Command to summarize the unread digest now
+	const showDigestSummaryCommand = vscode.commands.registerCommand('DD.showDigestSummary', () => {
+		const summary = summarizeDigest(notificationManager.getDigestedNotifications());
+		if (summary.total === 0) {
+			vscode.window.showInformationMessage('No unread notifications in the digest');
+			return;
+		}
+		DigestSummaryPanel.createOrShow(summary, Date.now());
+	});
+
+	const pomodoroCommand = vscode.commands.registerCommand('DD.pomodoro', async () => {
+		const status = notificationManager.getPomodoroStatus();
+		if (!status) {
+			await vscode.commands.executeCommand('DD.startPomodoro');
+			return;
+		}
+		const onBreak = status.phase !== 'work';
+		const choice = await vscode.window.showQuickPick(
+			[
+				{ label: onBreak ? '$(target) Skip break' : '$(coffee) Take break now', id: 'skip' },
+				{ label: '$(debug-restart) Restart session', id: 'restart' },
+				{ label: '$(debug-stop) Stop Pomodoro', id: 'stop' },
+			],
+			{ placeHolder: `${describePomodoro(status)}, ${formatRemaining(status.endsAt - Date.now())} left` }
+		);
+		if (choice?.id === 'skip') {
+			notificationManager.skipPomodoroPhase();
+		} else if (choice?.id === 'restart') {
+			notificationManager.startPomodoro();
+		} else if (choice?.id === 'stop') {
+			notificationManager.stopPomodoro();
+		}
+	});
+
+	// Command to snooze everything (or end/change an active snooze)
+	const snoozeCommand = vscode.commands.registerCommand('DD.snooze', async () => {
+		try {
+			const active = notificationManager.getGlobalSnooze();
+			if (active) {
+				const choice = await vscode.window.showQuickPick(
+					[
+						{ label: '$(bell) End snooze now', end: true },
+						{ label: '$(clock) Change end time...', end: false },
+					],
+					{ placeHolder: `Snoozed until ${new Date(active.until).toLocaleTimeString()} (${formatRemaining(active.until - Date.now())} left)` }
+				);
+				if (!choice) {
+					return;
+				}
+				if (choice.end) {
+					notificationManager.endSnooze();
+					return;
+				}
+			}
+			const until = await pickSnoozeEnd('Snooze all notifications for...', getGlobalSnoozePresets());
+			if (until === undefined) {
+				return;
+			}
+			notificationManager.snooze(until, active?.startedAt);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to snooze: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	// Command to end the global snooze early
+	const endSnoozeCommand = vscode.commands.registerCommand('DD.endSnooze', () => {
+		if (!notificationManager.endSnooze()) {
+			vscode.window.showInformationMessage('Notifications are not snoozed');
+		}
+	});
+
+	// Command to snooze a source (tree category context menu or command palette)
+	const snoozeSourceCommand = vscode.commands.registerCommand('DD.snoozeSource', async (item?: { label?: string }) => {
+		try {
+			const source = item?.label ?? await vscode.window.showQuickPick(getMockSources(), { placeHolder: 'Select a source to snooze' });
+			if (!source) {
+				return;
+			}
+			const until = await pickSnoozeEnd(`Snooze ${source} for...`, getSourceSnoozePresets());
+			if (until === undefined) {
+				return;
+			}
+			notificationManager.snoozeSource(source, until);
+			vscode.window.showInformationMessage(`${source} snoozed until ${new Date(until).toLocaleString()}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to snooze source: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	// Command to end a source's snooze early
+	const unsnoozeSourceCommand = vscode.commands.registerCommand('DD.unsnoozeSource', async (item?: { label?: string }) => {
+		try {
+			let source = item?.label;
+			if (!source) {
+				const snoozes = notificationManager.getSourceSnoozes();
+				if (snoozes.length === 0) {
+					vscode.window.showInformationMessage('No sources are snoozed');
+					return;
+				}
+				source = await vscode.window.showQuickPick(snoozes.map(s => s.source), { placeHolder: 'Select a source to unsnooze' });
+			}
+			if (source && notificationManager.unsnoozeSource(source)) {
+				vscode.window.showInformationMessage(`${source} is no longer snoozed`);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to unsnooze source: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	// Command to list snoozed sources with their remaining time
+	const showSnoozesCommand = vscode.commands.registerCommand('DD.showSnoozes', async () => {
+		try {
+			const snoozes = notificationManager.getSourceSnoozes();
+			if (snoozes.length === 0) {
+				vscode.window.showInformationMessage('No sources are snoozed');
+				return;
+			}
+			const selected = await vscode.window.showQuickPick(
+				snoozes.map(snooze => ({
+					label: snooze.source,
+					description: `${formatRemaining(snooze.until - Date.now())} left`,
+					detail: `Until ${new Date(snooze.until).toLocaleString()} • select to unsnooze`,
+				})),
+				{ placeHolder: 'Snoozed sources' }
+			);
+			if (selected && notificationManager.unsnoozeSource(selected.label)) {
+				vscode.window.showInformationMessage(`${selected.label} is no longer snoozed`);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to show snoozes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
 	// Command to set user name
 	const setUserNameCommand = vscode.commands.registerCommand('DD.setUserName', async () => {
 		try {
@@ -475,7 +924,22 @@ export function activate(context: vscode.ExtensionContext) {
 		refreshTreeCommand,
 		clearDigestedCommand,
 		clearImportantCommand,
+		showDeferredCommand,
+		selectModeCommand,
+		showModeHistoryCommand,
+		searchHistoryCommand,
+		showDigestSummaryCommand,
+		clearHistoryCommand,
+		startPomodoroCommand,
+		stopPomodoroCommand,
+		pomodoroCommand,
+		snoozeCommand,
+		endSnoozeCommand,
+		snoozeSourceCommand,
+		unsnoozeSourceCommand,
+		showSnoozesCommand,
 		markNotificationAsReadCommand,
+		explainNotificationCommand,
 		setUserNameCommand,
 		openChatPanelCommand,
 		sendChatMessageCommand,
@@ -504,6 +968,11 @@ function updateStatusBarItem(): void {
 	
 	const isAFKMode = notificationManager.isAFKMode();
 	const isFocusMode = notificationManager.isFocusMode();
+	const snooze = notificationManager.getGlobalSnooze();
+	const pomodoro = notificationManager.getPomodoroStatus();
+	statusBarItem.command = isAFKMode
+		? 'DD.toggleFocusOrShowImportant'
+		: snooze ? 'DD.snooze' : pomodoro ? 'DD.pomodoro' : 'DD.toggleFocusOrShowImportant';
 	
 	if (isAFKMode) {
 		// Show AFK mode
@@ -511,12 +980,26 @@ function updateStatusBarItem(): void {
 		statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
 		statusBarItem.color = new vscode.ThemeColor('statusBarItem.warningForeground');
 		statusBarItem.tooltip = 'AFK mode: All notifications queued. Click to disable and see missed notifications.';
+	} else if (snooze) {
+		// Show snooze countdown
+		statusBarItem.text = `$(bell-slash) ${formatCountdown(snooze.until - Date.now())}`;
+		statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+		statusBarItem.color = new vscode.ThemeColor('statusBarItem.warningForeground');
+		statusBarItem.tooltip = `Snoozed until ${new Date(snooze.until).toLocaleTimeString()}: notifications go to the sidebar (except @mentions). Click to end or change the snooze.`;
+	} else if (pomodoro) {
+		// Show Pomodoro countdown
+		const remaining = formatCountdown(pomodoro.endsAt - Date.now());
+		const onBreak = pomodoro.phase !== 'work';
+		statusBarItem.text = onBreak ? `$(coffee) Break ${remaining}` : `$(target) ${pomodoro.session} · ${remaining}`;
+		statusBarItem.backgroundColor = onBreak ? undefined : new vscode.ThemeColor('statusBarItem.prominentBackground');
+		statusBarItem.color = onBreak ? undefined : new vscode.ThemeColor('statusBarItem.prominentForeground');
+		statusBarItem.tooltip = `${describePomodoro(pomodoro)} until ${new Date(pomodoro.endsAt).toLocaleTimeString()} (${pomodoro.completed} completed). Click to skip, restart or stop.`;
 	} else if (isFocusMode) {
 		// Show focus mode
 		statusBarItem.text = '$(eye-closed) Focus';
 		statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.prominentBackground');
 		statusBarItem.color = new vscode.ThemeColor('statusBarItem.prominentForeground');
-		statusBarItem.tooltip = 'Focus mode: All notifications silenced (except @mentions). Click to disable and see missed notifications.';
+		statusBarItem.tooltip = 'Focus mode: Only @mentions and Focus mode exceptions get through. Click to disable and see missed notifications.';
 	} else {
 		// Show important count
 		const count = notificationManager.getImportantCount();
@@ -533,6 +1016,11 @@ function updateStatusBarItem(): void {
 		}
 	}
 	
+	const deferred = notificationManager.getDeferredNotifications().length;
+	if (deferred > 0) {
+		statusBarItem.tooltip = `${statusBarItem.tooltip}\n${deferred} deferred notification${deferred === 1 ? '' : 's'} waiting`;
+	}
+	
 	statusBarItem.show();
 }
 
@@ -542,4 +1030,251 @@ export function deactivate() {
 		clearInterval(mockNotificationInterval);
 		mockNotificationInterval = undefined;
 	}
+	if (snoozeRefreshInterval) {
+		clearInterval(snoozeRefreshInterval);
+		snoozeRefreshInterval = undefined;
+	}
+	if (countdownInterval) {
+		clearInterval(countdownInterval);
+		countdownInterval = undefined;
+	}
+	notificationManager?.dispose();
+	// Write the latest history before the window goes away
+	return historyStore?.flush();
+}
+
+/** Load `dd.modes` into the manager, warning about modes that could not be used */
+function applyModes(): void {
+	const { modes, errors } = loadModes();
+	notificationManager.setModes(modes);
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Some modes in dd.modes were skipped: ${errors.join(' | ')}`);
+	}
+}
+
+/** Fallback picker description: what a mode does with unmatched notifications and mentions */
+function describeModeBehavior(mode: ModeDefinition): string {
+	const rules = mode.rules ? `${mode.rules.length} rule${mode.rules.length === 1 ? '' : 's'}` : 'main rules';
+	return `${rules}; otherwise ${mode.defaultAction}; @mentions: ${mode.mentions}`;
+}
+
+/** Show the current mode in the mode picker item */
+function updateModeStatusBarItem(): void {
+	if (!modeStatusBarItem || !notificationManager) {
+		return;
+	}
+	const mode = notificationManager.getMode();
+	modeStatusBarItem.text = `$(${mode.icon ?? 'symbol-event'}) ${mode.name}`;
+	modeStatusBarItem.tooltip = `Notification mode: ${mode.name}${mode.description ? ` (${mode.description})` : ''}. Click to switch modes.`;
+	modeStatusBarItem.backgroundColor = mode.id === NORMAL_MODE_ID ? undefined : new vscode.ThemeColor('statusBarItem.prominentBackground');
+	modeStatusBarItem.show();
+}
+
+/** Tick the status bar every second while a snooze or Pomodoro countdown is showing */
+function updateCountdown(): void {
+	const counting = notificationManager.getGlobalSnooze() !== undefined || notificationManager.getPomodoroStatus() !== undefined;
+	if (counting && !countdownInterval) {
+		countdownInterval = setInterval(updateStatusBarItem, 1000);
+	} else if (!counting && countdownInterval) {
+		clearInterval(countdownInterval);
+		countdownInterval = undefined;
+	}
+}
+
+/** Read `dd.mentions.*` (aliases, team handles, @here/@channel/@all treatment, blocked senders) */
+function loadMentionSettings(): MentionSettings {
+	const config = vscode.workspace.getConfiguration('dd.mentions');
+	return {
+		aliases: config.get<string[]>('aliases', []),
+		teams: config.get<string[]>('teams', []),
+		broadcast: config.get<MentionSettings['broadcast']>('broadcast', 'ignore'),
+		blockedSenders: config.get<string[]>('blockedSenders', []),
+	};
+}
+
+/** Read `dd.pomodoro.*`, falling back to the defaults when a value is invalid */
+function loadPomodoroSettings(): PomodoroSettings {
+	const config = vscode.workspace.getConfiguration('dd.pomodoro');
+	const settings: PomodoroSettings = {
+		workMinutes: config.get<number>('workMinutes', DEFAULT_POMODORO.workMinutes),
+		breakMinutes: config.get<number>('breakMinutes', DEFAULT_POMODORO.breakMinutes),
+		longBreakMinutes: config.get<number>('longBreakMinutes', DEFAULT_POMODORO.longBreakMinutes),
+		sessionsBeforeLongBreak: config.get<number>('sessionsBeforeLongBreak', DEFAULT_POMODORO.sessionsBeforeLongBreak),
+		autoResume: config.get<boolean>('autoResume', DEFAULT_POMODORO.autoResume),
+	};
+	const errors = validatePomodoroSettings(settings);
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Invalid Pomodoro settings (using defaults): ${errors.join('; ')}`);
+		return DEFAULT_POMODORO;
+	}
+	return settings;
+}
+
+/** Read `dd.history.*`, falling back to the defaults when a value is invalid */
+function loadHistoryRetention(): HistoryRetention {
+	const config = vscode.workspace.getConfiguration('dd.history');
+	const retention: HistoryRetention = {
+		maxEntries: config.get<number>('maxEntries', DEFAULT_RETENTION.maxEntries),
+		maxAgeDays: config.get<number>('maxAgeDays', DEFAULT_RETENTION.maxAgeDays),
+	};
+	const errors = validateRetention(retention);
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Invalid history settings (using defaults): ${errors.join('; ')}`);
+		return DEFAULT_RETENTION;
+	}
+	return retention;
+}
+
+/** History storage in a JSON file; its folder is created on the first write */
+function createFileStorage(uri: vscode.Uri): HistoryStorage {
+	return {
+		read: async () => {
+			try {
+				return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+			} catch (error) {
+				if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+					return undefined;
+				}
+				throw error;
+			}
+		},
+		write: async (data) => {
+			await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+			await vscode.workspace.fs.writeFile(uri, Buffer.from(data, 'utf8'));
+		},
+	};
+}
+
+/** "Pomodoro session 2" or "Break after session 2" */
+function describePomodoro(status: PomodoroStatus): string {
+	if (status.phase === 'work') {
+		return `Pomodoro session ${status.session}`;
+	}
+	return `${status.phase === 'longBreak' ? 'Long break' : 'Break'} after session ${status.session}`;
+}
+
+/** At a Pomodoro break, deliver what was digested during the work phase as one grouped message */
+function showBreakSummary(status: PomodoroStatus, summary: DigestSummary): void {
+	if (!vscode.workspace.getConfiguration('dd.pomodoro').get<boolean>('deliverDigestAtBreak', true)) {
+		return;
+	}
+	const minutes = Math.round((status.endsAt - status.startedAt) / 60_000);
+	if (summary.total === 0) {
+		vscode.window.showInformationMessage(`Break time (${minutes} min). Nothing was digested during session ${status.session}.`);
+		return;
+	}
+	vscode.window.showInformationMessage(
+		`Break time (${minutes} min). ${summary.total} notification${summary.total === 1 ? '' : 's'} digested while you focused: ${formatDigestSummary(summary)}`,
+		'Show Notifications',
+		'Mark All Read'
+	).then(choice => {
+		if (choice === 'Show Notifications') {
+			vscode.commands.executeCommand('workbench.view.extension.ddNotifications');
+		} else if (choice === 'Mark All Read') {
+			notificationManager.clearDigested();
+		}
+	});
+}
+
+/** Announce a scheduled digest; the summary view lists counts per source and the top items */
+function showDigestDelivery(summary: DigestSummary, deliveredAt: number): void {
+	vscode.window.showInformationMessage(
+		`Digest: ${summary.total} notification${summary.total === 1 ? '' : 's'} since the last one: ${formatDigestSummary(summary)}`,
+		'Open Summary',
+		'Mark All Read'
+	).then(choice => {
+		if (choice === 'Open Summary') {
+			DigestSummaryPanel.createOrShow(summary, deliveredAt);
+		} else if (choice === 'Mark All Read') {
+			notificationManager.clearDigested();
+		}
+	});
+}
+
+/** Read `dd.digestSchedule.*`, falling back to no scheduled digests when a value is invalid */
+function loadDigestSchedule(): DigestSchedule {
+	const config = vscode.workspace.getConfiguration('dd.digestSchedule');
+	const schedule: DigestSchedule = {
+		times: config.get<string[]>('times', DEFAULT_DIGEST_SCHEDULE.times),
+		intervalMinutes: config.get<number>('intervalMinutes', DEFAULT_DIGEST_SCHEDULE.intervalMinutes),
+	};
+	const errors = validateDigestSchedule(schedule);
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Invalid digest schedule (scheduled digests are off): ${errors.join('; ')}`);
+		return DEFAULT_DIGEST_SCHEDULE;
+	}
+	return schedule;
+}
+
+/** A snooze length offered in the picker: a number of minutes or a fixed end time */
+type SnoozePreset = vscode.QuickPickItem & { minutes?: number; until?: number };
+
+/** Presets for snoozing one source */
+function getSourceSnoozePresets(): SnoozePreset[] {
+	const tomorrow = new Date();
+	tomorrow.setDate(tomorrow.getDate() + 1);
+	tomorrow.setHours(9, 0, 0, 0);
+	return [
+		{ label: '30 minutes', minutes: 30 },
+		{ label: '1 hour', minutes: 60 },
+		{ label: '2 hours', minutes: 120 },
+		{ label: '4 hours', minutes: 240 },
+		{ label: 'Until tomorrow', description: tomorrow.toLocaleString(), until: tomorrow.getTime() },
+	];
+}
+
+/** Presets for snoozing everything */
+function getGlobalSnoozePresets(): SnoozePreset[] {
+	const endOfDay = new Date();
+	endOfDay.setHours(24, 0, 0, 0);
+	return [
+		{ label: '15 minutes', minutes: 15 },
+		{ label: '1 hour', minutes: 60 },
+		{ label: 'Until end of day', description: endOfDay.toLocaleString(), until: endOfDay.getTime() },
+	];
+}
+
+/** Tell the user a snooze ended and what arrived during it */
+function showSnoozeSummary(summary: SnoozeSummary): void {
+	if (summary.total === 0) {
+		vscode.window.showInformationMessage('Snooze ended. Nothing arrived while you were snoozed.');
+		return;
+	}
+	const sources = summary.bySource.map(entry => `${entry.source} (${entry.count})`).join(', ');
+	vscode.window.showInformationMessage(
+		`Snooze ended. ${summary.total} notification${summary.total === 1 ? '' : 's'} arrived: ${sources}`,
+		'Show Notifications'
+	).then(choice => {
+		if (choice) {
+			vscode.commands.executeCommand('workbench.view.extension.ddNotifications');
+		}
+	});
+}
+
+/** Ask how long to snooze for; returns the end time (epoch ms), or undefined if cancelled. */
+async function pickSnoozeEnd(placeHolder: string, presets: SnoozePreset[]): Promise<number | undefined> {
+	const selected = await vscode.window.showQuickPick([...presets, { label: 'Custom...' }], { placeHolder });
+	if (!selected) {
+		return undefined;
+	}
+	if (selected.until !== undefined) {
+		return selected.until;
+	}
+	if (selected.minutes !== undefined) {
+		return Date.now() + selected.minutes * 60_000;
+	}
+	const input = await vscode.window.showInputBox({
+		prompt: 'Snooze for how many minutes?',
+		validateInput: value => Number(value) > 0 ? undefined : 'Enter a number of minutes greater than 0',
+	});
+	return input ? Date.now() + Number(input) * 60_000 : undefined;
+}
+
+/** Time of an important notification, plus why it was escalated if it was. */
+function getImportantDetail(notification: ProcessedNotification): string {
+	const time = new Date(notification.timestamp).toLocaleTimeString();
+	if (notification.resurfaced) {
+		return `${time} • Deferred`;
+	}
+	return notification.escalation ? `${time} • Escalated: ${notification.escalation.reason}` : time;
 }
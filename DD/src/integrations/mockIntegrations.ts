@@ -3,14 +3,14 @@
  * @module mockIntegrations
  */
 
-import type { NotificationInput } from '../core/types.js';
+import type { NotificationInput, NotificationMetadata, Severity } from '../core/types.js';
 
 /**
  * Mock notification templates for different sources
  */
 export interface MockNotificationTemplate {
 	source: string;
-	templates: Array<{ title: string; body: string }>;
+	templates: Array<{ title: string; body: string; severity: Severity; metadata?: NotificationMetadata }>;
 }
 
 /**
@@ -20,70 +20,70 @@ export const mockIntegrations: MockNotificationTemplate[] = [
 	{
 		source: 'Git',
 		templates: [
-			{ title: 'Git: Pull completed', body: 'Successfully pulled 3 commits from origin/main' },
-			{ title: 'Git: Push completed', body: 'Pushed 2 commits to origin/main' },
-			{ title: 'Git: Branch created', body: 'Created branch feature/new-feature' },
-			{ title: 'Git: Merge conflict', body: 'Merge conflict in src/extension.ts' },
-			{ title: 'Git: Repository initialized', body: 'Initialized git repository' },
+			{ title: 'Git: Pull completed', body: 'Successfully pulled 3 commits from origin/main', severity: 'info', metadata: { branch: 'main' } },
+			{ title: 'Git: Push completed', body: 'Pushed 2 commits to origin/main', severity: 'info', metadata: { branch: 'main' } },
+			{ title: 'Git: Branch created', body: 'Created branch feature/new-feature', severity: 'info', metadata: { branch: 'feature/new-feature' } },
+			{ title: 'Git: Merge conflict', body: 'Merge conflict in src/extension.ts', severity: 'error', metadata: { branch: 'main', fileUri: 'file:///workspace/src/extension.ts' } },
+			{ title: 'Git: Repository initialized', body: 'Initialized git repository', severity: 'info' },
 		],
 	},
 	{
 		source: 'Extension',
 		templates: [
-			{ title: 'Extension installed', body: 'ESLint extension has been installed' },
-			{ title: 'Extension update available', body: 'Update available for Python extension' },
-			{ title: 'Extension recommendation', body: 'We recommend installing the Prettier extension' },
-			{ title: 'Extension error', body: 'Extension "some-extension" failed to activate' },
+			{ title: 'Extension installed', body: 'ESLint extension has been installed', severity: 'info' },
+			{ title: 'Extension update available', body: 'Update available for Python extension', severity: 'info' },
+			{ title: 'Extension recommendation', body: 'We recommend installing the Prettier extension', severity: 'info' },
+			{ title: 'Extension error', body: 'Extension "some-extension" failed to activate', severity: 'error' },
 		],
 	},
 	{
 		source: 'Build',
 		templates: [
-			{ title: 'Build succeeded', body: 'Build completed successfully in 2.3s' },
-			{ title: 'Build failed', body: 'Build failed: 3 errors, 2 warnings' },
-			{ title: 'TypeScript compilation', body: 'Compiled 15 files with no errors' },
-			{ title: 'Lint errors found', body: 'Found 5 linting errors in your code' },
+			{ title: 'Build succeeded', body: 'Build completed successfully in 2.3s', severity: 'info', metadata: { tags: ['ci'] } },
+			{ title: 'Build failed', body: 'Build failed: 3 errors, 2 warnings', severity: 'error', metadata: { tags: ['ci'] } },
+			{ title: 'TypeScript compilation', body: 'Compiled 15 files with no errors', severity: 'info' },
+			{ title: 'Lint errors found', body: 'Found 5 linting errors in your code', severity: 'warning' },
 		],
 	},
 	{
 		source: 'Debug',
 		templates: [
-			{ title: 'Breakpoint hit', body: 'Breakpoint hit at src/extension.ts:42' },
-			{ title: 'Debug session started', body: 'Debug session started for extension' },
-			{ title: 'Debug session ended', body: 'Debug session ended' },
-			{ title: 'Exception thrown', body: 'Uncaught exception: TypeError in extension.ts' },
+			{ title: 'Breakpoint hit', body: 'Breakpoint hit at src/extension.ts:42', severity: 'info', metadata: { fileUri: 'file:///workspace/src/extension.ts' } },
+			{ title: 'Debug session started', body: 'Debug session started for extension', severity: 'info' },
+			{ title: 'Debug session ended', body: 'Debug session ended', severity: 'info' },
+			{ title: 'Exception thrown', body: 'Uncaught exception: TypeError in extension.ts', severity: 'critical' },
 		],
 	},
 	{
 		source: 'Test',
 		templates: [
-			{ title: 'Tests passed', body: 'All 12 tests passed in 0.5s' },
-			{ title: 'Tests failed', body: '2 of 12 tests failed' },
-			{ title: 'Test coverage', body: 'Test coverage: 85% (target: 80%)' },
+			{ title: 'Tests passed', body: 'All 12 tests passed in 0.5s', severity: 'info', metadata: { tags: ['ci'] } },
+			{ title: 'Tests failed', body: '2 of 12 tests failed', severity: 'error', metadata: { tags: ['ci', 'flaky'] } },
+			{ title: 'Test coverage', body: 'Test coverage: 85% (target: 80%)', severity: 'info' },
 		],
 	},
 	{
 		source: 'Language Server',
 		templates: [
-			{ title: 'Language server started', body: 'TypeScript language server initialized' },
-			{ title: 'Code actions available', body: '5 quick fixes available' },
-			{ title: 'Diagnostics updated', body: 'Updated diagnostics for 8 files' },
+			{ title: 'Language server started', body: 'TypeScript language server initialized', severity: 'info' },
+			{ title: 'Code actions available', body: '5 quick fixes available', severity: 'info' },
+			{ title: 'Diagnostics updated', body: 'Updated diagnostics for 8 files', severity: 'info' },
 		],
 	},
 	{
 		source: 'File System',
 		templates: [
-			{ title: 'File saved', body: 'Saved src/extension.ts' },
-			{ title: 'File deleted', body: 'Deleted old-file.ts' },
-			{ title: 'File watcher error', body: 'File watcher stopped working' },
+			{ title: 'File saved', body: 'Saved src/extension.ts', severity: 'info', metadata: { fileUri: 'file:///workspace/src/extension.ts' } },
+			{ title: 'File deleted', body: 'Deleted old-file.ts', severity: 'info', metadata: { fileUri: 'file:///workspace/old-file.ts' } },
+			{ title: 'File watcher error', body: 'File watcher stopped working', severity: 'warning' },
 		],
 	},
 	{
 		source: 'Chat',
 		templates: [
-			{ title: 'Message received', body: '@user please review the PR' },
-			{ title: 'Team mention', body: 'Hey @user, can you help with this?' },
-			{ title: 'Direct message', body: '@user urgent: build is failing' },
+			{ title: 'Message received', body: '@user please review the PR', severity: 'info', metadata: { sender: 'alice', channel: '#general' } },
+			{ title: 'Team mention', body: 'Hey @user, can you help with this?', severity: 'info', metadata: { sender: 'bob', channel: '#frontend' } },
+			{ title: 'Direct message', body: '@user urgent: build is failing', severity: 'warning', metadata: { sender: 'carol' } },
 		],
 	},
 ];
@@ -99,6 +99,8 @@ export function generateMockNotification(): NotificationInput {
 		source: integration.source,
 		title: template.title,
 		body: template.body,
+		severity: template.severity,
+		metadata: template.metadata,
 	};
 }
 
@@ -116,6 +118,8 @@ export function generateMockNotificationFromSource(source: string): Notification
 		source: integration.source,
 		title: template.title,
 		body: template.body,
+		severity: template.severity,
+		metadata: template.metadata,
 	};
 }
 
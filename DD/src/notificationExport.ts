@@ -0,0 +1,159 @@
+/**
+ * The "Export Notifications..." command: writes the digested, important or full history
+ * to Markdown, JSON or CSV (see core/export).
+ * @module notificationExport
+ */
+
+import * as vscode from 'vscode';
+import type { NotificationManager, ProcessedNotification } from './notificationManager.js';
+import { EXPORT_EXTENSIONS, exportNotifications, queryHistory, type Action, type ExportFormat } from './core/index.js';
+
+/** Which notifications are exported */
+export type ExportScope = 'digested' | 'important' | 'history';
+
+/**
+ * Arguments of `DD.exportNotifications` (e.g. from a keybinding or another extension);
+ * anything missing is asked for
+ */
+export interface ExportCommandOptions {
+	scope?: ExportScope;
+	format?: ExportFormat;
+	/** Routed at or after this time (epoch ms) */
+	since?: number;
+	/** Routed before this time (epoch ms) */
+	until?: number;
+	/** Only these actions (history only; all when absent) */
+	actions?: Action[];
+	/** File to write; a save dialog is shown when absent */
+	uri?: vscode.Uri | string;
+}
+
+const SCOPES: Array<vscode.QuickPickItem & { scope: ExportScope }> = [
+	{ label: 'Digested', description: 'Unread notifications in the sidebar', scope: 'digested' },
+	{ label: 'Important', description: 'Unread notifications that were shown', scope: 'important' },
+	{ label: 'Full history', description: 'Every routed notification still in the history', scope: 'history' },
+];
+
+const FORMATS: Array<vscode.QuickPickItem & { format: ExportFormat }> = [
+	{ label: 'Markdown', description: 'Grouped by source, for notes', format: 'markdown' },
+	{ label: 'JSON', description: 'One object per notification with its routing details', format: 'json' },
+	{ label: 'CSV', description: 'One row per notification, for spreadsheets and scripts', format: 'csv' },
+];
+
+const ACTIONS: Action[] = ['allow', 'digest', 'suppress', 'defer'];
+
+const TITLES: Record<ExportScope, string> = {
+	digested: 'Digested notifications',
+	important: 'Important notifications',
+	history: 'Notification history',
+};
+
+/** Time ranges offered in the picker: a start time, or none for all time */
+function getTimeRanges(now: number): Array<vscode.QuickPickItem & { since?: number }> {
+	const startOfDay = new Date(now);
+	startOfDay.setHours(0, 0, 0, 0);
+	return [
+		{ label: 'All time' },
+		{ label: 'Last hour', since: now - 60 * 60_000 },
+		{ label: 'Today', description: 'Since midnight', since: startOfDay.getTime() },
+		{ label: 'Last 24 hours', since: now - 24 * 60 * 60_000 },
+		{ label: 'Last 7 days', since: now - 7 * 24 * 60 * 60_000 },
+	];
+}
+
+/** The notifications in `scope`, oldest first */
+function getNotifications(notificationManager: NotificationManager, scope: ExportScope): ProcessedNotification[] {
+	switch (scope) {
+		case 'digested':
+			return notificationManager.getDigestedNotifications();
+		case 'important':
+			return notificationManager.getImportantNotifications();
+		case 'history':
+			return notificationManager.getProcessedNotifications();
+	}
+}
+
+/**
+ * Ask for whatever `options` leaves open; undefined when the user cancels
+ */
+async function completeOptions(options: ExportCommandOptions): Promise<Required<Pick<ExportCommandOptions, 'scope' | 'format'>> & ExportCommandOptions | undefined> {
+	const scope = options.scope ?? (await vscode.window.showQuickPick(SCOPES, { placeHolder: 'Export which notifications?' }))?.scope;
+	if (!scope) {
+		return undefined;
+	}
+	let { since, actions } = options;
+	if (since === undefined && options.until === undefined) {
+		const range = await vscode.window.showQuickPick(getTimeRanges(Date.now()), { placeHolder: 'From which time range?' });
+		if (!range) {
+			return undefined;
+		}
+		since = range.since;
+	}
+	if (scope === 'history' && !actions) {
+		const picked = await vscode.window.showQuickPick(
+			ACTIONS.map(action => ({ label: action, picked: true })),
+			{ placeHolder: 'Include which actions?', canPickMany: true }
+		);
+		if (!picked || picked.length === 0) {
+			return undefined;
+		}
+		actions = picked.map(item => item.label as Action);
+	}
+	const format = options.format ?? (await vscode.window.showQuickPick(FORMATS, { placeHolder: 'Export as' }))?.format;
+	if (!format) {
+		return undefined;
+	}
+	return { ...options, scope, format, since, actions };
+}
+
+/**
+ * Register the `DD.exportNotifications` command; it resolves to the written file's URI
+ */
+export function registerExportCommand(context: vscode.ExtensionContext, notificationManager: NotificationManager): void {
+	const exportNotificationsCommand = vscode.commands.registerCommand('DD.exportNotifications', async (options: ExportCommandOptions = {}) => {
+		try {
+			const completed = await completeOptions(options);
+			if (!completed) {
+				return;
+			}
+			const { scope, format, since, until, actions } = completed;
+			const entries = queryHistory(getNotifications(notificationManager, scope), { since, until, action: actions }).reverse();
+			const content = exportNotifications(entries, format, {
+				title: TITLES[scope],
+				formatTime: timestamp => new Date(timestamp).toLocaleString(),
+			});
+
+			let uri = typeof completed.uri === 'string' ? vscode.Uri.file(completed.uri) : completed.uri;
+			if (!uri) {
+				const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+				const fileName = `notifications-${scope}-${new Date().toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`;
+				uri = await vscode.window.showSaveDialog({
+					defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+					saveLabel: 'Export',
+				});
+				if (!uri) {
+					return;
+				}
+			}
+			await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+
+			const written = uri;
+			vscode.window.showInformationMessage(
+				`Exported ${entries.length} notification${entries.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(written)}`,
+				'Open',
+				'Copy to Clipboard'
+			).then(choice => {
+				if (choice === 'Open') {
+					vscode.window.showTextDocument(written);
+				} else if (choice === 'Copy to Clipboard') {
+					vscode.env.clipboard.writeText(content);
+				}
+			});
+			return written;
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to export notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	context.subscriptions.push(exportNotificationsCommand);
+}
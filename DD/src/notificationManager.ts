@@ -4,9 +4,14 @@
  */
 
 import * as vscode from 'vscode';
-import { route, type Action, type NotificationInput, type Rule, type RouterState } from './core/index.js';
+import { routeWithTrace, formatRouteTrace, simulateRules, snoozeSource, unsnoozeSource, getSourceSnoozes, summarizeSnooze, summarizeDigest, DigestScheduler, DeferQueue, PomodoroTimer, DEFAULT_POMODORO, ModeMachine, createMentionMatcher, NORMAL_MODE_ID, FOCUS_MODE_ID, AFK_MODE_ID, DEFAULT_DEFER, systemTimer, summarizeRouteTrace, applyRetention, createHistorySnapshot, queryHistory, DEFAULT_RETENTION, coalesceInto, getEscalationKey, getSeverity, EscalationTracker, ThrottleTracker, type Action, type Clock, type DeferredEntry, type DigestSchedule, type DigestSummary, type HistoryQuery, type HistoryRetention, type HistorySnapshot, type MentionConfig, type MentionMatch, type MentionMatcher, type ModeDefinition, type ModeTransition, type NotificationInput, type NotificationMetadata, type PatternMatch, type PomodoroPhase, type PomodoroSettings, type PomodoroStatus, type Rule, type RuleThrottle, type RouterState, type RouteTrace, type Severity, type SimulationResult, type GlobalSnooze, type SnoozeSummary, type SourceSnooze, type ThrottleUsage, type Timer } from './core/index.js';
 import { generateMockNotification, generateMockNotificationFromSource } from './integrations/mockIntegrations.js';
 
+/**
+ * Manager-level short-circuit that decided the action before (or instead of) the rules
+ */
+export type RoutingOverride = 'mention';
+
 /**
  * A processed notification with its routing result
  */
@@ -14,6 +19,97 @@ export interface ProcessedNotification {
 	input: NotificationInput;
 	action: Action;
 	timestamp: number;
+	captures?: PatternMatch; // Capture groups of the matched rule's pattern, if any
+	trace?: RouteTrace; // What the rules decided (even when an override won)
+	override?: RoutingOverride; // Set when the mode's mention policy replaced the rules' result
+	mention?: MentionMatch; // The mention that triggered the override
+	mode?: string; // Id of the mode it was routed in
+	throttled?: boolean; // Set when the matched rule's throttle replaced its action
+	escalation?: { reason: string; count: number }; // Set when repeated digests were promoted to allow
+	deferredUntil?: number | 'break'; // Set on deferred notifications: when they are due, or 'break' for the next break
+	resurfaced?: boolean; // Set on the allow entry created when a deferred notification came due
+	count?: number; // Number of coalesced occurrences (absent = 1)
+	lastSeen?: number; // Timestamp of the latest coalesced occurrence (timestamp is the first)
+	occurrences?: ProcessedNotification[]; // Individual coalesced occurrences within the history retention, oldest first
+}
+
+/**
+ * A held notification as persisted between sessions: its input and what routed it
+ */
+export type StoredDeferredItem = Pick<ProcessedNotification, 'input' | 'trace' | 'captures' | 'mode'>;
+
+/**
+ * Explain why a notification was routed the way it was, one line per step
+ */
+export function explainRouting(processed: ProcessedNotification): string[] {
+	const lines: string[] = [];
+	if (processed.override === 'mention') {
+		const who = describeMention(processed.mention);
+		lines.push(processed.action === 'allow'
+			? `Result: allow (${who}; mentions are always shown in this mode)`
+			: `Result: ${processed.action} (${who}; this mode sends mentions to the sidebar)`);
+	}
+	if (processed.mode && processed.mode !== NORMAL_MODE_ID) {
+		lines.push(`Mode: ${processed.mode} (routed with that mode's rules)`);
+	}
+	if (!processed.trace) {
+		return lines;
+	}
+	if (processed.deferredUntil !== undefined) {
+		const until = processed.deferredUntil === 'break' ? 'the next break' : new Date(processed.deferredUntil).toLocaleTimeString();
+		lines.push(processed.resurfaced
+			? `Result: allow (deferred until ${until}, then shown)`
+			: `Result: defer (held until ${until}, then shown)`);
+		return lines.concat(formatRouteTrace(processed.trace).slice(1));
+	}
+	if (processed.escalation) {
+		lines.push(`Result: allow (escalated: ${processed.escalation.reason})`);
+		return lines.concat(formatRouteTrace(processed.trace).slice(1));
+	}
+	if (processed.throttled) {
+		const throttle = processed.trace.matchedRule?.throttle;
+		// Traces restored from saved history no longer carry the rule's throttle
+		const limit = throttle ? `the rule allows at most ${throttle.limit} per ${throttle.windowMinutes} min` : 'the rule\'s limit was reached';
+		lines.push(`Result: ${processed.action} (throttled: ${limit})`);
+		return lines.concat(formatRouteTrace(processed.trace).slice(1));
+	}
+	if (processed.override) {
+		lines.push(`Without the override, rules would have routed it to: ${summarizeRouteTrace(processed.trace)}`);
+		return lines.concat(formatRouteTrace(processed.trace).slice(1));
+	}
+	return lines.concat(formatRouteTrace(processed.trace));
+}
+
+/**
+ * "you were mentioned (@ann)", "your team was mentioned (@frontend)" or "@here was used"
+ */
+function describeMention(mention: MentionMatch | undefined): string {
+	switch (mention?.kind) {
+		case 'team':
+			return `your team was mentioned (${mention.handle})`;
+		case 'broadcast':
+			return `${mention.handle} was used`;
+		case 'direct':
+			return `you were mentioned (${mention.handle})`;
+		default:
+			return 'you were @mentioned';
+	}
+}
+
+/**
+ * Mention settings other than the user name
+ */
+export type MentionSettings = Omit<MentionConfig, 'names'> & { aliases: string[] };
+
+/** Longest delay setTimeout accepts; longer snoozes re-arm the timer when it fires */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Key under which a rule's throttle counters are tracked: its configuration index and title, so
+ * counters survive re-applying rules and rules sharing a title keep their own
+ */
+function getThrottleKey(configIndex: number | undefined, title: string): string {
+	return `${configIndex ?? -1}:${title}`;
 }
 
 /**
@@ -24,14 +120,46 @@ export class NotificationManager {
 	private digestedNotifications: ProcessedNotification[] = [];
 	private importantNotifications: ProcessedNotification[] = []; // "allow" action notifications
 	private rules: Rule[] = [];
-	private state: RouterState = { focusMode: false, afkMode: false };
+	private state: RouterState = { focusMode: false };
 	private userName: string = '';
+	private mentionSettings: MentionSettings = { aliases: [], teams: [], broadcast: 'ignore', blockedSenders: [] };
+	private findMention: MentionMatcher = () => undefined;
 	private onUnreadCountChanged?: (count: number) => void;
 	private onImportantCountChanged?: (count: number) => void;
-	private onFocusModeChanged?: (enabled: boolean) => void;
-	private onAFKModeChanged?: (enabled: boolean) => void;
+	private onModeChanged?: (mode: ModeDefinition, transition: ModeTransition) => void;
+	private onDeferredChanged?: (count: number) => void;
+	private onSnoozesChanged?: (snoozes: SourceSnooze[]) => void;
+	private onGlobalSnoozeChanged?: (snooze: GlobalSnooze | undefined, summary?: SnoozeSummary) => void;
+	private onHistoryChanged?: () => void;
+	private historyRetention: HistoryRetention = DEFAULT_RETENTION;
+	private readonly getNow: Clock;
+	private readonly throttleTracker: ThrottleTracker;
+	private readonly escalationTracker: EscalationTracker;
+	private readonly deferQueue: DeferQueue<ProcessedNotification>;
+	private readonly timer: Timer;
+	private snoozeTimer: unknown;
+	private globalSnooze?: GlobalSnooze;
+	private globalSnoozeTimer: unknown;
+	private readonly pomodoro: PomodoroTimer;
+	private onPomodoroChanged?: (status: PomodoroStatus | undefined, summary?: DigestSummary) => void;
+	private readonly modes: ModeMachine;
+	private modeBeforePomodoro = NORMAL_MODE_ID;
+	private pomodoroWorkStartedAt = 0;
+	private readonly digestScheduler: DigestScheduler;
+	private lastDigestDeliveryAt: number;
+	private onDigestDelivered?: (summary: DigestSummary, deliveredAt: number) => void;
+	private coalesceWindowMs: number = 5 * 60 * 1000;
 
-	constructor() {
+	constructor(getNow: Clock = () => Date.now(), timer: Timer = systemTimer) {
+		this.getNow = getNow;
+		this.timer = timer;
+		this.throttleTracker = new ThrottleTracker(getNow);
+		this.escalationTracker = new EscalationTracker(getNow);
+		this.deferQueue = new DeferQueue(entries => this.resurface(entries), getNow, timer);
+		this.modes = new ModeMachine([], (mode, transition) => this.modeChanged(mode, transition), getNow);
+		this.pomodoro = new PomodoroTimer((status, ended) => this.pomodoroChanged(status, ended), DEFAULT_POMODORO, getNow, timer);
+		this.lastDigestDeliveryAt = getNow();
+		this.digestScheduler = new DigestScheduler(at => this.deliverDigest(at), undefined, getNow, timer);
 		// Default rules
 		this.rules = [
 			{ source: 'Git', contains: 'conflict', action: 'suppress' },
@@ -55,18 +183,12 @@ export class NotificationManager {
 		this.onImportantCountChanged = callback;
 	}
 
-	/**
-	 * Set callback for when focus mode changes
-	 */
-	setFocusModeCallback(callback: (enabled: boolean) => void): void {
-		this.onFocusModeChanged = callback;
-	}
-
 	/**
 	 * Set user name for @mention detection
 	 */
 	setUserName(name: string): void {
 		this.userName = name;
+		this.updateMentionMatcher();
 	}
 
 	/**
@@ -76,113 +198,202 @@ export class NotificationManager {
 		return this.userName;
 	}
 
+	/**
+	 * Switch to the mode with the given id
+	 */
+	setMode(id: string, reason: string = 'command'): void {
+		this.modes.enter(id, reason);
+	}
+
+	/**
+	 * Leave the current mode for the one it was entered from
+	 */
+	exitMode(reason: string = 'command'): void {
+		this.modes.exit(reason);
+	}
+
+	/**
+	 * Get the current mode
+	 */
+	getMode(): ModeDefinition {
+		return this.modes.getCurrent();
+	}
+
+	/**
+	 * Get all modes, built-in first
+	 */
+	getModes(): ModeDefinition[] {
+		return this.modes.getModes();
+	}
+
+	/**
+	 * Set the user-defined modes (returns to the normal mode if the current one was removed)
+	 */
+	setModes(modes: ModeDefinition[]): void {
+		this.modes.setModes(modes);
+	}
+
+	/**
+	 * Get recorded mode transitions, oldest first
+	 */
+	getModeHistory(): ModeTransition[] {
+		return this.modes.getHistory();
+	}
+
+	/**
+	 * Set callback for when the mode changes
+	 */
+	setModeCallback(callback: (mode: ModeDefinition, transition: ModeTransition) => void): void {
+		this.onModeChanged = callback;
+	}
+
 	/**
 	 * Toggle focus mode
 	 */
 	toggleFocusMode(): boolean {
-		this.state.focusMode = !this.state.focusMode;
-		this.notifyFocusModeChanged();
-		return this.state.focusMode;
+		return this.toggleMode(FOCUS_MODE_ID);
 	}
 
 	/**
 	 * Get focus mode state
 	 */
 	isFocusMode(): boolean {
-		return this.state.focusMode;
+		return this.modes.getCurrent().id === FOCUS_MODE_ID;
 	}
 
 	/**
 	 * Toggle AFK mode
 	 */
 	toggleAFKMode(): boolean {
-		this.state.afkMode = !this.state.afkMode;
-		this.notifyAFKModeChanged();
-		return this.state.afkMode || false;
+		return this.toggleMode(AFK_MODE_ID);
 	}
 
 	/**
 	 * Check if AFK mode is enabled
 	 */
 	isAFKMode(): boolean {
-		return this.state.afkMode || false;
+		return this.modes.getCurrent().id === AFK_MODE_ID;
 	}
 
 	/**
-	 * Set callback for when AFK mode changes
+	 * Enter the mode, or leave it if it is the current one. Returns whether it is now active
 	 */
-	setAFKModeCallback(callback: (enabled: boolean) => void): void {
-		this.onAFKModeChanged = callback;
+	private toggleMode(id: string, reason: string = 'command'): boolean {
+		if (this.modes.getCurrent().id === id) {
+			this.modes.exit(reason);
+		} else {
+			this.modes.enter(id, reason);
+		}
+		return this.modes.getCurrent().id === id;
 	}
 
 	/**
-	 * Check if notification contains @name mention
+	 * Returning to the normal mode is a break: show notifications deferred until then
 	 */
-	private containsMention(input: NotificationInput): boolean {
-		if (!this.userName) {
-			return false;
+	private modeChanged(mode: ModeDefinition, transition: ModeTransition): void {
+		this.state.focusMode = mode.id === FOCUS_MODE_ID;
+		if (this.onModeChanged) {
+			this.onModeChanged(mode, transition);
+		}
+		if (mode.id === NORMAL_MODE_ID) {
+			this.deferQueue.releaseBreak();
 		}
-		const mentionPattern = new RegExp(`@${this.userName}\\b`, 'i');
-		const text = `${input.title} ${input.body}`;
-		return mentionPattern.test(text);
+	}
+
+	/**
+	 * Set aliases, team handles, broadcast (@here/@channel/@all) treatment and blocked senders for mention detection
+	 */
+	setMentionSettings(settings: MentionSettings): void {
+		this.mentionSettings = settings;
+		this.updateMentionMatcher();
+	}
+
+	/**
+	 * Get mention settings other than the user name
+	 */
+	getMentionSettings(): MentionSettings {
+		return this.mentionSettings;
+	}
+
+	private updateMentionMatcher(): void {
+		const { aliases, ...settings } = this.mentionSettings;
+		this.findMention = createMentionMatcher({ ...settings, names: [this.userName, ...aliases] });
 	}
 
 	/**
 	 * Process a notification through the router
 	 */
 	processNotification(input: NotificationInput): Action {
-		// Check for @name mentions first - these are always important
-		if (this.containsMention(input)) {
-			const processed: ProcessedNotification = {
-				input,
-				action: 'allow',
-				timestamp: Date.now(),
-			};
-			this.processedNotifications.push(processed);
-			this.importantNotifications.push(processed);
-			this.notifyImportantCountChanged();
-			return 'allow';
-		}
-
-		// If AFK mode is enabled, force everything to digest (except mentions which are handled above)
-		if (this.state.afkMode) {
-			const processed: ProcessedNotification = {
-				input,
-				action: 'digest',
-				timestamp: Date.now(),
-			};
-			this.processedNotifications.push(processed);
-			this.digestedNotifications.push(processed);
-			this.notifyUnreadCountChanged();
-			return 'digest';
-		}
-
-		// If focus mode is enabled, force everything to digest (except mentions which are handled above)
-		if (this.state.focusMode) {
-			const processed: ProcessedNotification = {
-				input,
-				action: 'digest',
-				timestamp: Date.now(),
-			};
-			this.processedNotifications.push(processed);
-			this.digestedNotifications.push(processed);
-			this.notifyUnreadCountChanged();
-			return 'digest';
+		// Always trace the rules, so overridden notifications can still be explained
+		const trace = routeWithTrace(input, this.state, this.rules, { getNow: this.getNow });
+
+		// Mentions follow the mode's mention policy (by default they are always shown)
+		const mentions = this.modes.getCurrent().mentions;
+		const mention = mentions === 'rules' ? undefined : this.findMention(input);
+		if (mentions !== 'rules' && mention) {
+			return this.record(input, mentions, trace, { override: 'mention', mention });
 		}
 
-		// Normal routing
-		const action = route(input, this.state, this.rules);
+		// Route with the mode's rules, then the matched rule's throttle (if any)
+		const throttle = trace.matchedRule?.throttle;
+		if (trace.matchedRule && throttle) {
+			const action = this.throttleTracker.admit(
+				getThrottleKey(trace.matchedRule.configIndex, trace.matchedRule.title ?? trace.matchedRule.source),
+				trace.action,
+				throttle
+			);
+			if (action !== trace.action) {
+				return this.record(input, action, trace, { throttled: true });
+			}
+		}
+
+		// Repeatedly digested notifications break through when the rule escalates them
+		const escalation = trace.matchedRule?.escalation;
+		if (trace.action === 'digest' && escalation) {
+			const count = this.escalationTracker.record(getEscalationKey(input), escalation);
+			if (count !== undefined) {
+				const reason = `repeated ${count}× within ${escalation.withinMinutes} min`;
+				return this.record(input, 'allow', trace, { escalation: { reason, count } });
+			}
+		}
+
+		return this.record(input, trace.action, trace);
+	}
+
+	/**
+	 * Record a routed notification in the processed, digested and important lists
+	 */
+	private record(
+		input: NotificationInput,
+		action: Action,
+		trace: RouteTrace,
+		details: Pick<ProcessedNotification, 'override' | 'mention' | 'throttled' | 'escalation'> = {}
+	): Action {
 		const processed: ProcessedNotification = {
 			input,
 			action,
-			timestamp: Date.now(),
+			timestamp: this.getNow(),
+			captures: details.override ? undefined : trace.captures,
+			trace,
+			mode: this.modes.getCurrent().id,
+			...details,
 		};
 
 		this.processedNotifications.push(processed);
+		this.pruneHistory();
+
+		// Hold deferred notifications until they are due (see resurface)
+		if (action === 'defer') {
+			const entry = this.deferQueue.add(processed, trace.matchedRule?.defer ?? DEFAULT_DEFER);
+			processed.deferredUntil = entry.dueAt ?? 'break';
+			this.notifyDeferredChanged();
+		}
 
 		// Track digested notifications as unread items (unimportant - goes to sidebar)
+		// Repeats within the coalesce window are merged into the existing entry
+		// (the history entry itself stays a single occurrence)
 		if (action === 'digest') {
-			this.digestedNotifications.push(processed);
+			coalesceInto(this.digestedNotifications, processed, this.coalesceWindowMs);
 			this.notifyUnreadCountChanged();
 		}
 
@@ -190,23 +401,353 @@ export class NotificationManager {
 		// Always track them, even in focus mode (so we can show what was missed when focus mode is turned off)
 		if (action === 'allow') {
 			this.importantNotifications.push(processed);
-			// Only notify count change if not in focus mode (to update status bar)
-			if (!this.state.focusMode) {
-				this.notifyImportantCountChanged();
-			}
+			this.notifyImportantCountChanged();
 		}
 
+		this.notifyHistoryChanged();
 		return action;
 	}
 
+	/**
+	 * Drop processed, unread and coalesced notifications the retention limits no longer keep
+	 */
+	private pruneHistory(): void {
+		const now = this.getNow();
+		const kept = applyRetention(this.processedNotifications, this.historyRetention, now);
+		if (kept.length !== this.processedNotifications.length) {
+			this.processedNotifications = kept;
+		}
+		const digested = applyRetention(this.digestedNotifications, this.historyRetention, now);
+		for (const entry of digested) {
+			if (entry.occurrences) {
+				entry.occurrences = applyRetention(entry.occurrences, this.historyRetention, now);
+			}
+		}
+		if (digested.length !== this.digestedNotifications.length) {
+			this.digestedNotifications = digested;
+			this.notifyUnreadCountChanged();
+		}
+		const important = applyRetention(this.importantNotifications, this.historyRetention, now);
+		if (important.length !== this.importantNotifications.length) {
+			this.importantNotifications = important;
+			this.notifyImportantCountChanged();
+		}
+	}
+
+	/**
+	 * Show deferred notifications that came due, tracking them as important and in the history
+	 */
+	private resurface(entries: DeferredEntry<ProcessedNotification>[]): void {
+		for (const entry of entries) {
+			const shown: ProcessedNotification = { ...entry.item, action: 'allow', timestamp: this.getNow(), resurfaced: true };
+			this.processedNotifications.push(shown);
+			this.importantNotifications.push(shown);
+			void this.showNotification(shown.input, 'allow');
+		}
+		this.pruneHistory();
+		this.notifyImportantCountChanged();
+		this.notifyDeferredChanged();
+	}
+
+	/**
+	 * Get deferred notifications that are still held, earliest due first
+	 */
+	getDeferredNotifications(): DeferredEntry<ProcessedNotification>[] {
+		return this.deferQueue.getPending();
+	}
+
+	/**
+	 * Show a held notification now instead of waiting for it to come due
+	 */
+	releaseDeferred(id: number): boolean {
+		return this.deferQueue.releaseNow(id);
+	}
+
+	/**
+	 * Held notifications in a form that can be persisted and passed to restoreDeferred
+	 */
+	getDeferredForStorage(): DeferredEntry<StoredDeferredItem>[] {
+		return this.deferQueue.getPending().map(entry => {
+			const { input, trace, captures, mode } = entry.item;
+			return { ...entry, item: { input, trace, captures, mode } };
+		});
+	}
+
+	/**
+	 * Hold notifications deferred in a previous session again; those already due are shown at once
+	 */
+	restoreDeferred(entries: DeferredEntry<StoredDeferredItem>[]): void {
+		this.deferQueue.restore(entries.map(entry => ({
+			...entry,
+			item: { ...entry.item, action: 'defer', timestamp: entry.deferredAt, deferredUntil: entry.dueAt ?? 'break' },
+		})));
+		this.notifyDeferredChanged();
+	}
+
+	/**
+	 * Set callback for when deferred notifications are held or shown
+	 */
+	setDeferredCallback(callback: (count: number) => void): void {
+		this.onDeferredChanged = callback;
+	}
+
+	/**
+	 * Stop the timers (deferred notifications stay held)
+	 */
+	dispose(): void {
+		this.deferQueue.dispose();
+		if (this.snoozeTimer !== undefined) {
+			this.timer.clearTimeout(this.snoozeTimer);
+			this.snoozeTimer = undefined;
+		}
+		this.clearGlobalSnoozeTimer();
+		this.pomodoro.dispose();
+		this.digestScheduler.dispose();
+	}
+
+	/**
+	 * Start a Pomodoro work session (focus mode on), restarting the current phase if one is running
+	 */
+	startPomodoro(): PomodoroStatus {
+		if (!this.pomodoro.getStatus()) {
+			this.modeBeforePomodoro = this.modes.getCurrent().id;
+		}
+		return this.pomodoro.start();
+	}
+
+	/**
+	 * Stop the Pomodoro timer and return to the mode it started from
+	 */
+	stopPomodoro(): void {
+		this.pomodoro.stop();
+	}
+
+	/**
+	 * End the current Pomodoro phase early (work goes to a break, a break back to work)
+	 */
+	skipPomodoroPhase(): void {
+		this.pomodoro.skip();
+	}
+
+	/**
+	 * Get the running Pomodoro phase, if any
+	 */
+	getPomodoroStatus(): PomodoroStatus | undefined {
+		return this.pomodoro.getStatus();
+	}
+
+	/**
+	 * Set Pomodoro lengths and behavior (applies from the next phase)
+	 */
+	setPomodoroSettings(settings: PomodoroSettings): void {
+		this.pomodoro.setSettings(settings);
+	}
+
+	/**
+	 * Set callback for Pomodoro phase changes; breaks come with a summary of what was digested during the work phase
+	 */
+	setPomodoroCallback(callback: (status: PomodoroStatus | undefined, summary?: DigestSummary) => void): void {
+		this.onPomodoroChanged = callback;
+	}
+
+	/**
+	 * Work phases turn focus mode on; breaks turn it off and release notifications deferred until a break
+	 */
+	private pomodoroChanged(status: PomodoroStatus | undefined, ended?: PomodoroPhase): void {
+		let summary: DigestSummary | undefined;
+		if (status?.phase === 'work') {
+			this.pomodoroWorkStartedAt = status.startedAt;
+			this.modes.enter(FOCUS_MODE_ID, 'pomodoro');
+		} else if (status) {
+			summary = summarizeDigest(this.digestedNotifications, this.pomodoroWorkStartedAt);
+			this.deferQueue.releaseBreak();
+			if (this.isFocusMode()) {
+				this.modes.exit('pomodoro break');
+			}
+		} else if (ended) {
+			this.modes.enter(this.modes.getMode(this.modeBeforePomodoro) ? this.modeBeforePomodoro : NORMAL_MODE_ID, 'pomodoro stopped');
+		}
+		if (this.onPomodoroChanged) {
+			this.onPomodoroChanged(status, summary);
+		}
+	}
+
+	/**
+	 * Set when digests are delivered as a summary (times of day and/or an interval)
+	 */
+	setDigestSchedule(schedule: DigestSchedule): void {
+		this.digestScheduler.setSchedule(schedule);
+	}
+
+	/**
+	 * Get when the next scheduled digest is due, or undefined when none is scheduled
+	 */
+	getNextDigestDelivery(): number | undefined {
+		return this.digestScheduler.getNextDelivery();
+	}
+
+	/**
+	 * Set callback for scheduled digests; called only when something was digested since the last one
+	 */
+	setDigestDeliveryCallback(callback: (summary: DigestSummary, deliveredAt: number) => void): void {
+		this.onDigestDelivered = callback;
+	}
+
+	/**
+	 * Summarize the unread notifications digested since the previous scheduled digest
+	 */
+	private deliverDigest(at: number): void {
+		const summary = summarizeDigest(this.digestedNotifications, this.lastDigestDeliveryAt);
+		this.lastDigestDeliveryAt = at;
+		if (summary.total > 0 && this.onDigestDelivered) {
+			this.onDigestDelivered(summary, at);
+		}
+	}
+
+	/**
+	 * Digest everything (except @mentions) until the given time; ends by itself with a summary
+	 */
+	snooze(until: number, startedAt: number = this.getNow()): void {
+		this.globalSnooze = { startedAt, until };
+		this.state = { ...this.state, snoozeUntil: until };
+		this.clearGlobalSnoozeTimer();
+		const delay = Math.min(Math.max(0, until - this.getNow()), MAX_TIMER_DELAY);
+		this.globalSnoozeTimer = this.timer.setTimeout(() => {
+			this.globalSnoozeTimer = undefined;
+			if (this.globalSnooze && this.getNow() < this.globalSnooze.until) {
+				this.snooze(this.globalSnooze.until, this.globalSnooze.startedAt);
+			} else {
+				this.endSnooze();
+			}
+		}, delay);
+		if (this.onGlobalSnoozeChanged) {
+			this.onGlobalSnoozeChanged(this.globalSnooze);
+		}
+	}
+
+	/**
+	 * End the global snooze now. Returns what arrived during it, or undefined if none was active
+	 */
+	endSnooze(): SnoozeSummary | undefined {
+		const snooze = this.globalSnooze;
+		if (!snooze) {
+			return undefined;
+		}
+		this.globalSnooze = undefined;
+		this.clearGlobalSnoozeTimer();
+		const { snoozeUntil: _ended, ...state } = this.state;
+		this.state = state;
+		const summary = summarizeSnooze(this.processedNotifications, snooze.startedAt, Math.min(this.getNow(), snooze.until));
+		if (this.onGlobalSnoozeChanged) {
+			this.onGlobalSnoozeChanged(undefined, summary);
+		}
+		return summary;
+	}
+
+	/**
+	 * Get the active global snooze, if any
+	 */
+	getGlobalSnooze(): GlobalSnooze | undefined {
+		return this.globalSnooze ? { ...this.globalSnooze } : undefined;
+	}
+
+	/**
+	 * Set callback for when the global snooze starts (summary absent) or ends (with what arrived)
+	 */
+	setGlobalSnoozeCallback(callback: (snooze: GlobalSnooze | undefined, summary?: SnoozeSummary) => void): void {
+		this.onGlobalSnoozeChanged = callback;
+	}
+
+	private clearGlobalSnoozeTimer(): void {
+		if (this.globalSnoozeTimer !== undefined) {
+			this.timer.clearTimeout(this.globalSnoozeTimer);
+			this.globalSnoozeTimer = undefined;
+		}
+	}
+
+	/**
+	 * Digest notifications from a source until the given time (epoch ms)
+	 */
+	snoozeSource(source: string, until: number): void {
+		this.state = snoozeSource(this.state, source, until);
+		this.snoozesChanged();
+	}
+
+	/**
+	 * End a source's snooze early. Returns false if the source was not snoozed
+	 */
+	unsnoozeSource(source: string): boolean {
+		const previous = this.state;
+		this.state = unsnoozeSource(this.state, source);
+		if (this.state === previous) {
+			return false;
+		}
+		this.snoozesChanged();
+		return true;
+	}
+
+	/**
+	 * Get active per-source snoozes, soonest to end first
+	 */
+	getSourceSnoozes(): SourceSnooze[] {
+		return getSourceSnoozes(this.state, this.getNow());
+	}
+
+	/**
+	 * Set callback for when per-source snoozes start or end
+	 */
+	setSnoozeCallback(callback: (snoozes: SourceSnooze[]) => void): void {
+		this.onSnoozesChanged = callback;
+	}
+
+	/**
+	 * Drop expired snoozes, arm a timer for the next one to end and notify the callback
+	 */
+	private snoozesChanged(): void {
+		const active = this.getSourceSnoozes();
+		this.state = { ...this.state, sourceSnoozes: Object.fromEntries(active.map(snooze => [snooze.source, snooze.until])) };
+		if (this.snoozeTimer !== undefined) {
+			this.timer.clearTimeout(this.snoozeTimer);
+			this.snoozeTimer = undefined;
+		}
+		if (active.length > 0) {
+			this.snoozeTimer = this.timer.setTimeout(() => {
+				this.snoozeTimer = undefined;
+				this.snoozesChanged();
+			}, Math.min(Math.max(0, active[0].until - this.getNow()), MAX_TIMER_DELAY));
+		}
+		if (this.onSnoozesChanged) {
+			this.onSnoozesChanged(active);
+		}
+	}
+
+	/**
+	 * Set the window within which identical digested notifications are coalesced (0 disables)
+	 */
+	setCoalesceWindow(ms: number): void {
+		this.coalesceWindowMs = ms;
+	}
+
 	/**
 	 * Show notification based on action
 	 */
 	async showNotification(input: NotificationInput, action: Action): Promise<void> {
 		switch (action) {
-			case 'allow':
-				await vscode.window.showInformationMessage(`${input.title}: ${input.body}`);
+			case 'allow': {
+				const message = `${input.title}: ${input.body}`;
+				switch (getSeverity(input)) {
+					case 'critical':
+					case 'error':
+						await vscode.window.showErrorMessage(message);
+						break;
+					case 'warning':
+						await vscode.window.showWarningMessage(message);
+						break;
+					default:
+						await vscode.window.showInformationMessage(message);
+				}
 				break;
+			}
 			case 'suppress':
 				// Silently suppress
 				console.log(`[Suppressed] ${input.source}: ${input.title}`);
@@ -215,6 +756,10 @@ export class NotificationManager {
 				// Queue for digest
 				console.log(`[Digested] ${input.source}: ${input.title}`);
 				break;
+			case 'defer':
+				// Held; shown later as allow
+				console.log(`[Deferred] ${input.source}: ${input.title}`);
+				break;
 		}
 	}
 
@@ -225,6 +770,74 @@ export class NotificationManager {
 		return this.digestedNotifications.length;
 	}
 
+	/**
+	 * Get all processed notifications, oldest first
+	 */
+	getProcessedNotifications(): ProcessedNotification[] {
+		return [...this.processedNotifications];
+	}
+
+	/**
+	 * Find processed notifications matching a query, newest first
+	 */
+	queryHistory(query: HistoryQuery): ProcessedNotification[] {
+		return queryHistory(this.processedNotifications, query);
+	}
+
+	/**
+	 * Forget all processed notifications (unread digested and important ones are kept)
+	 */
+	clearHistory(): void {
+		this.processedNotifications = [];
+		this.notifyHistoryChanged();
+	}
+
+	/**
+	 * Set how many processed notifications are kept, and for how long
+	 */
+	setHistoryRetention(retention: HistoryRetention): void {
+		this.historyRetention = retention;
+		this.pruneHistory();
+		this.notifyHistoryChanged();
+	}
+
+	/**
+	 * Get the history retention limits
+	 */
+	getHistoryRetention(): HistoryRetention {
+		return { ...this.historyRetention };
+	}
+
+	/**
+	 * The history and unread lists in a form that can be persisted and passed to restoreHistory
+	 */
+	getHistorySnapshot(): HistorySnapshot<ProcessedNotification> {
+		return createHistorySnapshot({
+			history: this.processedNotifications,
+			digested: this.digestedNotifications,
+			important: this.importantNotifications,
+		}, this.historyRetention, this.getNow());
+	}
+
+	/**
+	 * Restore the history and unread lists of a previous session, before anything routed since
+	 */
+	restoreHistory(snapshot: HistorySnapshot<ProcessedNotification>): void {
+		this.processedNotifications = [...snapshot.history, ...this.processedNotifications];
+		this.digestedNotifications = [...snapshot.digested, ...this.digestedNotifications];
+		this.importantNotifications = [...snapshot.important, ...this.importantNotifications];
+		this.pruneHistory();
+		this.notifyUnreadCountChanged();
+		this.notifyImportantCountChanged();
+	}
+
+	/**
+	 * Set callback for when the history or the unread lists change (to persist them)
+	 */
+	setHistoryCallback(callback: () => void): void {
+		this.onHistoryChanged = callback;
+	}
+
 	/**
 	 * Get all digested notifications
 	 */
@@ -269,11 +882,13 @@ export class NotificationManager {
 	/**
 	 * Process a custom notification with user-provided message
 	 */
-	async processCustomNotification(source: string, title: string, body: string): Promise<void> {
+	async processCustomNotification(source: string, title: string, body: string, severity?: Severity, metadata?: NotificationMetadata): Promise<void> {
 		const notification: NotificationInput = {
 			source,
 			title,
 			body,
+			severity,
+			metadata,
 		};
 
 		const action = this.processNotification(notification);
@@ -308,6 +923,25 @@ export class NotificationManager {
 		return [...this.rules];
 	}
 
+	/**
+	 * Replay the processed history against candidate rules and report what would change
+	 */
+	simulateRules(rules: Rule[]): SimulationResult {
+		// Notifications routed in another mode were decided by that mode's rules, not these;
+		// resurfaced entries repeat the deferral that is replayed already
+		const history = this.processedNotifications
+			.filter(entry => !entry.resurfaced)
+			.map(entry => entry.mode && entry.mode !== NORMAL_MODE_ID && !entry.override ? { ...entry, override: entry.mode } : entry);
+		return simulateRules(history, rules);
+	}
+
+	/**
+	 * Get throttle counters for the rule configured at the given index with the given title
+	 */
+	getThrottleUsage(ruleIndex: number, ruleTitle: string, throttle: RuleThrottle): ThrottleUsage {
+		return this.throttleTracker.getUsage(getThrottleKey(ruleIndex, ruleTitle), throttle);
+	}
+
 	/**
 	 * Get important notifications count (allow action)
 	 */
@@ -347,6 +981,7 @@ export class NotificationManager {
 		if (this.onUnreadCountChanged) {
 			this.onUnreadCountChanged(this.getUnreadCount());
 		}
+		this.notifyHistoryChanged();
 	}
 
 	/**
@@ -356,23 +991,24 @@ export class NotificationManager {
 		if (this.onImportantCountChanged) {
 			this.onImportantCountChanged(this.getImportantCount());
 		}
+		this.notifyHistoryChanged();
 	}
 
 	/**
-	 * Notify callback of focus mode change
+	 * Notify callback that the history or the unread lists changed
 	 */
-	private notifyFocusModeChanged(): void {
-		if (this.onFocusModeChanged) {
-			this.onFocusModeChanged(this.state.focusMode);
+	private notifyHistoryChanged(): void {
+		if (this.onHistoryChanged) {
+			this.onHistoryChanged();
 		}
 	}
 
 	/**
-	 * Notify callback of AFK mode change
+	 * Notify callback of deferred notifications change
 	 */
-	private notifyAFKModeChanged(): void {
-		if (this.onAFKModeChanged) {
-			this.onAFKModeChanged(this.state.afkMode || false);
+	private notifyDeferredChanged(): void {
+		if (this.onDeferredChanged) {
+			this.onDeferredChanged(this.deferQueue.getPending().length);
 		}
 	}
 
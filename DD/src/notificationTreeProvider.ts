@@ -4,10 +4,14 @@
  */
 
 import * as vscode from 'vscode';
-import type { ProcessedNotification } from './notificationManager.js';
+import { explainRouting, type NotificationManager, type ProcessedNotification } from './notificationManager.js';
+import { filterNotifications, formatRemaining, getSourceIcon, groupNotifications, type GroupingMode, type NotificationFilter, type NotificationMetadata, type SourceSnooze } from './core/index.js';
+
+/** Notifications listed per category; the rest are counted */
+const MAX_PER_CATEGORY = 10;
 
 /**
- * Tree item for notification categories (sources)
+ * Tree item for notification categories (sources, or groups of another grouping mode)
  */
 class NotificationCategoryItem extends vscode.TreeItem {
 	children: NotificationItem[] = [];
@@ -17,55 +21,102 @@ class NotificationCategoryItem extends vscode.TreeItem {
 		public readonly label: string,
 		public readonly collapsibleState: vscode.TreeItemCollapsibleState,
 		icon: string,
-		public readonly count: number
+		public readonly count: number,
+		public readonly snooze?: SourceSnooze
 	) {
 		super(label, collapsibleState);
 		this.icon = icon;
-		this.tooltip = `${this.label}: ${count} notification${count === 1 ? '' : 's'} (digested - shown in sidebar)`;
-		this.description = `${count} item${count === 1 ? '' : 's'}`;
 		this.iconPath = new vscode.ThemeIcon(this.icon);
-		this.contextValue = 'category';
+		this.contextValue = snooze ? 'category.snoozed' : 'category';
+		this.describe(count);
+	}
+
+	/**
+	 * Show that only the most recent `shown` notifications are listed
+	 */
+	setTruncated(shown: number): void {
+		this.describe(shown);
+	}
+
+	private describe(shown: number): void {
+		const count = this.count;
+		const items = shown < count ? `${shown} of ${count} items` : `${count} item${count === 1 ? '' : 's'}`;
+		const listed = shown < count ? `showing ${shown} most recent` : 'digested - shown in sidebar';
+		this.description = items;
+		this.tooltip = `${this.label}: ${count} notification${count === 1 ? '' : 's'} (${listed})`;
+		if (this.snooze) {
+			const remaining = formatRemaining(this.snooze.until - Date.now());
+			this.description = `${items} • snoozed ${remaining}`;
+			this.tooltip = `${this.tooltip}\nSnoozed until ${new Date(this.snooze.until).toLocaleString()} (${remaining} left)`;
+		}
 	}
 }
 
 /**
- * Tree item for individual notifications
+ * Tree item for individual notifications (coalesced repeats expand to their occurrences)
  */
 class NotificationItem extends vscode.TreeItem {
 	constructor(
 		public readonly notification: ProcessedNotification,
-		public readonly category: string
+		public readonly category: string,
+		public readonly isOccurrence: boolean = false
 	) {
 		// Truncate long titles to reduce visual clutter
 		const maxTitleLength = 50;
 		const displayTitle = notification.input.title.length > maxTitleLength 
 			? notification.input.title.substring(0, maxTitleLength) + '...'
 			: notification.input.title;
+		const count = isOccurrence ? 1 : notification.count ?? 1;
 		
-		super(displayTitle, vscode.TreeItemCollapsibleState.None);
+		super(
+			count > 1 ? `${displayTitle} ×${count}` : displayTitle,
+			count > 1 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+		);
 		
 		// Show shorter time format
-		const timeAgo = this.getTimeAgo(notification.timestamp);
+		const lastSeen = notification.lastSeen ?? notification.timestamp;
+		const timeAgo = this.getTimeAgo(isOccurrence ? notification.timestamp : lastSeen);
 		// Truncate body in description to reduce clutter
 		const bodyPreview = notification.input.body.length > 35 
 			? notification.input.body.substring(0, 35) + '...'
 			: notification.input.body;
-		this.description = `${timeAgo} • ${bodyPreview}`;
-		this.tooltip = `${notification.input.source}: ${notification.input.title}\n\n${notification.input.body}\n\nTime: ${new Date(notification.timestamp).toLocaleString()}\n\nClick or right-click to mark as read`;
-		this.contextValue = 'notification';
-		this.command = {
-			command: 'DD.markNotificationAsRead',
-			title: 'Mark as Read',
-			arguments: [this]
-		};
+		this.description = notification.escalation && !isOccurrence
+			? `${timeAgo} • escalated • ${bodyPreview}`
+			: `${timeAgo} • ${bodyPreview}`;
+		const routing = explainRouting(notification);
+		const why = routing.length > 0 ? `\n\nRouting:\n${routing.join('\n')}` : '';
+		const seen = count > 1
+			? `First seen: ${new Date(notification.timestamp).toLocaleString()}\nLast seen: ${new Date(lastSeen).toLocaleString()} (${count} times)`
+			: `Time: ${new Date(notification.timestamp).toLocaleString()}`;
+		const severity = notification.input.severity ? `Severity: ${notification.input.severity}\n` : '';
+		const details = formatMetadata(notification.input.metadata).map(line => `${line}\n`).join('');
+		this.tooltip = `${notification.input.source}: ${notification.input.title}\n\n${notification.input.body}\n\n${severity}${details}${seen}${why}${isOccurrence ? '' : '\n\nClick or right-click to mark as read'}`;
+		this.contextValue = isOccurrence ? 'occurrence' : 'notification';
+		if (!isOccurrence) {
+			this.command = {
+				command: 'DD.markNotificationAsRead',
+				title: 'Mark as Read',
+				arguments: [this]
+			};
+		}
 		
 		// Set icon based on source
-		this.iconPath = this.getIconForSource(notification.input.source);
+		this.iconPath = new vscode.ThemeIcon(getSourceIcon(notification.input.source));
 		
 		// Set color based on source importance
 		this.resourceUri = vscode.Uri.parse(`notification://${notification.input.source}/${notification.timestamp}`);
 	}
 
+	/**
+	 * Items for the individual occurrences of a coalesced notification, newest first
+	 */
+	getOccurrenceItems(): NotificationItem[] {
+		return (this.notification.occurrences ?? [])
+			.slice()
+			.reverse()
+			.map(occurrence => new NotificationItem(occurrence, this.category, true));
+	}
+
 	private getTimeAgo(timestamp: number): string {
 		const seconds = Math.floor((Date.now() - timestamp) / 1000);
 		if (seconds < 60) return `${seconds}s ago`;
@@ -76,19 +127,6 @@ class NotificationItem extends vscode.TreeItem {
 		const days = Math.floor(hours / 24);
 		return `${days}d ago`;
 	}
-
-	private getIconForSource(source: string): vscode.ThemeIcon {
-		const iconMap: Record<string, string> = {
-			'Git': 'git-branch',
-			'Extension': 'extensions',
-			'Build': 'tools',
-			'Debug': 'debug',
-			'Test': 'beaker',
-			'Language Server': 'server-process',
-			'File System': 'file',
-		};
-		return new vscode.ThemeIcon(iconMap[source] || 'bell');
-	}
 }
 
 /**
@@ -99,7 +137,9 @@ export class NotificationTreeProvider implements vscode.TreeDataProvider<vscode.
 	readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
 	private notifications: ProcessedNotification[] = [];
-	private notificationManager?: any; // Reference to NotificationManager for marking as read
+	private filter: NotificationFilter = {};
+	private grouping: GroupingMode = 'source';
+	private notificationManager?: NotificationManager; // For per-source snoozes
 
 	refresh(): void {
 		this._onDidChangeTreeData.fire();
@@ -110,7 +150,38 @@ export class NotificationTreeProvider implements vscode.TreeDataProvider<vscode.
 		this.refresh();
 	}
 
-	setNotificationManager(manager: any): void {
+	/**
+	 * Show only notifications that pass the filter
+	 */
+	setFilter(filter: NotificationFilter): void {
+		this.filter = filter;
+		this.refresh();
+	}
+
+	getFilter(): NotificationFilter {
+		return { ...this.filter };
+	}
+
+	/**
+	 * Number of notifications that pass the filter, and the total
+	 */
+	getVisibleCount(): { shown: number; total: number } {
+		return { shown: filterNotifications(this.notifications, this.filter, Date.now()).length, total: this.notifications.length };
+	}
+
+	/**
+	 * Group notifications by source, matched rule, priority or time, or list them flat
+	 */
+	setGrouping(grouping: GroupingMode): void {
+		this.grouping = grouping;
+		this.refresh();
+	}
+
+	getGrouping(): GroupingMode {
+		return this.grouping;
+	}
+
+	setNotificationManager(manager: NotificationManager): void {
 		this.notificationManager = manager;
 	}
 
@@ -127,7 +198,13 @@ export class NotificationTreeProvider implements vscode.TreeDataProvider<vscode.
 
 	getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
 		if (!element) {
-			// Root level: show categories
+			// Root level: show categories, or every notification when not grouped
+			if (this.grouping === 'flat') {
+				const visible = filterNotifications(this.notifications, this.filter, Date.now());
+				return groupNotifications(visible, 'flat', Date.now())
+					.flatMap(group => group.entries)
+					.map(n => new NotificationItem(n, n.input.source));
+			}
 			return this.getCategories();
 		}
 
@@ -136,79 +213,64 @@ export class NotificationTreeProvider implements vscode.TreeDataProvider<vscode.
 			return element.children;
 		}
 
+		if (element instanceof NotificationItem && !element.isOccurrence) {
+			// Expand coalesced notifications to their individual occurrences
+			return element.getOccurrenceItems();
+		}
+
 		return [];
 	}
 
 	private getCategories(): NotificationCategoryItem[] {
-		// If no notifications, return empty array (tree view will show empty state)
-		if (this.notifications.length === 0) {
+		// If no notifications pass the filter, return empty array (tree view will show empty state)
+		const now = Date.now();
+		const visible = filterNotifications(this.notifications, this.filter, now);
+		if (visible.length === 0) {
 			return [];
 		}
 
-		// Group notifications by source
-		const grouped = new Map<string, ProcessedNotification[]>();
-		
-		for (const notification of this.notifications) {
-			const source = notification.input.source;
-			if (!grouped.has(source)) {
-				grouped.set(source, []);
-			}
-			grouped.get(source)!.push(notification);
-		}
-
-		// Create category items
-		const categories: NotificationCategoryItem[] = [];
-		
-		// Define category order and icons
-		const categoryConfig: Record<string, { icon: string; priority: number }> = {
-			'Git': { icon: 'git-branch', priority: 1 },
-			'Build': { icon: 'tools', priority: 2 },
-			'Test': { icon: 'beaker', priority: 3 },
-			'Debug': { icon: 'debug', priority: 4 },
-			'Extension': { icon: 'extensions', priority: 5 },
-			'Language Server': { icon: 'server-process', priority: 6 },
-			'File System': { icon: 'file', priority: 7 },
-		};
-
-		// Sort by priority
-		const sortedSources = Array.from(grouped.keys()).sort((a, b) => {
-			const aPriority = categoryConfig[a]?.priority || 999;
-			const bPriority = categoryConfig[b]?.priority || 999;
-			return aPriority - bPriority;
-		});
+		const snoozes = this.notificationManager?.getSourceSnoozes() ?? [];
+		const bySource = this.grouping === 'source';
 
-		for (const source of sortedSources) {
-			const notifications = grouped.get(source)!;
-			const config = categoryConfig[source] || { icon: 'bell', priority: 999 };
-			
+		return groupNotifications(visible, this.grouping, now).map(group => {
 			// Collapse by default to reduce visual clutter (less overwhelming)
 			const categoryItem = new NotificationCategoryItem(
-				source,
+				group.label,
 				vscode.TreeItemCollapsibleState.Collapsed,
-				config.icon,
-				notifications.length
+				group.icon,
+				group.entries.length,
+				bySource ? snoozes.find(snooze => snooze.source.toLowerCase() === group.label.toLowerCase()) : undefined
 			);
+			if (!bySource) {
+				// Only source categories can be snoozed
+				categoryItem.contextValue = 'category.group';
+			}
 
-			// Create notification items for this category
-			// Limit to 10 most recent per category to reduce overwhelming list
-			const sortedNotifications = notifications
-				.sort((a, b) => b.timestamp - a.timestamp); // Most recent first
-			
-			// Find indices in the original digested notifications array
-			categoryItem.children = sortedNotifications.slice(0, 10).map((n) => {
-				return new NotificationItem(n, source);
-			});
-			
-			// Update count to show if there are more
-			if (notifications.length > 10) {
-				categoryItem.description = `10 of ${notifications.length} items`;
-				categoryItem.tooltip = `${categoryItem.label}: ${notifications.length} notification${notifications.length === 1 ? '' : 's'} (showing 10 most recent)`;
+			// Limit to the most recent per category to reduce overwhelming list (entries are newest first)
+			categoryItem.children = group.entries.slice(0, MAX_PER_CATEGORY).map(n => new NotificationItem(n, group.label));
+			if (group.entries.length > MAX_PER_CATEGORY) {
+				categoryItem.setTruncated(MAX_PER_CATEGORY);
 			}
+			return categoryItem;
+		});
+	}
+}
 
-			categories.push(categoryItem);
-		}
 
-		return categories;
+/**
+ * One "Label: value" line per metadata field that is set
+ */
+function formatMetadata(metadata: NotificationMetadata | undefined): string[] {
+	if (!metadata) {
+		return [];
 	}
+	const fields: Array<[string, string | undefined]> = [
+		['From', metadata.sender],
+		['Channel', metadata.channel],
+		['Workspace', metadata.workspaceFolder],
+		['Branch', metadata.branch],
+		['File', metadata.fileUri],
+		['Tags', metadata.tags?.length ? metadata.tags.join(', ') : undefined],
+	];
+	return fields.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`);
 }
-
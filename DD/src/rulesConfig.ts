@@ -4,41 +4,70 @@
  */
 
 import * as vscode from 'vscode';
-import type { Rule } from './core/types.js';
+import { Priority, generateRuleTitle, getActionLabel, convertToRoutingRules, type SourceRuleConfig } from './core/ruleConfig.js';
+import { validatePattern } from './core/matchers.js';
+import { validateSchedule } from './core/schedule.js';
+import { validateCondition } from './core/conditions.js';
+import { validateSeverity } from './core/severity.js';
+import { validateDefer } from './core/defer.js';
+import { BUILT_IN_MODES, getModeId, validateMode, type ModeDefinition } from './core/modes.js';
 
-/**
- * Priority levels for notification sources
- */
-export enum Priority {
-	Low = 0,
-	Medium = 1,
-	High = 2,
-	Critical = 3,
-}
+export { Priority, generateRuleTitle, getActionLabel, convertToRoutingRules, type SourceRuleConfig };
 
 /**
- * Rule configuration for a source
+ * Validate rule configurations, returning one message per problem found
  */
-export interface SourceRuleConfig {
-	title?: string; // User-friendly title/name for the rule
-	source: string;
-	priority: Priority;
-	action: 'allow' | 'suppress' | 'digest';
-	showInFocusMode: boolean; // Whether to show in focus mode (even if normally digested)
-	contains?: string; // Optional text filter
-}
-
-/**
- * Generate a default title for a rule if not provided
- */
-export function generateRuleTitle(rule: SourceRuleConfig): string {
-	if (rule.title) {
-		return rule.title;
-	}
-	const source = rule.source === '*' ? 'Any source' : rule.source;
-	const action = getActionLabel(rule.action);
-	const contains = rule.contains ? ` containing "${rule.contains}"` : '';
-	return `${source}${contains} → ${action}`;
+export function getRuleConfigErrors(rules: SourceRuleConfig[]): string[] {
+	const errors: string[] = [];
+	rules.forEach((rule, index) => {
+		const name = rule.title || `Rule ${index + 1}`;
+		if (rule.pattern) {
+			const error = validatePattern(rule.pattern, rule.patternFlags);
+			if (error) {
+				errors.push(`${name}: invalid pattern /${rule.pattern}/${rule.patternFlags ?? ''} (${error})`);
+			}
+		}
+		if (rule.schedule) {
+			const error = validateSchedule(rule.schedule);
+			if (error) {
+				errors.push(`${name}: ${error}`);
+			}
+		}
+		if (rule.minSeverity !== undefined) {
+			const error = validateSeverity(rule.minSeverity);
+			if (error) {
+				errors.push(`${name}: ${error}`);
+			}
+		}
+		if (rule.when) {
+			const error = validateCondition(rule.when);
+			if (error) {
+				errors.push(`${name}: ${error}`);
+			}
+		}
+		if (rule.throttle) {
+			if (!Number.isInteger(rule.throttle.limit) || rule.throttle.limit < 1) {
+				errors.push(`${name}: throttle limit must be a whole number of at least 1`);
+			}
+			if (!(rule.throttle.windowMinutes > 0)) {
+				errors.push(`${name}: throttle window must be greater than 0 minutes`);
+			}
+		}
+		if (rule.defer) {
+			for (const error of validateDefer(rule.defer)) {
+				errors.push(`${name}: ${error}`);
+			}
+		}
+		if (rule.escalation) {
+			if (!Number.isInteger(rule.escalation.count) || rule.escalation.count < 2) {
+				errors.push(`${name}: escalation count must be a whole number of at least 2`);
+			}
+			if (!(rule.escalation.withinMinutes > 0)) {
+				errors.push(`${name}: escalation window must be greater than 0 minutes`);
+			}
+		}
+	});
+	return errors;
 }
 
 /**
@@ -46,15 +75,15 @@ export function generateRuleTitle(rule: SourceRuleConfig): string {
  */
 export function getDefaultRuleConfigs(): SourceRuleConfig[] {
 	return [
-		{ title: 'Build Failures', source: 'Build', priority: Priority.High, action: 'allow', showInFocusMode: false, contains: 'failed' },
+		{ title: 'Build Failures', source: 'Build', priority: Priority.High, action: 'allow', showInFocusMode: false, when: { any: [{ contains: 'failed' }, { minSeverity: 'error' }] } },
 		{ title: 'Build Success', source: 'Build', priority: Priority.Low, action: 'suppress', showInFocusMode: false, contains: 'succeeded' },
-		{ title: 'Test Failures', source: 'Test', priority: Priority.High, action: 'allow', showInFocusMode: false, contains: 'failed' },
+		{ title: 'Test Failures', source: 'Test', priority: Priority.High, action: 'allow', showInFocusMode: false, when: { any: [{ contains: 'failed' }, { minSeverity: 'error' }] } },
 		{ title: 'Test Passed', source: 'Test', priority: Priority.Low, action: 'suppress', showInFocusMode: false, contains: 'passed' },
 		{ title: 'Debug Exceptions', source: 'Debug', priority: Priority.Critical, action: 'allow', showInFocusMode: true, contains: 'Exception' },
 		{ title: 'Extension Errors', source: 'Extension', priority: Priority.High, action: 'allow', showInFocusMode: false, contains: 'error' },
 		{ title: 'Git Conflicts', source: 'Git', priority: Priority.High, action: 'allow', showInFocusMode: false, contains: 'conflict' },
 		{ title: 'Git Completed', source: 'Git', priority: Priority.Low, action: 'suppress', showInFocusMode: false, contains: 'completed' },
-		{ title: 'Chat Messages', source: 'Chat', priority: Priority.Medium, action: 'digest', showInFocusMode: true }, // @mentions handled separately
+		{ title: 'Chat Messages', source: 'Chat', priority: Priority.Medium, action: 'digest', showInFocusMode: true, escalation: { count: 3, withinMinutes: 10 } }, // @mentions handled separately
 	];
 }
 
@@ -82,36 +111,53 @@ export async function saveRuleConfigs(rules: SourceRuleConfig[]): Promise<void>
 }
 
 /**
- * Convert rule configs to routing rules
+ * A mode as written in the `dd.modes` setting (rule fields other than source and action are optional)
  */
-export function convertToRoutingRules(configs: SourceRuleConfig[], focusMode: boolean): Rule[] {
-	const rules: Rule[] = [];
-	
-	// Sort by priority (highest first)
-	const sorted = [...configs].sort((a, b) => b.priority - a.priority);
-	
-	for (const config of sorted) {
-		// In focus mode, only include rules that should be shown
-		if (focusMode && !config.showInFocusMode) {
-			continue;
+interface ModeSetting {
+	name?: string;
+	icon?: string;
+	description?: string;
+	rules?: Array<Partial<SourceRuleConfig>>;
+	breakthroughOnly?: boolean;
+	defaultAction?: ModeDefinition['defaultAction'];
+	mentions?: ModeDefinition['mentions'];
+}
+
+/**
+ * Load user-defined modes from VS Code settings, skipping invalid ones (reported in errors)
+ */
+export function loadModes(): { modes: ModeDefinition[]; errors: string[] } {
+	const settings = vscode.workspace.getConfiguration('dd').get<ModeSetting[]>('modes', []);
+	const modes: ModeDefinition[] = [];
+	const errors: string[] = [];
+	const taken = new Set(BUILT_IN_MODES.map(mode => mode.id));
+	settings.forEach((setting, index) => {
+		const name = setting.name?.trim() || `Mode ${index + 1}`;
+		const mode: ModeDefinition = {
+			id: getModeId(setting.name ?? ''),
+			name,
+			icon: setting.icon,
+			description: setting.description,
+			rules: setting.rules?.map(rule => ({ priority: Priority.Medium, showInFocusMode: false, ...rule } as SourceRuleConfig)),
+			breakthroughOnly: setting.breakthroughOnly,
+			defaultAction: setting.defaultAction ?? 'digest',
+			mentions: setting.mentions ?? 'allow',
+		};
+		const problems = validateMode(mode);
+		if (taken.has(mode.id)) {
+			problems.push('a mode with this name already exists');
 		}
-		
-		rules.push({
-			source: config.source,
-			contains: config.contains,
-			action: config.action,
-		});
-	}
-	
-	// Add catch-all rule at the end
-	if (!focusMode) {
-		rules.push({ source: '*', action: 'digest' });
-	} else {
-		// In focus mode, default to suppress (silence everything not explicitly allowed)
-		rules.push({ source: '*', action: 'suppress' });
-	}
-	
-	return rules;
+		if (Array.isArray(mode.rules)) {
+			problems.push(...getRuleConfigErrors(mode.rules));
+		}
+		if (problems.length > 0) {
+			errors.push(`${name}: ${problems.join('; ')}`);
+			return;
+		}
+		taken.add(mode.id);
+		modes.push(mode);
+	});
+	return { modes, errors };
 }
 
 /**
@@ -126,16 +172,3 @@ export function getPriorityLabel(priority: Priority): string {
 		default: return 'Unknown';
 	}
 }
-
-/**
- * Get action label
- */
-export function getActionLabel(action: string): string {
-	switch (action) {
-		case 'allow': return 'Show Immediately';
-		case 'suppress': return 'Suppress';
-		case 'digest': return 'Digest (Sidebar)';
-		default: return action;
-	}
-}
-
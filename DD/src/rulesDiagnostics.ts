@@ -0,0 +1,198 @@
+/**
+ * Rule linter warnings on `dd.rules` in settings.json files.
+ * @module rulesDiagnostics
+ */
+
+import * as vscode from 'vscode';
+import { lintRules, type SourceRuleConfig } from './core/index.js';
+
+/** A parsed JSON value with its offsets in the document */
+interface JsonNode {
+	value: unknown;
+	start: number;
+	end: number;
+	/** Elements, for arrays */
+	items?: JsonNode[];
+	/** Property values by key, for objects */
+	properties?: Map<string, JsonNode>;
+}
+
+/**
+ * Minimal JSON-with-comments parser that keeps offsets, enough to locate the elements of
+ * `dd.rules` (settings files allow comments and trailing commas)
+ */
+class JsoncParser {
+	private pos = 0;
+
+	constructor(private readonly text: string) {}
+
+	parse(): JsonNode {
+		const node = this.parseValue();
+		this.skipTrivia();
+		if (this.pos < this.text.length) {
+			throw new Error('Unexpected content after JSON value');
+		}
+		return node;
+	}
+
+	private parseValue(): JsonNode {
+		this.skipTrivia();
+		const start = this.pos;
+		const ch = this.text[this.pos];
+		if (ch === '{') {
+			return this.parseObject(start);
+		}
+		if (ch === '[') {
+			return this.parseArray(start);
+		}
+		if (ch === '"') {
+			const value = this.parseString();
+			return { value, start, end: this.pos };
+		}
+		const literal = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(this.text.slice(this.pos));
+		if (!literal) {
+			throw new Error(`Unexpected character at offset ${this.pos}`);
+		}
+		this.pos += literal[0].length;
+		return { value: JSON.parse(literal[0]), start, end: this.pos };
+	}
+
+	private parseObject(start: number): JsonNode {
+		const value: Record<string, unknown> = {};
+		const properties = new Map<string, JsonNode>();
+		this.pos++;
+		for (;;) {
+			this.skipTrivia();
+			if (this.text[this.pos] === '}') {
+				this.pos++;
+				return { value, start, end: this.pos, properties };
+			}
+			const key = this.parseString();
+			this.skipTrivia();
+			this.expect(':');
+			const node = this.parseValue();
+			value[key] = node.value;
+			properties.set(key, node);
+			this.skipTrivia();
+			if (this.text[this.pos] === ',') {
+				this.pos++;
+			} else if (this.text[this.pos] !== '}') {
+				throw new Error(`Expected "," or "}" at offset ${this.pos}`);
+			}
+		}
+	}
+
+	private parseArray(start: number): JsonNode {
+		const items: JsonNode[] = [];
+		this.pos++;
+		for (;;) {
+			this.skipTrivia();
+			if (this.text[this.pos] === ']') {
+				this.pos++;
+				return { value: items.map(item => item.value), start, end: this.pos, items };
+			}
+			items.push(this.parseValue());
+			this.skipTrivia();
+			if (this.text[this.pos] === ',') {
+				this.pos++;
+			} else if (this.text[this.pos] !== ']') {
+				throw new Error(`Expected "," or "]" at offset ${this.pos}`);
+			}
+		}
+	}
+
+	private parseString(): string {
+		this.skipTrivia();
+		const start = this.pos;
+		this.expect('"');
+		while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+			this.pos += this.text[this.pos] === '\\' ? 2 : 1;
+		}
+		this.expect('"');
+		return JSON.parse(this.text.slice(start, this.pos)) as string;
+	}
+
+	private expect(ch: string): void {
+		if (this.text[this.pos] !== ch) {
+			throw new Error(`Expected "${ch}" at offset ${this.pos}`);
+		}
+		this.pos++;
+	}
+
+	private skipTrivia(): void {
+		for (;;) {
+			const rest = this.text.slice(this.pos, this.pos + 2);
+			if (/^\s/.test(rest)) {
+				this.pos++;
+			} else if (rest === '//') {
+				const end = this.text.indexOf('\n', this.pos);
+				this.pos = end < 0 ? this.text.length : end;
+			} else if (rest === '/*') {
+				const end = this.text.indexOf('*/', this.pos + 2);
+				this.pos = end < 0 ? this.text.length : end + 2;
+			} else {
+				return;
+			}
+		}
+	}
+}
+
+/**
+ * Elements of the top-level `dd.rules` array in a settings file, or undefined when the
+ * file has none or cannot be parsed (e.g. while it is being edited)
+ */
+export function findRulesInSettings(text: string): JsonNode[] | undefined {
+	try {
+		const rules = new JsoncParser(text).parse().properties?.get('dd.rules');
+		return rules?.items;
+	} catch {
+		return undefined;
+	}
+}
+
+function isSettingsFile(document: vscode.TextDocument): boolean {
+	return (document.languageId === 'json' || document.languageId === 'jsonc') && document.uri.path.endsWith('/settings.json');
+}
+
+/**
+ * Show linter findings for `dd.rules` as warnings in open settings.json files
+ */
+export function registerRulesDiagnostics(context: vscode.ExtensionContext): void {
+	const diagnostics = vscode.languages.createDiagnosticCollection('dd.rules');
+
+	const validate = (document: vscode.TextDocument) => {
+		if (!isSettingsFile(document)) {
+			return;
+		}
+		const items = findRulesInSettings(document.getText());
+		const rules = items?.filter(item => typeof item.value === 'object' && item.value !== null && typeof (item.value as SourceRuleConfig).source === 'string');
+		if (!rules || rules.length === 0) {
+			diagnostics.delete(document.uri);
+			return;
+		}
+		const findings = lintRules(rules.map(item => item.value as SourceRuleConfig));
+		diagnostics.set(document.uri, findings.map(finding => {
+			const node = rules[finding.ruleIndex];
+			const range = new vscode.Range(document.positionAt(node.start), document.positionAt(node.end));
+			const diagnostic = new vscode.Diagnostic(range, finding.message, vscode.DiagnosticSeverity.Warning);
+			diagnostic.source = 'DoNotDisturb++';
+			diagnostic.code = finding.kind;
+			if (finding.relatedIndex !== undefined) {
+				const related = rules[finding.relatedIndex];
+				diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+					new vscode.Location(document.uri, new vscode.Range(document.positionAt(related.start), document.positionAt(related.end))),
+					'Rule checked first'
+				)];
+			}
+			return diagnostic;
+		}));
+	};
+
+	vscode.workspace.textDocuments.forEach(validate);
+	context.subscriptions.push(
+		diagnostics,
+		vscode.workspace.onDidOpenTextDocument(validate),
+		vscode.workspace.onDidChangeTextDocument(e => validate(e.document)),
+		vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri)),
+	);
+}
@@ -0,0 +1,82 @@
+/**
+ * Support for `.ddrules` files: the compact rule text format (see core/ruleDsl).
+ * Reports parse errors as diagnostics and converts between the text format and `dd.rules`.
+ * @module rulesLanguage
+ */
+
+import * as vscode from 'vscode';
+import type { NotificationManager } from './notificationManager.js';
+import { parseRuleDsl, serializeRuleDsl } from './core/index.js';
+import { loadRuleConfigs, saveRuleConfigs, convertToRoutingRules } from './rulesConfig.js';
+
+/** Language id contributed in package.json for `.ddrules` files */
+export const RULES_LANGUAGE_ID = 'ddrules';
+
+/**
+ * Register diagnostics for `.ddrules` documents and the commands that open the current
+ * rules as text and apply the active `.ddrules` document
+ */
+export function registerRulesLanguage(context: vscode.ExtensionContext, notificationManager: NotificationManager): void {
+	const diagnostics = vscode.languages.createDiagnosticCollection(RULES_LANGUAGE_ID);
+
+	const validate = (document: vscode.TextDocument) => {
+		if (document.languageId !== RULES_LANGUAGE_ID) {
+			return;
+		}
+		const { errors } = parseRuleDsl(document.getText());
+		diagnostics.set(document.uri, errors.map(error => {
+			const start = new vscode.Position(error.line - 1, error.column - 1);
+			const range = new vscode.Range(start, start.translate(0, error.length));
+			const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+			diagnostic.source = 'DoNotDisturb++';
+			return diagnostic;
+		}));
+	};
+
+	vscode.workspace.textDocuments.forEach(validate);
+	context.subscriptions.push(
+		diagnostics,
+		vscode.workspace.onDidOpenTextDocument(validate),
+		vscode.workspace.onDidChangeTextDocument(e => validate(e.document)),
+		vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri)),
+	);
+
+	// Open the configured rules as an untitled .ddrules document
+	const openRulesAsTextCommand = vscode.commands.registerCommand('DD.openRulesAsText', async () => {
+		try {
+			const header = '# DoNotDisturb++ rules, one per line: <source> <filters> -> <action> <options>\n'
+				+ '# Run "DoNotDisturb++: Apply Rules from Text" to save and apply them.\n';
+			const document = await vscode.workspace.openTextDocument({
+				language: RULES_LANGUAGE_ID,
+				content: header + serializeRuleDsl(loadRuleConfigs()),
+			});
+			await vscode.window.showTextDocument(document);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to open rules as text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	// Parse the active .ddrules document, then save and apply its rules
+	const applyRulesFromTextCommand = vscode.commands.registerCommand('DD.applyRulesFromText', async () => {
+		const document = vscode.window.activeTextEditor?.document;
+		if (!document || document.languageId !== RULES_LANGUAGE_ID) {
+			vscode.window.showWarningMessage('Open a .ddrules document to apply its rules');
+			return;
+		}
+		const { rules, errors } = parseRuleDsl(document.getText());
+		if (errors.length > 0) {
+			const first = errors[0];
+			vscode.window.showErrorMessage(`Cannot apply rules: ${errors.length} error${errors.length === 1 ? '' : 's'} (line ${first.line}, column ${first.column}: ${first.message})`);
+			return;
+		}
+		try {
+			await saveRuleConfigs(rules);
+			notificationManager.setRules(convertToRoutingRules(rules, notificationManager.getMode()));
+			vscode.window.showInformationMessage(`Applied ${rules.length} rule${rules.length === 1 ? '' : 's'}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to apply rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	context.subscriptions.push(openRulesAsTextCommand, applyRulesFromTextCommand);
+}
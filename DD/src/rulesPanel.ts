@@ -5,8 +5,9 @@
 
 import * as vscode from 'vscode';
 import type { NotificationManager } from './notificationManager.js';
-import { getDefaultRuleConfigs, loadRuleConfigs, saveRuleConfigs, convertToRoutingRules, Priority, getPriorityLabel, getActionLabel, type SourceRuleConfig } from './rulesConfig.js';
+import { getDefaultRuleConfigs, loadRuleConfigs, saveRuleConfigs, convertToRoutingRules, generateRuleTitle, getRuleConfigErrors, Priority, getPriorityLabel, getActionLabel, type SourceRuleConfig } from './rulesConfig.js';
 import { getMockSources } from './integrations/mockIntegrations.js';
+import { NORMAL_MODE, SEVERITIES, lintRules } from './core/index.js';
 
 /**
  * Rules configuration panel webview provider
@@ -36,14 +37,23 @@ export class RulesPanel {
 					case 'loadRules':
 						this._sendRules();
 						return;
+					case 'loadThrottleStats':
+						this._sendThrottleStats(message.rules);
+						return;
+					case 'lintRules':
+						this._sendLintFindings(message.rules);
+						return;
 					case 'saveRules':
 						await this._handleSaveRules(message.rules);
 						return;
 					case 'resetRules':
 						await this._handleResetRules();
 						return;
+					case 'simulateRules':
+						this._sendSimulation(message.rules);
+						return;
 					case 'applyRules':
-						await this._handleApplyRules();
+						await this._handleApplyRules(message.rules);
 						return;
 				}
 			},
@@ -100,7 +110,41 @@ export class RulesPanel {
 		});
 	}
 
+	private _sendThrottleStats(rules: SourceRuleConfig[]): void {
+		const stats = rules.map((rule, index) => rule.throttle
+			? this._notificationManager.getThrottleUsage(index, generateRuleTitle(rule), rule.throttle)
+			: null);
+		this._panel.webview.postMessage({
+			command: 'throttleStats',
+			stats,
+		});
+	}
+
+	private _sendLintFindings(rules: SourceRuleConfig[]): void {
+		this._panel.webview.postMessage({
+			command: 'lintFindings',
+			findings: lintRules(rules),
+		});
+	}
+
+	private _sendSimulation(rules: SourceRuleConfig[]): void {
+		// Candidate rules are replayed as the normal mode; mentions and other modes' decisions are kept as they were
+		const result = this._notificationManager.simulateRules(convertToRoutingRules(rules, NORMAL_MODE));
+		this._panel.webview.postMessage({
+			command: 'simulationResult',
+			result,
+		});
+	}
+
 	private async _handleSaveRules(rules: SourceRuleConfig[]): Promise<void> {
+		const errors = getRuleConfigErrors(rules);
+		if (errors.length > 0) {
+			this._panel.webview.postMessage({
+				command: 'error',
+				message: `Cannot save rules: ${errors.join('; ')}`,
+			});
+			return;
+		}
 		try {
 			await saveRuleConfigs(rules);
 			this._panel.webview.postMessage({
@@ -131,11 +175,18 @@ export class RulesPanel {
 		}
 	}
 
-	private async _handleApplyRules(): Promise<void> {
+	private async _handleApplyRules(rules: SourceRuleConfig[]): Promise<void> {
+		const errors = getRuleConfigErrors(rules);
+		if (errors.length > 0) {
+			this._panel.webview.postMessage({
+				command: 'error',
+				message: `Cannot apply rules: ${errors.join('; ')}`,
+			});
+			return;
+		}
 		try {
-			const rules = loadRuleConfigs();
-			const focusMode = this._notificationManager.isFocusMode();
-			const routingRules = convertToRoutingRules(rules, focusMode);
+			await saveRuleConfigs(rules);
+			const routingRules = convertToRoutingRules(rules, this._notificationManager.getMode());
 			this._notificationManager.setRules(routingRules);
 			
 			vscode.window.showInformationMessage('Notification rules applied successfully!');
@@ -303,6 +354,147 @@ export class RulesPanel {
 			width: auto;
 			margin: 0;
 		}
+		input.invalid {
+			border-color: var(--vscode-inputValidation-errorBorder);
+		}
+		.schedule {
+			margin-top: 12px;
+			padding-top: 12px;
+			border-top: 1px solid var(--vscode-input-border);
+			font-size: 12px;
+		}
+		.schedule-header {
+			display: flex;
+			gap: 12px;
+			align-items: center;
+			margin-bottom: 8px;
+		}
+		.schedule-window {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 8px;
+			align-items: center;
+			margin-bottom: 6px;
+		}
+		.schedule-window label {
+			display: inline-flex;
+			gap: 2px;
+			align-items: center;
+		}
+		.link-btn {
+			background: none;
+			color: var(--vscode-textLink-foreground);
+			padding: 2px 4px;
+			font-size: 12px;
+		}
+		.link-btn:hover {
+			background: none;
+			text-decoration: underline;
+		}
+		.conditions {
+			margin-top: 12px;
+			padding-top: 12px;
+			border-top: 1px solid var(--vscode-input-border);
+			font-size: 12px;
+		}
+		.conditions-title {
+			margin-bottom: 6px;
+			color: var(--vscode-descriptionForeground);
+		}
+		.condition-group {
+			border-left: 2px solid var(--vscode-focusBorder);
+			padding-left: 10px;
+			margin: 4px 0;
+		}
+		.condition-row {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 8px;
+			align-items: center;
+			margin: 4px 0;
+		}
+		.throttle {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 8px;
+			align-items: center;
+			margin-top: 12px;
+			padding-top: 12px;
+			border-top: 1px solid var(--vscode-input-border);
+			font-size: 12px;
+		}
+		.throttle input[type="number"] {
+			width: 60px;
+		}
+		.throttle-stats {
+			color: var(--vscode-descriptionForeground);
+		}
+		.rule-warnings:empty,
+		.lint-summary:empty {
+			display: none;
+		}
+		.rule-warnings {
+			margin-bottom: 12px;
+			padding: 6px 10px;
+			border-left: 3px solid var(--vscode-editorWarning-foreground);
+			background-color: var(--vscode-inputValidation-warningBackground);
+			font-size: 12px;
+		}
+		.lint-summary {
+			margin-bottom: 12px;
+			font-size: 12px;
+			color: var(--vscode-editorWarning-foreground);
+		}
+		.tabs {
+			display: flex;
+			gap: 4px;
+			margin-bottom: 16px;
+			border-bottom: 1px solid var(--vscode-panel-border);
+		}
+		.tabs button.tab {
+			background: none;
+			color: var(--vscode-descriptionForeground);
+			border-bottom: 2px solid transparent;
+			border-radius: 0;
+			padding: 6px 12px;
+		}
+		.tabs button.tab.active {
+			color: var(--vscode-foreground);
+			border-bottom-color: var(--vscode-focusBorder);
+		}
+		.simulation-summary {
+			margin-bottom: 12px;
+			font-size: 13px;
+		}
+		.transition {
+			display: inline-block;
+			margin: 0 6px 6px 0;
+			padding: 2px 8px;
+			border-radius: 10px;
+			background-color: var(--vscode-badge-background);
+			color: var(--vscode-badge-foreground);
+			font-size: 11px;
+		}
+		.simulation-table {
+			width: 100%;
+			border-collapse: collapse;
+			font-size: 12px;
+		}
+		.simulation-table th,
+		.simulation-table td {
+			text-align: left;
+			padding: 4px 8px;
+			border-bottom: 1px solid var(--vscode-panel-border);
+			vertical-align: top;
+		}
+		.simulation-table .rule-name {
+			color: var(--vscode-descriptionForeground);
+		}
+		.field-error {
+			margin-top: 4px;
+			font-size: 11px;
+			color: var(--vscode-errorForeground);
+		}
 		.add-rule {
 			border: 2px dashed var(--vscode-input-border);
 			border-radius: 6px;
@@ -373,14 +565,36 @@ export class RulesPanel {
 		<p>Configure priority and behavior for different notification sources. Rules are evaluated in priority order (Critical → High → Medium → Low).</p>
 	</div>
 
-	<div class="controls">
-		<button id="addRuleBtn">+ Add Rule</button>
-		<button id="resetBtn" class="secondary">Reset to Defaults</button>
-		<button id="applyBtn">Apply Rules</button>
-		<button id="saveBtn">Save</button>
+	<div class="tabs">
+		<button class="tab active" id="rulesTabBtn" onclick="showTab('rules')">Rules</button>
+		<button class="tab" id="whatIfTabBtn" onclick="showTab('whatIf')">What-if</button>
 	</div>
 
-	<div id="rulesContainer" class="rules-container"></div>
+	<div id="rulesTab">
+		<div class="controls">
+			<button id="addRuleBtn">+ Add Rule</button>
+			<button id="resetBtn" class="secondary">Reset to Defaults</button>
+			<button id="applyBtn" title="Review what would change, then apply">Apply Rules…</button>
+			<button id="saveBtn">Save</button>
+		</div>
+
+		<div id="lintSummary" class="lint-summary"></div>
+
+		<div id="rulesContainer" class="rules-container"></div>
+	</div>
+
+	<div id="whatIfTab" style="display: none;">
+		<p class="simulation-summary">Replays the notifications received this session against the rules being edited and lists those that would be routed differently.</p>
+		<div class="controls">
+			<button id="confirmApplyBtn">Apply These Rules</button>
+			<button id="refreshSimulationBtn" class="secondary">Refresh</button>
+		</div>
+		<div id="simulationResult"></div>
+	</div>
+
+	<datalist id="sourceList">
+		${sourcesOptions}
+	</datalist>
 
 	<div id="status" class="status"></div>
 
@@ -394,6 +608,9 @@ export class RulesPanel {
 		const applyBtn = document.getElementById('applyBtn');
 		const saveBtn = document.getElementById('saveBtn');
 		const statusDiv = document.getElementById('status');
+		const confirmApplyBtn = document.getElementById('confirmApplyBtn');
+		const refreshSimulationBtn = document.getElementById('refreshSimulationBtn');
+		const simulationResultDiv = document.getElementById('simulationResult');
 
 		const sources = ${JSON.stringify(getMockSources())};
 		const priorities = [
@@ -405,8 +622,10 @@ export class RulesPanel {
 		const actions = [
 			{ value: 'allow', label: 'Show Immediately' },
 			{ value: 'suppress', label: 'Suppress' },
-			{ value: 'digest', label: 'Digest (Sidebar)' }
+			{ value: 'digest', label: 'Digest (Sidebar)' },
+			{ value: 'defer', label: 'Defer (Show Later)' }
 		];
+		const severities = ${JSON.stringify(SEVERITIES)};
 
 		function showStatus(message, type) {
 			statusDiv.textContent = message;
@@ -417,6 +636,478 @@ export class RulesPanel {
 			}, 3000);
 		}
 
+		function escapeHtml(value) {
+			return String(value)
+				.replace(/&/g, '&amp;')
+				.replace(/"/g, '&quot;')
+				.replace(/</g, '&lt;')
+				.replace(/>/g, '&gt;');
+		}
+
+		function getPatternError(rule) {
+			if (!rule.pattern) {
+				return '';
+			}
+			try {
+				new RegExp(rule.pattern, (rule.patternFlags ?? 'i').replace(/[gy]/g, ''));
+				return '';
+			} catch (error) {
+				return error.message;
+			}
+		}
+
+		const weekdays = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+		function getScheduleError(rule) {
+			if (!rule.schedule) {
+				return '';
+			}
+			for (const timeWindow of rule.schedule.windows) {
+				if (!/^\\d{1,2}:\\d{2}$/.test(timeWindow.start || '') || !/^\\d{1,2}:\\d{2}$/.test(timeWindow.end || '')) {
+					return 'Start and end must be HH:MM';
+				}
+				if (timeWindow.timeZone) {
+					try {
+						new Intl.DateTimeFormat('en-US', { timeZone: timeWindow.timeZone });
+					} catch (error) {
+						return \`Unknown time zone "\${timeWindow.timeZone}"\`;
+					}
+				}
+			}
+			return '';
+		}
+
+		function renderSchedule(rule, ruleIndex) {
+			if (!rule.schedule) {
+				return \`
+					<div class="schedule">
+						<label><input type="checkbox" onchange="toggleSchedule(\${ruleIndex}, this.checked)"> Only apply at certain times</label>
+					</div>
+				\`;
+			}
+			const scheduleError = getScheduleError(rule);
+			const windows = rule.schedule.windows.map((timeWindow, windowIndex) => \`
+				<div class="schedule-window">
+					\${weekdays.map(day => \`<label><input type="checkbox" \${!timeWindow.days || timeWindow.days.length === 0 || timeWindow.days.includes(day) ? 'checked' : ''} onchange="toggleWindowDay(\${ruleIndex}, \${windowIndex}, '\${day}', this.checked)">\${day}</label>\`).join('')}
+					<input type="time" value="\${escapeHtml(timeWindow.start)}" onchange="updateWindow(\${ruleIndex}, \${windowIndex}, 'start', this.value)">
+					<span>–</span>
+					<input type="time" value="\${escapeHtml(timeWindow.end)}" onchange="updateWindow(\${ruleIndex}, \${windowIndex}, 'end', this.value)">
+					<input type="text" value="\${escapeHtml(timeWindow.timeZone || '')}" placeholder="Local time zone" title="IANA time zone, e.g. Europe/Berlin" onchange="updateWindow(\${ruleIndex}, \${windowIndex}, 'timeZone', this.value)">
+					<button class="link-btn" onclick="removeWindow(\${ruleIndex}, \${windowIndex})" title="Remove window">Remove</button>
+				</div>
+			\`).join('');
+			return \`
+				<div class="schedule">
+					<div class="schedule-header">
+						<label><input type="checkbox" checked onchange="toggleSchedule(\${ruleIndex}, this.checked)"> Only apply</label>
+						<select onchange="updateRule(\${ruleIndex}, 'schedule', { ...rules[\${ruleIndex}].schedule, outside: this.value === 'outside' }); renderRules();">
+							<option value="inside" \${rule.schedule.outside ? '' : 'selected'}>inside these times</option>
+							<option value="outside" \${rule.schedule.outside ? 'selected' : ''}>outside these times</option>
+						</select>
+						<button class="link-btn" onclick="addWindow(\${ruleIndex})">+ Add time window</button>
+					</div>
+					\${windows}
+					\${scheduleError ? \`<div class="field-error">\${escapeHtml(scheduleError)}</div>\` : ''}
+				</div>
+			\`;
+		}
+
+		function toggleSchedule(index, enabled) {
+			if (enabled) {
+				rules[index].schedule = { windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' }], outside: false };
+			} else {
+				delete rules[index].schedule;
+			}
+			renderRules();
+		}
+
+		function addWindow(index) {
+			rules[index].schedule.windows.push({ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' });
+			renderRules();
+		}
+
+		function removeWindow(index, windowIndex) {
+			rules[index].schedule.windows.splice(windowIndex, 1);
+			if (rules[index].schedule.windows.length === 0) {
+				delete rules[index].schedule;
+			}
+			renderRules();
+		}
+
+		function updateWindow(index, windowIndex, field, value) {
+			const timeWindow = rules[index].schedule.windows[windowIndex];
+			if (field === 'timeZone' && !value.trim()) {
+				delete timeWindow.timeZone;
+			} else {
+				timeWindow[field] = value.trim();
+			}
+			renderRules();
+		}
+
+		function toggleWindowDay(index, windowIndex, day, checked) {
+			const timeWindow = rules[index].schedule.windows[windowIndex];
+			const days = !timeWindow.days || timeWindow.days.length === 0 ? [...weekdays] : timeWindow.days;
+			timeWindow.days = checked
+				? weekdays.filter(d => d === day || days.includes(d))
+				: days.filter(d => d !== day);
+			renderRules();
+		}
+
+		const conditionFields = [
+			{ value: 'source', label: 'Source is' },
+			{ value: 'contains', label: 'Contains' },
+			{ value: 'pattern', label: 'Matches regex' },
+			{ value: 'minSeverity', label: 'Severity at least' },
+			{ value: 'sender', label: 'From' },
+			{ value: 'channel', label: 'In channel' },
+			{ value: 'tag', label: 'Tagged' }
+		];
+
+		function unwrapCondition(node) {
+			return node && node.not ? node.not : node;
+		}
+
+		function getConditionAt(ruleIndex, path) {
+			let node = rules[ruleIndex].when;
+			for (const childIndex of path) {
+				const inner = unwrapCondition(node);
+				node = (inner.all || inner.any)[childIndex];
+			}
+			return node;
+		}
+
+		function setConditionAt(ruleIndex, path, node) {
+			if (path.length === 0) {
+				rules[ruleIndex].when = node;
+				return;
+			}
+			const parent = unwrapCondition(getConditionAt(ruleIndex, path.slice(0, -1)));
+			(parent.all || parent.any)[path[path.length - 1]] = node;
+		}
+
+		function addCondition(ruleIndex, path, kind) {
+			const newNode = kind === 'group' ? { any: [] } : { contains: '' };
+			if (!rules[ruleIndex].when) {
+				rules[ruleIndex].when = { all: [newNode] };
+			} else {
+				const group = unwrapCondition(getConditionAt(ruleIndex, path));
+				(group.all || group.any).push(newNode);
+			}
+			renderRules();
+		}
+
+		function removeCondition(ruleIndex, path) {
+			if (path.length === 0) {
+				delete rules[ruleIndex].when;
+			} else {
+				const parent = unwrapCondition(getConditionAt(ruleIndex, path.slice(0, -1)));
+				(parent.all || parent.any).splice(path[path.length - 1], 1);
+			}
+			renderRules();
+		}
+
+		function toggleNegate(ruleIndex, path) {
+			const node = getConditionAt(ruleIndex, path);
+			setConditionAt(ruleIndex, path, node.not ? node.not : { not: node });
+			renderRules();
+		}
+
+		function setGroupKind(ruleIndex, path, kind) {
+			const node = getConditionAt(ruleIndex, path);
+			const inner = unwrapCondition(node);
+			const group = { [kind]: inner.all || inner.any };
+			setConditionAt(ruleIndex, path, node.not ? { not: group } : group);
+			renderRules();
+		}
+
+		function setConditionLeaf(ruleIndex, path, field, value) {
+			const node = getConditionAt(ruleIndex, path);
+			const leaf = { [field]: value };
+			setConditionAt(ruleIndex, path, node.not ? { not: leaf } : leaf);
+			renderRules();
+		}
+
+		function getConditionError(node) {
+			if (!node) {
+				return '';
+			}
+			const inner = unwrapCondition(node);
+			const children = inner.all || inner.any;
+			if (children) {
+				for (const child of children) {
+					const error = getConditionError(child);
+					if (error) {
+						return error;
+					}
+				}
+				return '';
+			}
+			return getPatternError(inner);
+		}
+
+		function renderCondition(ruleIndex, node, path) {
+			const inner = unwrapCondition(node);
+			const negated = !!node.not;
+			const pathJson = JSON.stringify(path);
+			const negateToggle = \`<label title="Negate this condition"><input type="checkbox" \${negated ? 'checked' : ''} onchange="toggleNegate(\${ruleIndex}, \${pathJson})"> not</label>\`;
+			const removeButton = \`<button class="link-btn" onclick="removeCondition(\${ruleIndex}, \${pathJson})" title="Remove condition">Remove</button>\`;
+			const children = inner.all || inner.any;
+			if (children) {
+				const kind = inner.all ? 'all' : 'any';
+				return \`
+					<div class="condition-group">
+						<div class="condition-row">
+							\${negateToggle}
+							<select onchange="setGroupKind(\${ruleIndex}, \${pathJson}, this.value)">
+								<option value="all" \${kind === 'all' ? 'selected' : ''}>All of (AND)</option>
+								<option value="any" \${kind === 'any' ? 'selected' : ''}>Any of (OR)</option>
+							</select>
+							<button class="link-btn" onclick="addCondition(\${ruleIndex}, \${pathJson}, 'leaf')">+ Condition</button>
+							<button class="link-btn" onclick="addCondition(\${ruleIndex}, \${pathJson}, 'group')">+ Group</button>
+							\${removeButton}
+						</div>
+						\${children.map((child, childIndex) => renderCondition(ruleIndex, child, [...path, childIndex])).join('')}
+					</div>
+				\`;
+			}
+			const field = conditionFields.find(f => inner[f.value] !== undefined)?.value || 'contains';
+			const error = field === 'pattern' ? getPatternError(inner) : '';
+			return \`
+				<div class="condition-row">
+					\${negateToggle}
+					<select onchange="setConditionLeaf(\${ruleIndex}, \${pathJson}, this.value, this.value === 'minSeverity' ? 'error' : '')">
+						\${conditionFields.map(f => \`<option value="\${f.value}" \${field === f.value ? 'selected' : ''}>\${f.label}</option>\`).join('')}
+					</select>
+					\${field === 'minSeverity'
+						? \`<select onchange="setConditionLeaf(\${ruleIndex}, \${pathJson}, 'minSeverity', this.value)">
+							\${severities.map(s => \`<option value="\${s}" \${inner.minSeverity === s ? 'selected' : ''}>\${s}</option>\`).join('')}
+						</select>\`
+						: \`<input type="text" class="\${error ? 'invalid' : ''}" value="\${escapeHtml(inner[field] || '')}" \${field === 'source' ? 'list="sourceList"' : ''} onchange="setConditionLeaf(\${ruleIndex}, \${pathJson}, '\${field}', this.value)">\`}
+					\${removeButton}
+					\${error ? \`<span class="field-error">\${escapeHtml(error)}</span>\` : ''}
+				</div>
+			\`;
+		}
+
+		function renderConditions(rule, ruleIndex) {
+			if (!rule.when) {
+				return \`
+					<div class="conditions">
+						<button class="link-btn" onclick="addCondition(\${ruleIndex}, [], 'leaf')" title="Combine conditions with AND / OR / NOT">+ Add advanced conditions</button>
+					</div>
+				\`;
+			}
+			return \`
+				<div class="conditions">
+					<div class="conditions-title">Also require:</div>
+					\${renderCondition(ruleIndex, rule.when, [])}
+				</div>
+			\`;
+		}
+
+		let throttleStats = [];
+
+		function toggleThrottle(index, enabled) {
+			if (enabled) {
+				rules[index].throttle = { limit: 3, windowMinutes: 10, overflowAction: 'digest' };
+			} else {
+				delete rules[index].throttle;
+			}
+			renderRules();
+		}
+
+		function updateThrottle(index, field, value) {
+			rules[index].throttle[field] = value;
+			renderRules();
+		}
+
+		function renderThrottle(rule, ruleIndex) {
+			if (!rule.throttle) {
+				return \`
+					<div class="throttle">
+						<label><input type="checkbox" onchange="toggleThrottle(\${ruleIndex}, this.checked)"> Throttle noisy matches</label>
+					</div>
+				\`;
+			}
+			return \`
+				<div class="throttle">
+					<label><input type="checkbox" checked onchange="toggleThrottle(\${ruleIndex}, this.checked)"> At most</label>
+					<input type="number" min="1" step="1" value="\${rule.throttle.limit}" onchange="updateThrottle(\${ruleIndex}, 'limit', parseInt(this.value))">
+					<span>per</span>
+					<input type="number" min="1" value="\${rule.throttle.windowMinutes}" onchange="updateThrottle(\${ruleIndex}, 'windowMinutes', parseFloat(this.value))">
+					<span>minutes, then</span>
+					<select onchange="updateThrottle(\${ruleIndex}, 'overflowAction', this.value)">
+						\${actions.filter(a => a.value !== 'allow').map(a => \`<option value="\${a.value}" \${(rule.throttle.overflowAction || 'digest') === a.value ? 'selected' : ''}>\${a.label}</option>\`).join('')}
+					</select>
+					<span class="throttle-stats" id="throttle-stats-\${ruleIndex}" title="Counters for the rule as currently applied">\${formatThrottleStats(throttleStats[ruleIndex])}</span>
+				</div>
+			\`;
+		}
+
+		function toggleEscalation(index, enabled) {
+			if (enabled) {
+				rules[index].escalation = { count: 3, withinMinutes: 10 };
+			} else {
+				delete rules[index].escalation;
+			}
+			renderRules();
+		}
+
+		function updateEscalation(index, field, value) {
+			rules[index].escalation[field] = value;
+			renderRules();
+		}
+
+		function renderEscalation(rule, ruleIndex) {
+			// Escalation only promotes digested notifications
+			if (rule.action !== 'digest' && !rule.escalation) {
+				return '';
+			}
+			if (!rule.escalation) {
+				return \`
+					<div class="throttle">
+						<label><input type="checkbox" onchange="toggleEscalation(\${ruleIndex}, this.checked)"> Escalate repeated notifications</label>
+					</div>
+				\`;
+			}
+			return \`
+				<div class="throttle">
+					<label><input type="checkbox" checked onchange="toggleEscalation(\${ruleIndex}, this.checked)"> Show immediately after</label>
+					<input type="number" min="2" step="1" value="\${rule.escalation.count}" onchange="updateEscalation(\${ruleIndex}, 'count', parseInt(this.value))">
+					<span>repeats within</span>
+					<input type="number" min="1" value="\${rule.escalation.withinMinutes}" onchange="updateEscalation(\${ruleIndex}, 'withinMinutes', parseFloat(this.value))">
+					<span>minutes\${rule.action !== 'digest' ? ' (only applies to Digest rules)' : ''}</span>
+				</div>
+			\`;
+		}
+
+		function updateDefer(index, value) {
+			if (value === 'break') {
+				rules[index].defer = { until: 'break' };
+			} else {
+				rules[index].defer = { minutes: parseFloat(value) };
+			}
+			renderRules();
+		}
+
+		function renderDefer(rule, ruleIndex) {
+			if (rule.action !== 'defer') {
+				return '';
+			}
+			const defer = rule.defer || { minutes: 30 };
+			const untilBreak = defer.until === 'break';
+			return \`
+				<div class="throttle">
+					<label>Show</label>
+					<select onchange="updateDefer(\${ruleIndex}, this.value === 'break' ? 'break' : \${defer.minutes || 30})">
+						<option value="after" \${untilBreak ? '' : 'selected'}>after</option>
+						<option value="break" \${untilBreak ? 'selected' : ''}>at the next break</option>
+					</select>
+					\${untilBreak ? '' : \`
+						<input type="number" min="1" value="\${defer.minutes}" onchange="updateDefer(\${ruleIndex}, this.value)">
+						<span>minutes</span>
+					\`}
+				</div>
+			\`;
+		}
+
+		function formatThrottleStats(stats) {
+			if (!stats) {
+				return '';
+			}
+			const throttled = stats.throttled ? \`, \${stats.throttled} throttled\` : '';
+			return \`\${stats.admitted}/\${stats.limit} in the last \${stats.windowMinutes} min\${throttled}\`;
+		}
+
+		function updateThrottleCounters() {
+			throttleStats.forEach((stats, index) => {
+				const span = document.getElementById('throttle-stats-' + index);
+				if (span) {
+					span.textContent = formatThrottleStats(stats);
+				}
+			});
+		}
+
+		let lintFindings = [];
+
+		function updateLintWarnings() {
+			rules.forEach((rule, index) => {
+				const div = document.getElementById('rule-warnings-' + index);
+				if (div) {
+					div.innerHTML = lintFindings
+						.filter(finding => finding.ruleIndex === index)
+						.map(finding => \`<div>⚠ \${escapeHtml(finding.message)}</div>\`)
+						.join('');
+				}
+			});
+			const summary = document.getElementById('lintSummary');
+			summary.textContent = lintFindings.length > 0
+				? \`⚠ \${lintFindings.length} warning\${lintFindings.length === 1 ? '' : 's'}: some rules can never fire or have settings without effect (see below)\`
+				: '';
+		}
+
+		function requestLint() {
+			vscode.postMessage({ command: 'lintRules', rules: rules });
+		}
+
+		function requestThrottleStats() {
+			vscode.postMessage({ command: 'loadThrottleStats', rules: rules });
+		}
+
+		function showTab(tab) {
+			document.getElementById('rulesTab').style.display = tab === 'rules' ? '' : 'none';
+			document.getElementById('whatIfTab').style.display = tab === 'whatIf' ? '' : 'none';
+			document.getElementById('rulesTabBtn').classList.toggle('active', tab === 'rules');
+			document.getElementById('whatIfTabBtn').classList.toggle('active', tab === 'whatIf');
+			if (tab === 'whatIf') {
+				requestSimulation();
+			}
+		}
+
+		function requestSimulation() {
+			simulationResultDiv.textContent = 'Replaying notifications…';
+			vscode.postMessage({ command: 'simulateRules', rules: rules });
+		}
+
+		const MAX_SIMULATION_ROWS = 200;
+
+		function renderSimulation(result) {
+			if (result.total === 0) {
+				simulationResultDiv.innerHTML = '<p>No notifications have been received yet, so there is nothing to replay.</p>';
+				return;
+			}
+			const overridden = result.overridden > 0
+				? \` \${result.overridden} decided by @mentions, another mode or a snooze are not affected by rules.\`
+				: '';
+			const summary = result.changes.length === 0
+				? \`All \${result.total} notifications would be routed the same way.\${overridden}\`
+				: \`\${result.changes.length} of \${result.total} notifications would be routed differently.\${overridden}\`;
+			const transitions = Object.entries(result.transitions)
+				.map(([transition, count]) => \`<span class="transition">\${escapeHtml(transition.replace('→', ' → '))}: \${count}</span>\`)
+				.join('');
+			const rows = result.changes.slice(0, MAX_SIMULATION_ROWS).map(change => \`
+				<tr>
+					<td>\${new Date(change.timestamp).toLocaleTimeString()}</td>
+					<td>\${escapeHtml(change.input.source)}</td>
+					<td>\${escapeHtml(change.input.title)}</td>
+					<td>\${change.before}<div class="rule-name">\${escapeHtml(change.beforeRule || 'no rule')}</div></td>
+					<td>\${change.after}<div class="rule-name">\${escapeHtml(change.afterRule || 'no rule')}</div></td>
+				</tr>
+			\`).join('');
+			const more = result.changes.length > MAX_SIMULATION_ROWS
+				? \`<p>…and \${result.changes.length - MAX_SIMULATION_ROWS} more</p>\`
+				: '';
+			simulationResultDiv.innerHTML = \`
+				<p class="simulation-summary">\${escapeHtml(summary)}</p>
+				<div>\${transitions}</div>
+				\${rows ? \`<table class="simulation-table">
+					<thead><tr><th>Time</th><th>Source</th><th>Title</th><th>Was</th><th>Would be</th></tr></thead>
+					<tbody>\${rows}</tbody>
+				</table>\` : ''}
+				\${more}
+			\`;
+		}
+
 		function getRuleDescription(rule) {
 			// Use custom title if provided, otherwise generate one
 			if (rule.title && rule.title.trim()) {
@@ -425,7 +1116,8 @@ export class RulesPanel {
 			const source = rule.source === '*' ? 'Any source' : rule.source;
 			const action = actions.find(a => a.value === rule.action)?.label || rule.action;
 			const contains = rule.contains ? \` containing "\${rule.contains}"\` : '';
-			return \`\${source}\${contains} → \${action}\`;
+			const pattern = rule.pattern ? \` matching /\${rule.pattern}/\` : '';
+			return \`\${source}\${contains}\${pattern} → \${action}\`;
 		}
 
 		function renderRules() {
@@ -438,6 +1130,7 @@ export class RulesPanel {
 				addDiv.innerHTML = '<span>+ Click to add a new rule</span>';
 				addDiv.onclick = addNewRule;
 				rulesContainer.appendChild(addDiv);
+				requestLint();
 				return;
 			}
 			
@@ -449,6 +1142,8 @@ export class RulesPanel {
 				ruleDiv.className = 'rule-item';
 				const description = getRuleDescription(rule);
 				const priorityClass = ['priority-low', 'priority-medium', 'priority-high', 'priority-critical'][rule.priority] || 'priority-low';
+				const patternError = getPatternError(rule);
+				const ruleIndex = rules.indexOf(rule);
 				ruleDiv.innerHTML = \`
 					<div class="rule-header">
 						<div style="flex: 1;">
@@ -461,11 +1156,16 @@ export class RulesPanel {
 								<span>•</span>
 								<span>\${rule.source === '*' ? 'All sources' : rule.source}</span>
 								\${rule.contains ? \`<span>•</span><span>Contains: "\${rule.contains}"</span>\` : ''}
+								\${rule.pattern ? \`<span>•</span><span>Pattern: /\${escapeHtml(rule.pattern)}/\${escapeHtml(rule.patternFlags ?? 'i')}</span>\` : ''}
+								\${rule.when ? '<span>•</span><span>Advanced conditions</span>' : ''}
+								\${rule.throttle ? \`<span>•</span><span>Max \${rule.throttle.limit} per \${rule.throttle.windowMinutes} min</span>\` : ''}
+								\${rule.schedule ? \`<span>•</span><span>\${rule.schedule.outside ? 'Outside' : 'During'} \${rule.schedule.windows.map(w => \`\${escapeHtml(w.start)}–\${escapeHtml(w.end)}\`).join(', ')}</span>\` : ''}
 								\${rule.showInFocusMode ? '<span>•</span><span style="color: var(--vscode-textLink-foreground);">Focus mode exception</span>' : ''}
 							</div>
 						</div>
 						<button class="delete-btn" onclick="deleteRule(\${rules.indexOf(rule)})" title="Delete rule">✕</button>
 					</div>
+					<div class="rule-warnings" id="rule-warnings-\${ruleIndex}"></div>
 					<div class="rule-fields">
 						<div class="form-group">
 							<label>Source</label>
@@ -494,7 +1194,40 @@ export class RulesPanel {
 							<label>Contains (optional)</label>
 							<input type="text" value="\${rule.contains || ''}" placeholder="e.g., failed, error" onchange="updateRule(\${rules.indexOf(rule)}, 'contains', this.value); renderRules();" title="Filter by text content (case-insensitive)">
 						</div>
+						<div class="form-group">
+							<label>Pattern (regex, optional)</label>
+							<input type="text" class="\${patternError ? 'invalid' : ''}" value="\${escapeHtml(rule.pattern || '')}" placeholder="e.g., failed: ([1-9]\\\\d*) errors" onchange="updateRule(\${rules.indexOf(rule)}, 'pattern', this.value); renderRules();" title="Regular expression tested against title and body">
+							\${patternError ? \`<div class="field-error">\${escapeHtml(patternError)}</div>\` : ''}
+						</div>
+						<div class="form-group">
+							<label>Pattern Flags</label>
+							<input type="text" value="\${escapeHtml(rule.patternFlags ?? 'i')}" placeholder="i" onchange="updateRule(\${rules.indexOf(rule)}, 'patternFlags', this.value); renderRules();" title="Regex flags, e.g. i (ignore case), m (multiline), s (dot matches newline)">
+						</div>
+						<div class="form-group">
+							<label>Severity at Least</label>
+							<select onchange="updateRule(\${rules.indexOf(rule)}, 'minSeverity', this.value || undefined); renderRules();" title="Only match notifications at least this severe (notifications without a severity count as info)">
+								<option value="">Any severity</option>
+								\${severities.map(s => \`<option value="\${s}" \${rule.minSeverity === s ? 'selected' : ''}>\${s.charAt(0).toUpperCase() + s.slice(1)}</option>\`).join('')}
+							</select>
+						</div>
+						<div class="form-group">
+							<label>From (optional)</label>
+							<input type="text" value="\${escapeHtml(rule.sender || '')}" placeholder="e.g., alice" onchange="updateRule(\${rules.indexOf(rule)}, 'sender', this.value || undefined); renderRules();" title="Only match notifications from this sender (case-insensitive)">
+						</div>
+						<div class="form-group">
+							<label>Channel (optional)</label>
+							<input type="text" value="\${escapeHtml(rule.channel || '')}" placeholder="e.g., #frontend" onchange="updateRule(\${rules.indexOf(rule)}, 'channel', this.value || undefined); renderRules();" title="Only match notifications posted in this channel">
+						</div>
+						<div class="form-group">
+							<label>Tag (optional)</label>
+							<input type="text" value="\${escapeHtml(rule.tag || '')}" placeholder="e.g., ci" onchange="updateRule(\${rules.indexOf(rule)}, 'tag', this.value || undefined); renderRules();" title="Only match notifications carrying this tag">
+						</div>
 					</div>
+					\${renderConditions(rule, ruleIndex)}
+					\${renderSchedule(rule, ruleIndex)}
+					\${renderThrottle(rule, ruleIndex)}
+					\${renderEscalation(rule, ruleIndex)}
+					\${renderDefer(rule, ruleIndex)}
 				\`;
 				rulesContainer.appendChild(ruleDiv);
 			});
@@ -504,6 +1237,7 @@ export class RulesPanel {
 			addDiv.innerHTML = '<span>+ Click to add a new rule</span>';
 			addDiv.onclick = addNewRule;
 			rulesContainer.appendChild(addDiv);
+			requestLint();
 		}
 
 		function addNewRule() {
@@ -513,7 +1247,8 @@ export class RulesPanel {
 				priority: 1,
 				action: 'digest',
 				showInFocusMode: false,
-				contains: ''
+				contains: '',
+				pattern: ''
 			});
 			renderRules();
 		}
@@ -535,16 +1270,70 @@ export class RulesPanel {
 			vscode.postMessage({ command: 'resetRules' });
 		});
 
+		function getDraftError() {
+			const invalid = rules.find(rule => getPatternError(rule));
+			if (invalid) {
+				return \`Invalid pattern in "\${getRuleDescription(invalid)}": \${getPatternError(invalid)}\`;
+			}
+			const invalidCondition = rules.find(rule => getConditionError(rule.when));
+			if (invalidCondition) {
+				return \`Invalid condition in "\${getRuleDescription(invalidCondition)}": \${getConditionError(invalidCondition.when)}\`;
+			}
+			const invalidSchedule = rules.find(rule => getScheduleError(rule));
+			if (invalidSchedule) {
+				return \`Invalid schedule in "\${getRuleDescription(invalidSchedule)}": \${getScheduleError(invalidSchedule)}\`;
+			}
+			return undefined;
+		}
+
+		// Apply goes through the What-if tab, so the changes can be reviewed before they take effect
 		applyBtn.addEventListener('click', () => {
-			vscode.postMessage({ command: 'applyRules' });
+			const error = getDraftError();
+			if (error) {
+				showStatus(error, 'error');
+				return;
+			}
+			showTab('whatIf');
+		});
+
+		confirmApplyBtn.addEventListener('click', () => {
+			const error = getDraftError();
+			if (error) {
+				showStatus(error, 'error');
+				return;
+			}
+			vscode.postMessage({ command: 'applyRules', rules: rules });
 		});
 
+		refreshSimulationBtn.addEventListener('click', requestSimulation);
+
 		saveBtn.addEventListener('click', () => {
+			const error = getDraftError();
+			if (error) {
+				showStatus(error, 'error');
+				return;
+			}
 			vscode.postMessage({ command: 'saveRules', rules: rules });
 		});
 
+		window.showTab = showTab;
 		window.deleteRule = deleteRule;
 		window.updateRule = updateRule;
+		window.toggleSchedule = toggleSchedule;
+		window.addWindow = addWindow;
+		window.removeWindow = removeWindow;
+		window.updateWindow = updateWindow;
+		window.toggleWindowDay = toggleWindowDay;
+		window.addCondition = addCondition;
+		window.removeCondition = removeCondition;
+		window.toggleNegate = toggleNegate;
+		window.setGroupKind = setGroupKind;
+		window.setConditionLeaf = setConditionLeaf;
+		window.toggleThrottle = toggleThrottle;
+		window.updateThrottle = updateThrottle;
+		window.toggleEscalation = toggleEscalation;
+		window.updateEscalation = updateEscalation;
+		window.updateDefer = updateDefer;
 
 		window.addEventListener('message', event => {
 			const message = event.data;
@@ -552,12 +1341,25 @@ export class RulesPanel {
 				case 'rulesLoaded':
 					rules = message.rules;
 					renderRules();
+					requestThrottleStats();
+					break;
+				case 'throttleStats':
+					throttleStats = message.stats;
+					updateThrottleCounters();
+					break;
+				case 'lintFindings':
+					lintFindings = message.findings;
+					updateLintWarnings();
 					break;
 				case 'rulesSaved':
 					showStatus(message.message, 'success');
 					break;
+				case 'simulationResult':
+					renderSimulation(message.result);
+					break;
 				case 'rulesApplied':
 					showStatus(message.message, 'success');
+					showTab('rules');
 					break;
 				case 'error':
 					showStatus(message.message, 'error');
@@ -567,6 +1369,9 @@ export class RulesPanel {
 
 		// Request rules on load
 		vscode.postMessage({ command: 'loadRules' });
+
+		// Refresh throttle counters while the panel is open
+		setInterval(requestThrottleStats, 5000);
 	</script>
 </body>
 	</html>`;
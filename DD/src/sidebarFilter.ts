@@ -0,0 +1,138 @@
+/**
+ * Filtering the notifications sidebar by text, source, priority and age. The filter is
+ * kept per workspace and shown as the view's description.
+ * @module sidebarFilter
+ */
+
+import * as vscode from 'vscode';
+import type { NotificationManager } from './notificationManager.js';
+import type { NotificationTreeProvider } from './notificationTreeProvider.js';
+import { PRIORITY_LABELS, Priority, describeAge, describeFilter, isFilterEmpty, type NotificationFilter } from './core/index.js';
+
+/** workspaceState key for the sidebar filter */
+const FILTER_STATE_KEY = 'dd.sidebarFilter';
+
+/** Context key set while a filter is active (shows the clear-filter action) */
+const FILTERED_CONTEXT_KEY = 'dd.sidebarFiltered';
+
+/** Age limits offered in the picker, in minutes */
+const AGE_LIMITS = [15, 60, 4 * 60, 24 * 60, 7 * 24 * 60];
+
+type FilterField = 'text' | 'source' | 'priority' | 'age' | 'clear';
+
+/**
+ * Ask for a new value of one filter field; undefined when the user cancels
+ */
+async function editField(field: FilterField, filter: NotificationFilter, sources: string[]): Promise<NotificationFilter | undefined> {
+	switch (field) {
+		case 'text': {
+			const text = await vscode.window.showInputBox({
+				prompt: 'Show notifications containing this text (source, title or body)',
+				placeHolder: 'Empty for any text',
+				value: filter.text ?? '',
+			});
+			return text === undefined ? undefined : { ...filter, text: text.trim() || undefined };
+		}
+		case 'source': {
+			const picked = await vscode.window.showQuickPick(
+				[{ label: 'Any source', source: undefined }, ...sources.map(source => ({ label: source, source }))],
+				{ placeHolder: 'Show notifications from' }
+			);
+			return picked && { ...filter, source: picked.source };
+		}
+		case 'priority': {
+			const priorities = [Priority.Medium, Priority.High, Priority.Critical];
+			const picked = await vscode.window.showQuickPick(
+				[
+					{ label: 'Any priority', priority: undefined },
+					...priorities.map(priority => ({
+						label: priority === Priority.Critical ? PRIORITY_LABELS[priority] : `${PRIORITY_LABELS[priority]} and above`,
+						priority,
+					})),
+				],
+				{ placeHolder: 'Show notifications whose rule has at least this priority' }
+			);
+			return picked && { ...filter, minPriority: picked.priority };
+		}
+		case 'age': {
+			const picked = await vscode.window.showQuickPick(
+				[{ label: 'Any age', minutes: undefined }, ...AGE_LIMITS.map(minutes => ({ label: describeAge(minutes), minutes }))],
+				{ placeHolder: 'Show notifications seen within' }
+			);
+			return picked && { ...filter, maxAgeMinutes: picked.minutes };
+		}
+		case 'clear':
+			return {};
+	}
+}
+
+/**
+ * Register the filter and clear-filter commands of the `ddNotifications` view and restore
+ * the workspace's filter
+ */
+export function registerSidebarFilter(
+	context: vscode.ExtensionContext,
+	treeView: vscode.TreeView<vscode.TreeItem>,
+	treeProvider: NotificationTreeProvider,
+	notificationManager: NotificationManager
+): void {
+	// Description, empty-state message and clear action follow the filter and the notifications
+	const updateView = () => {
+		const filter = treeProvider.getFilter();
+		const filtered = !isFilterEmpty(filter);
+		const { shown, total } = treeProvider.getVisibleCount();
+		treeView.description = filtered ? describeFilter(filter) : undefined;
+		treeView.message = filtered && shown === 0 && total > 0
+			? `No notifications match the filter (${total} hidden)`
+			: undefined;
+		void vscode.commands.executeCommand('setContext', FILTERED_CONTEXT_KEY, filtered);
+	};
+
+	const applyFilter = (filter: NotificationFilter) => {
+		treeProvider.setFilter(filter);
+		void context.workspaceState.update(FILTER_STATE_KEY, isFilterEmpty(filter) ? undefined : filter);
+	};
+
+	context.subscriptions.push(treeProvider.onDidChangeTreeData(updateView));
+	treeProvider.setFilter(context.workspaceState.get<NotificationFilter>(FILTER_STATE_KEY, {}));
+
+	// Edit the filter one field at a time; each change applies at once, Escape closes the menu
+	const filterNotificationsCommand = vscode.commands.registerCommand('DD.filterNotifications', async () => {
+		try {
+			for (;;) {
+				const filter = treeProvider.getFilter();
+				const items: Array<vscode.QuickPickItem & { field: FilterField }> = [
+					{ label: '$(search) Text', description: filter.text ? `"${filter.text}"` : 'any', field: 'text' },
+					{ label: '$(symbol-namespace) Source', description: filter.source ?? 'any', field: 'source' },
+					{ label: '$(arrow-up) Priority', description: filter.minPriority === undefined ? 'any' : describeFilter({ minPriority: filter.minPriority }), field: 'priority' },
+					{ label: '$(history) Age', description: filter.maxAgeMinutes === undefined ? 'any' : describeAge(filter.maxAgeMinutes), field: 'age' },
+				];
+				if (!isFilterEmpty(filter)) {
+					items.push({ label: '$(clear-all) Clear Filter', field: 'clear' });
+				}
+				const picked = await vscode.window.showQuickPick(items, {
+					placeHolder: isFilterEmpty(filter) ? 'Filter notifications by' : `Filter: ${describeFilter(filter)}`,
+				});
+				if (!picked) {
+					return;
+				}
+				const sources = [...new Set(notificationManager.getDigestedNotifications().map(n => n.input.source))].sort();
+				const edited = await editField(picked.field, filter, sources);
+				if (edited) {
+					applyFilter(edited);
+				}
+				if (picked.field === 'clear') {
+					return;
+				}
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to filter notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	});
+
+	const clearNotificationFilterCommand = vscode.commands.registerCommand('DD.clearNotificationFilter', () => {
+		applyFilter({});
+	});
+
+	context.subscriptions.push(filterNotificationsCommand, clearNotificationFilterCommand);
+}
@@ -0,0 +1,40 @@
+/**
+ * Choosing how the notifications sidebar is grouped (source, matched rule, priority,
+ * time, or a flat list). The choice is kept per workspace.
+ * @module sidebarGrouping
+ */
+
+import * as vscode from 'vscode';
+import type { NotificationTreeProvider } from './notificationTreeProvider.js';
+import { GROUPING_MODES, type GroupingMode } from './core/index.js';
+
+/** workspaceState key for the sidebar grouping */
+const GROUPING_STATE_KEY = 'dd.sidebarGrouping';
+
+/**
+ * Register the group-by command of the `ddNotifications` view and restore the workspace's grouping
+ */
+export function registerSidebarGrouping(context: vscode.ExtensionContext, treeProvider: NotificationTreeProvider): void {
+	const saved = context.workspaceState.get<GroupingMode>(GROUPING_STATE_KEY);
+	if (saved && GROUPING_MODES.some(({ mode }) => mode === saved)) {
+		treeProvider.setGrouping(saved);
+	}
+
+	const groupNotificationsCommand = vscode.commands.registerCommand('DD.groupNotifications', async () => {
+		const current = treeProvider.getGrouping();
+		const picked = await vscode.window.showQuickPick(
+			GROUPING_MODES.map(({ mode, label }) => ({
+				label: mode === current ? `$(check) ${label}` : label,
+				description: mode === current ? 'current' : undefined,
+				mode,
+			})),
+			{ placeHolder: 'Group notifications by' }
+		);
+		if (picked && picked.mode !== current) {
+			treeProvider.setGrouping(picked.mode);
+			void context.workspaceState.update(GROUPING_STATE_KEY, picked.mode);
+		}
+	});
+
+	context.subscriptions.push(groupNotificationsCommand);
+}
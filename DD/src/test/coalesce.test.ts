@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { coalesceInto, findCoalescable, getCoalesceKey, normalizeBody, type CoalescableEntry, type CoalescedEntry, type NotificationInput } from '../core/index.js';
+
+const MINUTE = 60_000;
+const WINDOW = 5 * MINUTE;
+
+suite('Coalescing', () => {
+	const diagnostics = (body: string, sender?: string): NotificationInput => ({
+		source: 'Language Server',
+		title: 'Diagnostics',
+		body,
+		metadata: sender ? { sender } : undefined,
+	});
+
+	test('treats repeats differing only in numbers, whitespace and case as the same', () => {
+		assert.strictEqual(normalizeBody(' Updated  diagnostics for 12 Files '), 'updated diagnostics for # files');
+		assert.strictEqual(getCoalesceKey(diagnostics('Updated diagnostics for 8 files')), getCoalesceKey(diagnostics('updated diagnostics for 12  files')));
+		assert.notStrictEqual(getCoalesceKey(diagnostics('Updated diagnostics')), getCoalesceKey(diagnostics('Cleared diagnostics')));
+		assert.notStrictEqual(getCoalesceKey(diagnostics('ping', 'Ann')), getCoalesceKey(diagnostics('ping', 'Bob')));
+	});
+
+	test('merges into the newest matching entry seen within the window', () => {
+		const older: CoalescableEntry = { input: diagnostics('8 files'), timestamp: 0 };
+		const newer: CoalescableEntry = { input: diagnostics('9 files'), timestamp: 2 * MINUTE };
+		const other: CoalescableEntry = { input: diagnostics('build done'), timestamp: 3 * MINUTE };
+		const entries = [older, newer, other];
+		assert.strictEqual(findCoalescable(entries, diagnostics('10 files'), 6 * MINUTE, WINDOW), newer);
+		assert.strictEqual(findCoalescable(entries, diagnostics('10 files'), 7 * MINUTE, WINDOW), newer, 'the window end is inclusive');
+		assert.strictEqual(findCoalescable(entries, diagnostics('10 files'), 7 * MINUTE + 1, WINDOW), undefined);
+	});
+
+	test('measures the window from the latest repeat, and 0 disables coalescing', () => {
+		const entry: CoalescableEntry = { input: diagnostics('8 files'), timestamp: 0, lastSeen: 9 * MINUTE };
+		assert.strictEqual(findCoalescable([entry], diagnostics('1 file'), 12 * MINUTE, WINDOW), undefined, '"file" is not "files"');
+		assert.strictEqual(findCoalescable([entry], diagnostics('3 files'), 12 * MINUTE, WINDOW), entry);
+		assert.strictEqual(findCoalescable([entry], diagnostics('3 files'), 9 * MINUTE, 0), undefined);
+	});
+
+	test('merges repeats into one entry without changing the entries passed in', () => {
+		type Entry = CoalescedEntry<Entry>;
+		const history: Entry[] = [0, 1, 2].map(minutes => ({ input: diagnostics(`${minutes} files`), timestamp: minutes * MINUTE }));
+		const digested: Entry[] = [];
+		for (const entry of history) {
+			coalesceInto(digested, entry, WINDOW);
+		}
+		assert.deepStrictEqual(history.map(entry => entry.count ?? 1), [1, 1, 1]);
+		assert.ok(history.every(entry => entry.occurrences === undefined && entry.lastSeen === undefined));
+		assert.strictEqual(digested.length, 1);
+		assert.deepStrictEqual([digested[0].count, digested[0].lastSeen, digested[0].occurrences?.length], [3, 2 * MINUTE, 3]);
+		assert.notStrictEqual(digested[0], history[0]);
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import { compileRules, findMatchingRule, route, type NotificationInput, type Rule, type RuleCondition, type Severity } from '../core/index.js';
+
+/** Small deterministic PRNG (mulberry32) so failures are reproducible from the seed */
+function createRandom(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+const SOURCES = ['Git', 'git', 'Build', 'Test', 'Language Server', 'Chat', 'Unknown'];
+const WORDS = ['failed', 'FAILED', 'conflict', 'passed', 'error', ' ', '', 'diagnostics', 'ok'];
+const PATTERNS = ['fail(ed)?', '^Build', '\\d+ errors', '(', 'Conflict'];
+const SEVERITIES: Severity[] = ['info', 'warning', 'error', 'critical'];
+const PEOPLE = ['alice', 'Bob', ' ', 'carol'];
+
+suite('compileRules', () => {
+	const random = createRandom(42);
+	const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+	const maybe = <T>(value: () => T, chance = 0.3): T | undefined => (random() < chance ? value() : undefined);
+
+	const randomLeaf = (): RuleCondition => ({
+		source: maybe(() => pick(SOURCES)),
+		contains: maybe(() => pick(WORDS)),
+		minSeverity: maybe(() => pick(SEVERITIES), 0.2),
+		tag: maybe(() => pick(['ci', 'CI', 'flaky']), 0.2),
+	});
+
+	const randomCondition = (depth: number): RuleCondition => {
+		const kind = depth > 1 ? 'leaf' : pick(['leaf', 'leaf', 'all', 'any', 'not']);
+		switch (kind) {
+			case 'all': return { all: [randomCondition(depth + 1), randomCondition(depth + 1)] };
+			case 'any': return { any: [randomCondition(depth + 1), randomCondition(depth + 1)] };
+			case 'not': return { not: randomCondition(depth + 1) };
+			default: return randomLeaf();
+		}
+	};
+
+	const randomRule = (): Rule => ({
+		source: random() < 0.25 ? '*' : pick(SOURCES),
+		contains: maybe(() => pick(WORDS), 0.5),
+		pattern: maybe(() => pick(PATTERNS), 0.2),
+		patternFlags: maybe(() => pick(['', 'i', 'gi']), 0.3),
+		minSeverity: maybe(() => pick(SEVERITIES), 0.2),
+		sender: maybe(() => pick(PEOPLE), 0.15),
+		channel: maybe(() => pick(['#frontend', 'frontend', 'ops']), 0.15),
+		tag: maybe(() => pick(['ci', 'flaky']), 0.15),
+		schedule: maybe(() => ({ windows: [{ start: '09:00', end: '17:00' }], outside: random() < 0.5 }), 0.15),
+		when: maybe(() => randomCondition(0), 0.25),
+		action: pick(['allow', 'suppress', 'digest'] as const),
+	});
+
+	const randomInput = (): NotificationInput => ({
+		source: pick(SOURCES),
+		title: `${pick(['Build', 'Merge', 'Tests'])} ${pick(WORDS)}`,
+		body: `${random() < 0.5 ? Math.floor(random() * 5) : 'no'} errors ${pick(WORDS)}`,
+		severity: maybe(() => pick(SEVERITIES), 0.7),
+		metadata: maybe(() => ({
+			sender: maybe(() => pick(PEOPLE), 0.6),
+			channel: maybe(() => pick(['#Frontend', 'ops']), 0.5),
+			tags: maybe(() => [pick(['CI', 'flaky', 'nightly'])], 0.5),
+		}), 0.6),
+	});
+
+	test('gives the same results as route() and findMatchingRule() on random rules and inputs', () => {
+		for (let run = 0; run < 200; run++) {
+			const rules = Array.from({ length: 1 + Math.floor(random() * 12) }, randomRule);
+			const compiled = compileRules(rules);
+			for (let i = 0; i < 25; i++) {
+				const input = randomInput();
+				const now = Date.UTC(2026, 0, 5 + Math.floor(random() * 7), Math.floor(random() * 24));
+				const getNow = () => now;
+				const state = {
+					focusMode: random() < 0.5,
+					snoozeUntil: maybe(() => now + (random() < 0.5 ? 1 : -1) * 60_000, 0.1),
+					sourceSnoozes: maybe(() => ({ [pick(SOURCES)]: now + (random() < 0.5 ? 1 : -1) * 60_000 }), 0.2),
+				};
+				const context = JSON.stringify({ rules, input, state, now });
+				assert.strictEqual(compiled.findMatchingRule(input, getNow), findMatchingRule(input, rules, { getNow }), context);
+				assert.strictEqual(compiled.route(input, state, getNow), route(input, state, rules, { getNow }), context);
+			}
+		}
+	});
+
+	test('keeps first-match order across source and wildcard rules', () => {
+		const rules: Rule[] = [
+			{ source: '*', contains: 'urgent', action: 'allow' },
+			{ source: 'Build', action: 'suppress' },
+			{ source: '*', action: 'digest' },
+		];
+		const compiled = compileRules(rules);
+		const build = (body: string): NotificationInput => ({ source: 'BUILD', title: 'Build', body });
+		assert.strictEqual(compiled.findMatchingRule(build('URGENT fix')), rules[0]);
+		assert.strictEqual(compiled.findMatchingRule(build('done')), rules[1]);
+		assert.strictEqual(compiled.findMatchingRule({ source: 'Other', title: 'x', body: 'y' }), rules[2]);
+	});
+
+	test('snapshots the rule list', () => {
+		const rules: Rule[] = [{ source: 'Git', action: 'allow' }];
+		const compiled = compileRules(rules);
+		rules.push({ source: '*', action: 'suppress' });
+		assert.strictEqual(compiled.rules.length, 1);
+		assert.strictEqual(compiled.route({ source: 'Test', title: 't', body: 'b' }, { focusMode: true }), 'digest');
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { describeCondition, evaluateCondition, route, validateCondition, type NotificationInput, type RuleCondition } from '../core/index.js';
+
+suite('Condition trees', () => {
+	const gitFailed: NotificationInput = { source: 'Git', title: 'Push failed', body: 'remote rejected' };
+	const flakyBuild: NotificationInput = { source: 'Build', title: 'Build failed', body: 'flaky test' };
+	const chat: NotificationInput = { source: 'Chat', title: 'Lunch?', body: '' };
+	const failures: RuleCondition = {
+		all: [
+			{ any: [{ source: 'Git' }, { source: 'Build' }] },
+			{ contains: 'failed' },
+			{ not: { contains: 'flaky' } },
+		],
+	};
+
+	test('combines all, any and not', () => {
+		assert.strictEqual(evaluateCondition(failures, gitFailed), true);
+		assert.strictEqual(evaluateCondition(failures, flakyBuild), false);
+		assert.strictEqual(evaluateCondition(failures, chat), false);
+	});
+
+	test('empty all holds, empty any does not, an empty leaf matches anything', () => {
+		assert.strictEqual(evaluateCondition({ all: [] }, chat), true);
+		assert.strictEqual(evaluateCondition({ any: [] }, chat), false);
+		assert.strictEqual(evaluateCondition({ not: { any: [] } }, chat), true);
+		assert.strictEqual(evaluateCondition({}, chat), true);
+	});
+
+	test('rules match only when their when tree holds as well', () => {
+		const rules = [{ source: '*', action: 'suppress' as const, when: failures }];
+		assert.strictEqual(route(gitFailed, { focusMode: false }, rules), 'suppress');
+		assert.strictEqual(route(flakyBuild, { focusMode: false }, rules), 'allow');
+	});
+
+	test('describes and validates trees', () => {
+		assert.strictEqual(
+			describeCondition(failures),
+			'(source is "Git" or source is "Build") and contains "failed" and not contains "flaky"'
+		);
+		assert.strictEqual(describeCondition({ all: [] }), 'anything');
+		assert.strictEqual(describeCondition({ any: [] }), 'nothing');
+		assert.strictEqual(validateCondition(failures), undefined);
+		assert.match(validateCondition({ not: { pattern: '(' } }) ?? '', /^invalid pattern \/\(\//);
+		assert.match(validateCondition({ any: 'Git' as never }) ?? '', /"any" must be a list/);
+	});
+});
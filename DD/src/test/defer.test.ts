@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { DeferQueue, parseRuleDsl, serializeRuleDsl, type DeferredEntry } from '../core/index.js';
+import { createFakeTime } from './fakeTime.js';
+
+suite('DeferQueue', () => {
+	test('releases items when their delay has passed, earliest first', () => {
+		const time = createFakeTime();
+		const released: string[] = [];
+		const queue = new DeferQueue<string>(entries => released.push(...entries.map(e => e.item)), time.getNow, time.timer);
+		queue.add('later', { minutes: 30 });
+		queue.add('sooner', { minutes: 10 });
+		time.advance(10 * 60_000 - 1);
+		assert.deepStrictEqual(released, []);
+		time.advance(1);
+		assert.deepStrictEqual(released, ['sooner']);
+		time.advance(20 * 60_000);
+		assert.deepStrictEqual(released, ['sooner', 'later']);
+		assert.strictEqual(time.pendingTimers(), 0);
+	});
+
+	test('holds "until break" items until releaseBreak()', () => {
+		const time = createFakeTime();
+		const released: string[] = [];
+		const queue = new DeferQueue<string>(entries => released.push(...entries.map(e => e.item)), time.getNow, time.timer);
+		queue.add('at break', { until: 'break' });
+		queue.add('timed', { minutes: 5 });
+		time.advance(24 * 3600_000);
+		assert.deepStrictEqual(released, ['timed']);
+		queue.releaseBreak();
+		assert.deepStrictEqual(released, ['timed', 'at break']);
+		assert.deepStrictEqual(queue.getPending(), []);
+	});
+
+	test('restores persisted entries and releases overdue ones at once', () => {
+		const time = createFakeTime();
+		time.advance(60 * 60_000);
+		const saved: DeferredEntry<string>[] = [
+			{ id: 7, item: 'overdue', deferredAt: 0, dueAt: 30 * 60_000 },
+			{ id: 8, item: 'pending', deferredAt: 0, dueAt: 90 * 60_000 },
+			{ id: 9, item: 'at break', deferredAt: 0 },
+		];
+		const released: string[] = [];
+		const queue = new DeferQueue<string>(entries => released.push(...entries.map(e => e.item)), time.getNow, time.timer);
+		queue.restore(JSON.parse(JSON.stringify(saved)));
+		assert.deepStrictEqual(released, ['overdue']);
+		assert.deepStrictEqual(queue.getPending().map(e => e.item), ['pending', 'at break']);
+		time.advance(30 * 60_000);
+		assert.deepStrictEqual(released, ['overdue', 'pending']);
+	});
+
+	test('is written and read in the rules text format', () => {
+		const text = 'Chat -> defer 30m\nExtension -> defer until break\nGit -> defer\n';
+		const { rules, errors } = parseRuleDsl(text);
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules.map(r => r.defer), [{ minutes: 30 }, { until: 'break' }, undefined]);
+		assert.strictEqual(serializeRuleDsl(rules), text);
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { DigestScheduler, getNextDelivery, summarizeDigest, validateDigestSchedule, type DigestEntry, type DigestSchedule } from '../core/index.js';
+import { createFakeTime } from './fakeTime.js';
+
+const MINUTE = 60_000;
+
+/** Local time on Monday 2 March 2026 (offset in days for later dates) */
+function at(hours: number, minutes = 0, days = 0): number {
+	return new Date(2026, 2, 2 + days, hours, minutes).getTime();
+}
+
+suite('Scheduled digests', () => {
+	const daily: DigestSchedule = { times: ['15:00', '11:00', '17:30'], intervalMinutes: 0 };
+
+	test('finds the next time of day, rolling over to tomorrow', () => {
+		assert.strictEqual(getNextDelivery(daily, at(9)), at(11));
+		assert.strictEqual(getNextDelivery(daily, at(11)), at(15));
+		assert.strictEqual(getNextDelivery(daily, at(16, 59)), at(17, 30));
+		assert.strictEqual(getNextDelivery(daily, at(18)), at(11, 0, 1));
+		assert.strictEqual(getNextDelivery({ times: [], intervalMinutes: 0 }, at(9)), undefined);
+	});
+
+	test('counts intervals from their start and combines them with times of day', () => {
+		const every45 = { times: [], intervalMinutes: 45 };
+		assert.strictEqual(getNextDelivery(every45, at(9), at(9)), at(9, 45));
+		assert.strictEqual(getNextDelivery(every45, at(10, 0), at(9)), at(10, 30));
+		assert.strictEqual(getNextDelivery({ times: ['10:15'], intervalMinutes: 45 }, at(10, 0), at(9)), at(10, 15));
+	});
+
+	test('reports malformed times and negative intervals', () => {
+		assert.deepStrictEqual(validateDigestSchedule(daily), []);
+		assert.deepStrictEqual(validateDigestSchedule({ times: ['25:00', '9:5'], intervalMinutes: -1 }), [
+			'invalid time "25:00" (expected HH:MM)',
+			'invalid time "9:5" (expected HH:MM)',
+			'intervalMinutes must be 0 or more',
+		]);
+	});
+
+	test('delivers at each scheduled time until disposed', () => {
+		const time = createFakeTime();
+		time.advance(at(9));
+		const deliveries: number[] = [];
+		const scheduler = new DigestScheduler(due => deliveries.push(due), daily, time.getNow, time.timer);
+		assert.strictEqual(scheduler.getNextDelivery(), at(11));
+
+		time.advance(at(11, 0, 1) - at(9));
+		assert.deepStrictEqual(deliveries, [at(11), at(15), at(17, 30), at(11, 0, 1)]);
+		assert.strictEqual(scheduler.getNextDelivery(), at(15, 0, 1));
+
+		scheduler.dispose();
+		assert.strictEqual(time.pendingTimers(), 0);
+		assert.strictEqual(scheduler.getNextDelivery(), undefined);
+	});
+
+	test('restarts intervals when the schedule changes', () => {
+		const time = createFakeTime();
+		time.advance(at(9));
+		const deliveries: number[] = [];
+		const scheduler = new DigestScheduler(due => deliveries.push(due), { times: [], intervalMinutes: 30 }, time.getNow, time.timer);
+		time.advance(70 * MINUTE);
+		assert.deepStrictEqual(deliveries, [at(9, 30), at(10)]);
+
+		scheduler.setSchedule({ times: [], intervalMinutes: 60 });
+		time.advance(60 * MINUTE);
+		assert.deepStrictEqual(deliveries, [at(9, 30), at(10), at(11, 10)]);
+
+		scheduler.setSchedule({ times: [], intervalMinutes: 0 });
+		assert.strictEqual(time.pendingTimers(), 0);
+		scheduler.dispose();
+	});
+
+	test('each delivery counts only the repeats since the previous one', () => {
+		const time = createFakeTime();
+		time.advance(at(9));
+		const build: DigestEntry = { input: { source: 'Build', title: 'Compiled', body: '' }, timestamp: at(9), occurrences: [] };
+		const repeat = () => {
+			const occurrences = [...(build.occurrences ?? []), { timestamp: time.getNow() }];
+			Object.assign(build, { occurrences, count: occurrences.length, lastSeen: time.getNow() });
+		};
+		let lastDelivery = time.getNow();
+		const totals: number[] = [];
+		const scheduler = new DigestScheduler(due => {
+			totals.push(summarizeDigest([build], lastDelivery).total);
+			lastDelivery = due;
+		}, { times: [], intervalMinutes: 30 }, time.getNow, time.timer);
+
+		repeat();
+		time.advance(10 * MINUTE);
+		repeat();
+		time.advance(10 * MINUTE);
+		repeat();
+		time.advance(20 * MINUTE);
+		repeat();
+		time.advance(20 * MINUTE);
+		assert.deepStrictEqual(totals, [3, 1]);
+		assert.strictEqual(summarizeDigest([build]).total, 4);
+		scheduler.dispose();
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { EscalationTracker, getEscalationKey, type RuleEscalation } from '../core/index.js';
+
+suite('EscalationTracker', () => {
+	const escalation: RuleEscalation = { count: 3, withinMinutes: 10 };
+	let now: number;
+	let tracker: EscalationTracker;
+
+	setup(() => {
+		now = 1_000_000;
+		tracker = new EscalationTracker(() => now);
+	});
+
+	test('escalates on the configured repeat, then counts afresh', () => {
+		const counts = [1, 2, 3, 4, 5, 6].map(() => tracker.record('key', escalation));
+		assert.deepStrictEqual(counts, [undefined, undefined, 3, undefined, undefined, 3]);
+	});
+
+	test('only counts repeats within the window', () => {
+		tracker.record('key', escalation);
+		now += 6 * 60_000;
+		tracker.record('key', escalation);
+		now += 4 * 60_000;
+		assert.strictEqual(tracker.record('key', escalation), undefined, 'the first repeat left the window');
+		assert.strictEqual(tracker.record('key', escalation), 3);
+	});
+
+	test('tracks keys independently and forgets everything on reset', () => {
+		tracker.record('a', escalation);
+		tracker.record('a', escalation);
+		assert.strictEqual(tracker.record('b', escalation), undefined);
+		tracker.reset();
+		assert.strictEqual(tracker.record('a', escalation), undefined);
+	});
+
+	test('keys by sender when known, else by title', () => {
+		const fromAnn = (title: string) => ({ source: 'Chat', title, body: '', metadata: { sender: 'Ann' } });
+		assert.strictEqual(getEscalationKey(fromAnn('ping')), getEscalationKey({ ...fromAnn('are you there?'), source: 'CHAT' }));
+		assert.strictEqual(getEscalationKey({ source: 'Build', title: 'Failed', body: 'a' }), getEscalationKey({ source: 'build', title: 'failed', body: 'b' }));
+		assert.notStrictEqual(getEscalationKey({ source: 'Build', title: 'Failed', body: '' }), getEscalationKey({ source: 'Build', title: 'Passed', body: '' }));
+	});
+});
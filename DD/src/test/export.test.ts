@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { exportNotifications, routeWithTrace, toExportRecord, type ExportEntry, type Rule } from '../core/index.js';
+
+suite('Notification export', () => {
+	const rules: Rule[] = [
+		{ title: 'Build failures', source: 'Build', contains: 'failed', action: 'allow' },
+		{ source: '*', action: 'digest' },
+	];
+	const routed = (source: string, title: string, body: string, timestamp: number, extra: Partial<ExportEntry> = {}): ExportEntry => {
+		const input = { source, title, body };
+		const trace = routeWithTrace(input, { focusMode: false }, rules, { getNow: () => timestamp });
+		return { input, action: trace.action, timestamp, trace, mode: 'normal', ...extra };
+	};
+	const entries: ExportEntry[] = [
+		routed('Build', 'Build failed', 'tsc exited with 2', Date.UTC(2026, 2, 2, 9, 0)),
+		routed('Chat', 'Message from ann', 'Standup, "now",\nplease', Date.UTC(2026, 2, 2, 9, 5), {
+			count: 3,
+			lastSeen: Date.UTC(2026, 2, 2, 9, 20),
+			mode: 'focus',
+		}),
+		routed('Build', 'Build failed', 'lint errors', Date.UTC(2026, 2, 2, 9, 30), { mention: { kind: 'direct', handle: '@ann' }, override: 'mention' }),
+	];
+	entries[1].input.metadata = { sender: 'ann', channel: '#team', tags: ['standup', 'daily'] };
+
+	test('flattens routing metadata into records', () => {
+		const record = toExportRecord(entries[0]);
+		assert.strictEqual(record.timestamp, '2026-03-02T09:00:00.000Z');
+		assert.strictEqual(record.action, 'allow');
+		assert.strictEqual(record.decidedBy, 'rule');
+		assert.strictEqual(record.rule, '#1 "Build failures"');
+		assert.strictEqual(record.count, 1);
+
+		const coalesced = toExportRecord(entries[1]);
+		assert.strictEqual(coalesced.rule, '#2 "any source → digest"');
+		assert.strictEqual(coalesced.count, 3);
+		assert.strictEqual(coalesced.lastSeen, '2026-03-02T09:20:00.000Z');
+		assert.strictEqual(toExportRecord(entries[2]).mention, '@ann');
+	});
+
+	test('JSON has one record per notification', () => {
+		const parsed = JSON.parse(exportNotifications(entries, 'json'));
+		assert.strictEqual(parsed.length, 3);
+		assert.deepStrictEqual(parsed[1].metadata, { sender: 'ann', channel: '#team', tags: ['standup', 'daily'] });
+		assert.strictEqual(parsed[2].override, 'mention');
+	});
+
+	test('CSV quotes separators, quotes and line breaks', () => {
+		const lines = exportNotifications(entries, 'csv').split('\r\n');
+		assert.strictEqual(lines[0].split(',')[0], 'timestamp');
+		assert.strictEqual(lines[0].split(',').length, 20);
+		assert.ok(lines[1].startsWith('2026-03-02T09:00:00.000Z,Build,Build failed,tsc exited with 2,,allow,rule,"#1 ""Build failures""",normal,'));
+		assert.ok(lines[2].includes(',"Standup, ""now"",\nplease",'));
+		assert.ok(lines[2].endsWith(',3,2026-03-02T09:20:00.000Z,ann,#team,standup;daily'));
+		assert.strictEqual(lines[lines.length - 1], '');
+	});
+
+	test('Markdown groups by source, largest group first, with routing details', () => {
+		const markdown = exportNotifications(entries, 'markdown', { title: 'Heads-down', formatTime: t => new Date(t).toISOString().slice(11, 16) });
+		assert.strictEqual(markdown, [
+			'# Heads-down',
+			'',
+			'5 notifications from 09:00 to 09:30.',
+			'',
+			'## Chat (3)',
+			'',
+			'- 09:05 **Message from ann** — Standup, "now", please _(digest · rule #2 "any source → digest" · mode focus · ×3)_',
+			'',
+			'## Build (2)',
+			'',
+			'- 09:00 **Build failed** — tsc exited with 2 _(allow · rule #1 "Build failures")_',
+			'- 09:30 **Build failed** — lint errors _(allow · rule #1 "Build failures" · mention @ann)_',
+			'',
+		].join('\n'));
+		assert.strictEqual(exportNotifications([], 'markdown'), '# Notifications\n\n_No notifications._\n');
+	});
+});
@@ -0,0 +1,32 @@
+import type { Timer } from '../core/index.js';
+
+/** Fake clock and timer: advance() moves time forward and fires timers that came due */
+export function createFakeTime() {
+	let now = 0;
+	let timers: Array<{ at: number; callback: () => void; handle: number }> = [];
+	let nextHandle = 1;
+	const timer: Timer = {
+		setTimeout: (callback, ms) => {
+			const handle = nextHandle++;
+			timers.push({ at: now + ms, callback, handle });
+			return handle;
+		},
+		clearTimeout: (handle) => {
+			timers = timers.filter(t => t.handle !== handle);
+		},
+	};
+	const advance = (ms: number) => {
+		const target = now + ms;
+		for (;;) {
+			const due = timers.filter(t => t.at <= target).sort((a, b) => a.at - b.at)[0];
+			if (!due) {
+				break;
+			}
+			timers = timers.filter(t => t !== due);
+			now = due.at;
+			due.callback();
+		}
+		now = target;
+	};
+	return { getNow: () => now, timer, advance, pendingTimers: () => timers.length };
+}
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { BUILT_IN_MODES, FOCUS_MODE_ID, NORMAL_MODE, Priority, convertToRoutingRules, route, type NotificationInput, type SourceRuleConfig } from '../core/index.js';
+
+const focus = BUILT_IN_MODES.find(mode => mode.id === FOCUS_MODE_ID)!;
+
+const configs = (): SourceRuleConfig[] => [
+	{ title: 'Build Failures', source: 'Build', priority: Priority.High, action: 'allow', showInFocusMode: false, contains: 'failed' },
+	{ title: 'Debug Exceptions', source: 'Debug', priority: Priority.Critical, action: 'allow', showInFocusMode: true, contains: 'Exception' },
+	{ title: 'Chat Messages', source: 'Chat', priority: Priority.Medium, action: 'digest', showInFocusMode: true },
+];
+
+const exception: NotificationInput = { source: 'Debug', title: 'NullReferenceException', body: 'at main.ts:12' };
+const buildFailed: NotificationInput = { source: 'Build', title: 'Build failed', body: '3 errors' };
+const gitPushed: NotificationInput = { source: 'Git', title: 'Pushed', body: 'main' };
+
+/** Route as the manager does after the rules panel applies `rules` in the given mode */
+function routeIn(mode: typeof focus, rules: SourceRuleConfig[], input: NotificationInput) {
+	return route(input, { focusMode: mode.id === FOCUS_MODE_ID }, convertToRoutingRules(rules, mode));
+}
+
+suite('Focus mode breakthrough rules', () => {
+	test('breakthrough rules still apply in focus mode; everything else goes to the sidebar', () => {
+		assert.strictEqual(routeIn(focus, configs(), exception), 'allow');
+		assert.strictEqual(routeIn(focus, configs(), buildFailed), 'digest');
+		assert.strictEqual(routeIn(focus, configs(), gitPushed), 'digest');
+		assert.deepStrictEqual(convertToRoutingRules(configs(), focus).map(rule => rule.title), [
+			'Debug Exceptions',
+			'Chat Messages',
+			'Catch-all (Focus mode)',
+		]);
+	});
+
+	test('the rules panel focus toggle changes what breaks through', () => {
+		const rules = configs();
+		rules[0].showInFocusMode = true;
+		rules[1].showInFocusMode = false;
+		assert.strictEqual(routeIn(focus, rules, buildFailed), 'allow');
+		assert.strictEqual(routeIn(focus, rules, exception), 'digest');
+	});
+
+	test('the toggle does not affect normal mode', () => {
+		const rules = configs();
+		rules.forEach(rule => rule.showInFocusMode = !rule.showInFocusMode);
+		for (const set of [configs(), rules]) {
+			assert.strictEqual(routeIn(NORMAL_MODE, set, exception), 'allow');
+			assert.strictEqual(routeIn(NORMAL_MODE, set, buildFailed), 'allow');
+			assert.strictEqual(routeIn(NORMAL_MODE, set, gitPushed), 'digest');
+		}
+	});
+});
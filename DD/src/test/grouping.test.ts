@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { DEFAULT_SOURCE_ICON, NORMAL_MODE, Priority, convertToRoutingRules, getSourceIcon, groupNotifications, routeWithTrace, type FilterableEntry, type NotificationGroup, type SourceRuleConfig } from '../core/index.js';
+
+const MINUTE = 60_000;
+
+suite('Sidebar grouping', () => {
+	const configs: SourceRuleConfig[] = [
+		{ source: 'Build', contains: 'failed', action: 'digest', priority: Priority.Critical, showInFocusMode: false },
+		{ source: 'Git', action: 'digest', priority: Priority.Medium, showInFocusMode: false },
+	];
+	const rules = convertToRoutingRules(configs, NORMAL_MODE);
+	const now = new Date(2026, 9, 19, 12, 0).getTime();
+	const routed = (source: string, title: string, minutesAgo: number, lastSeenMinutesAgo?: number): FilterableEntry => {
+		const input = { source, title, body: '' };
+		const trace = routeWithTrace(input, { focusMode: false }, rules, { getNow: () => now });
+		return {
+			input,
+			action: trace.action,
+			timestamp: now - minutesAgo * MINUTE,
+			lastSeen: lastSeenMinutesAgo === undefined ? undefined : now - lastSeenMinutesAgo * MINUTE,
+			trace,
+		};
+	};
+	const entries = [
+		routed('Build', 'Build failed', 90),
+		routed('Git', 'Pushed', 24 * 60, 5),
+		routed('Jira', 'Ticket assigned', 30),
+		routed('Git', 'Pulled', 13 * 60),
+		routed('Build', 'Build started', 20),
+	];
+	const summary = (groups: NotificationGroup<FilterableEntry>[]) =>
+		groups.map(group => `${group.label} (${group.icon}): ${group.entries.map(entry => entry.input.title).join(', ')}`);
+
+	test('orders built-in sources first and gives unknown sources the default icon', () => {
+		assert.deepStrictEqual(summary(groupNotifications(entries, 'source', now)), [
+			'Git (git-branch): Pushed, Pulled',
+			'Build (tools): Build started, Build failed',
+			'Jira (bell): Ticket assigned',
+		]);
+		assert.strictEqual(getSourceIcon('language server'), 'server-process');
+		assert.strictEqual(getSourceIcon('Jira'), DEFAULT_SOURCE_ICON);
+	});
+
+	test('groups by matched rule, priority and time bucket', () => {
+		assert.deepStrictEqual(summary(groupNotifications(entries, 'rule', now)), [
+			'Build containing "failed" → Digest (Sidebar) (filter): Build failed',
+			'Git → Digest (Sidebar) (filter): Pushed, Pulled',
+			'Catch-all (filter): Build started, Ticket assigned',
+		]);
+		assert.deepStrictEqual(summary(groupNotifications(entries, 'priority', now)), [
+			'Critical priority (flame): Build failed',
+			'Medium priority (dash): Pushed, Pulled',
+			'Low priority (arrow-down): Build started, Ticket assigned',
+		]);
+		assert.deepStrictEqual(summary(groupNotifications(entries, 'time', now)), [
+			'Last hour (clock): Pushed, Build started, Ticket assigned',
+			'Today (calendar): Build failed',
+			'Earlier (history): Pulled',
+		]);
+	});
+
+	test('lists everything newest first when flat', () => {
+		assert.deepStrictEqual(summary(groupNotifications(entries, 'flat', now)), [
+			'All notifications (list-flat): Pushed, Build started, Ticket assigned, Build failed, Pulled',
+		]);
+		assert.deepStrictEqual(groupNotifications([], 'flat', now), []);
+	});
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { HISTORY_VERSION, HistoryStore, applyRetention, createHistorySnapshot, parseHistorySnapshot, queryHistory, routeWithTrace, validateRetention, type HistoryEntry, type HistorySnapshot, type HistoryStorage, type TracedHistoryEntry } from '../core/index.js';
+import { createFakeTime } from './fakeTime.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(source: string, title: string, action: HistoryEntry['action'], timestamp: number, body = ''): HistoryEntry {
+	return { input: { source, title, body }, action, timestamp };
+}
+
+/** In-memory storage recording every write */
+function createMemoryStorage(initial?: string) {
+	const writes: string[] = [];
+	const storage: HistoryStorage = {
+		read: async () => writes[writes.length - 1] ?? initial,
+		write: async (data) => {
+			writes.push(data);
+		},
+	};
+	return { storage, writes };
+}
+
+suite('Notification history', () => {
+	const history = [
+		entry('Git', 'Pushed to main', 'digest', 1_000, 'origin/main'),
+		entry('Build', 'Build failed', 'allow', 2_000, 'tsc exited with 2'),
+		entry('Chat', 'Lunch?', 'suppress', 3_000, 'Anyone up for lunch'),
+		entry('git', 'Merge conflict', 'allow', 4_000, 'src/index.ts'),
+	];
+
+	test('keeps the newest entries within the count and age limits', () => {
+		assert.deepStrictEqual(applyRetention(history, { maxEntries: 2, maxAgeDays: 0 }, 5_000).map(e => e.timestamp), [3_000, 4_000]);
+		const now = 2_500 + DAY;
+		assert.deepStrictEqual(applyRetention(history, { maxEntries: 0, maxAgeDays: 1 }, now).map(e => e.timestamp), [3_000, 4_000]);
+		assert.deepStrictEqual(applyRetention(history, { maxEntries: 1, maxAgeDays: 1 }, now).map(e => e.timestamp), [4_000]);
+		assert.strictEqual(applyRetention(history, { maxEntries: 0, maxAgeDays: 0 }, now).length, 4);
+		const repeated = { ...history[0], lastSeen: 4_000 };
+		assert.deepStrictEqual(applyRetention([repeated, history[1]], { maxEntries: 0, maxAgeDays: 1 }, now), [repeated], 'coalesced entries age from their latest repeat');
+	});
+
+	test('snapshots keep every list and each entry\'s repeats within the limits, with compact traces', () => {
+		const rules = [{ title: 'Git', source: 'Git', contains: 'pushed', action: 'digest' as const, priority: 1 }, { source: '*', action: 'allow' as const }];
+		const routed = (timestamp: number): TracedHistoryEntry => {
+			const input = { source: 'Git', title: 'Pushed to main', body: '' };
+			return { input, action: 'digest', timestamp, trace: routeWithTrace(input, { focusMode: false }, rules, { getNow: () => timestamp }) };
+		};
+		const repeats = [1_000, 2_000, 3_000, 4_000].map(routed);
+		const coalesced = { ...repeats[0], lastSeen: 4_000, occurrences: repeats };
+		const snapshot = createHistorySnapshot({ history: repeats, digested: [coalesced], important: repeats }, { maxEntries: 2, maxAgeDays: 0 }, 5_000);
+		assert.deepStrictEqual(snapshot.history.map(e => e.timestamp), [3_000, 4_000]);
+		assert.deepStrictEqual(snapshot.digested[0].occurrences?.map(e => e.timestamp), [3_000, 4_000]);
+		assert.deepStrictEqual(snapshot.important.map(e => e.timestamp), [3_000, 4_000]);
+		assert.deepStrictEqual(snapshot.digested[0].trace, {
+			action: 'digest',
+			decidedBy: 'rule',
+			now: 1_000,
+			snoozeUntil: undefined,
+			snoozedSource: undefined,
+			matchedRuleIndex: 0,
+			matchedRule: { title: 'Git', source: 'Git', action: 'digest', priority: 1 },
+			rules: [],
+		});
+		assert.strictEqual(repeats[0].trace?.rules.length, 1, 'the live entries keep their full trace');
+	});
+
+	test('rejects negative or fractional limits', () => {
+		assert.deepStrictEqual(validateRetention({ maxEntries: 100, maxAgeDays: 0.5 }), []);
+		assert.strictEqual(validateRetention({ maxEntries: -1, maxAgeDays: 7 }).length, 1);
+		assert.strictEqual(validateRetention({ maxEntries: 2.5, maxAgeDays: -1 }).length, 2);
+	});
+
+	test('queries by source, action, time range and text, newest first', () => {
+		assert.deepStrictEqual(queryHistory(history).map(e => e.timestamp), [4_000, 3_000, 2_000, 1_000]);
+		assert.deepStrictEqual(queryHistory(history, { source: 'GIT' }).map(e => e.input.title), ['Merge conflict', 'Pushed to main']);
+		assert.deepStrictEqual(queryHistory(history, { action: 'allow' }).map(e => e.timestamp), [4_000, 2_000]);
+		assert.deepStrictEqual(queryHistory(history, { action: ['digest', 'suppress'] }).map(e => e.timestamp), [3_000, 1_000]);
+		assert.deepStrictEqual(queryHistory(history, { since: 2_000, until: 4_000 }).map(e => e.timestamp), [3_000, 2_000]);
+		assert.deepStrictEqual(queryHistory(history, { text: ' LUNCH ' }).map(e => e.timestamp), [3_000]);
+		assert.deepStrictEqual(queryHistory(history, { text: 'tsc' }).map(e => e.timestamp), [2_000]);
+		assert.deepStrictEqual(queryHistory(history, { source: 'git', action: 'allow', limit: 5 }).map(e => e.timestamp), [4_000]);
+		assert.deepStrictEqual(queryHistory(history, { limit: 1 }).map(e => e.timestamp), [4_000]);
+		const repeated = [{ ...history[0], lastSeen: 3_500 }, history[1]];
+		assert.deepStrictEqual(queryHistory(repeated, { since: 3_000 }).map(e => e.timestamp), [1_000], 'coalesced entries count from their latest repeat');
+		assert.deepStrictEqual(queryHistory(repeated, { until: 1_500 }).map(e => e.timestamp), [1_000]);
+	});
+
+	test('ignores unreadable snapshots and drops malformed entries', () => {
+		assert.strictEqual(parseHistorySnapshot('not json'), undefined);
+		assert.strictEqual(parseHistorySnapshot(JSON.stringify({ version: HISTORY_VERSION + 1, history: [] })), undefined);
+		const parsed = parseHistorySnapshot(JSON.stringify({
+			version: HISTORY_VERSION,
+			history: [history[0], { action: 'allow' }, null],
+			digested: 'oops',
+		}));
+		assert.deepStrictEqual(parsed, { version: HISTORY_VERSION, history: [history[0]], digested: [], important: [] });
+	});
+
+	test('saves once after a burst and round-trips through storage', async () => {
+		const time = createFakeTime();
+		const { storage, writes } = createMemoryStorage();
+		const store = new HistoryStore(storage, undefined, time.timer, 1_000);
+		assert.strictEqual(await store.load(), undefined);
+
+		let snapshot: HistorySnapshot = { version: HISTORY_VERSION, history: [history[0]], digested: [history[0]], important: [] };
+		store.save(() => snapshot);
+		snapshot = { ...snapshot, history: history.slice(0, 2), important: [history[1]] };
+		store.save(() => snapshot);
+		time.advance(999);
+		assert.strictEqual(writes.length, 0);
+		time.advance(1);
+		await store.flush();
+		assert.strictEqual(writes.length, 1);
+		assert.deepStrictEqual(await store.load(), snapshot);
+	});
+
+	test('flush writes a pending save at once and reports write errors', async () => {
+		const time = createFakeTime();
+		const errors: unknown[] = [];
+		const storage: HistoryStorage = {
+			read: async () => undefined,
+			write: async () => {
+				throw new Error('disk full');
+			},
+		};
+		const store = new HistoryStore(storage, error => errors.push(error), time.timer, 1_000);
+		store.save(() => ({ version: HISTORY_VERSION, history, digested: [], important: [] }));
+		await store.flush();
+		assert.strictEqual(time.pendingTimers(), 0);
+		assert.deepStrictEqual(errors.map(e => (e as Error).message), ['disk full']);
+	});
+});
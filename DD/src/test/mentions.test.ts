@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { createMentionMatcher, escapeRegExp, type MentionConfig, type NotificationInput } from '../core/index.js';
+
+const config: MentionConfig = { names: ['ann'], teams: [], broadcast: 'ignore', blockedSenders: [] };
+const message = (body: string, sender?: string): NotificationInput => ({ source: 'Chat', title: 'New message', body, metadata: sender ? { sender } : undefined });
+
+suite('Mention matcher', () => {
+	test('matches the name case-insensitively, only as a whole handle', () => {
+		const find = createMentionMatcher(config);
+		assert.deepStrictEqual(find(message('ping @Ann, can you look?')), { kind: 'direct', handle: '@Ann' });
+		assert.ok(find(message('thanks @ann.')));
+		assert.strictEqual(find(message('hi @anna')), undefined);
+		assert.strictEqual(find(message('cc @ann.lee')), undefined);
+		assert.strictEqual(find(message('mail ann@example.com or bob@ann')), undefined);
+		assert.strictEqual(find(message('ann, no handle')), undefined);
+	});
+
+	test('treats regex metacharacters in names literally', () => {
+		const find = createMentionMatcher({ ...config, names: ['c++dev', 'a.b', '(x)'] });
+		assert.ok(find(message('@c++dev build broke')));
+		assert.ok(find(message('@a.b see above')));
+		assert.ok(find(message('@(x) ok')));
+		assert.strictEqual(find(message('@axb and @cdev')), undefined);
+		assert.strictEqual(escapeRegExp('a.b*(c)'), 'a\\.b\\*\\(c\\)');
+	});
+
+	test('matches aliases and team handles, with or without "@" in the config', () => {
+		const find = createMentionMatcher({ ...config, names: ['ann', '@annie'], teams: ['@frontend', 'oncall '] });
+		assert.deepStrictEqual(find(message('@annie lunch?')), { kind: 'direct', handle: '@annie' });
+		assert.deepStrictEqual(find(message('@frontend please review')), { kind: 'team', handle: '@frontend' });
+		assert.deepStrictEqual(find(message('@frontend and @ann')), { kind: 'direct', handle: '@ann' });
+		assert.ok(find(message('paging @OnCall')));
+		assert.strictEqual(find(message('@frontend-infra is down')), undefined);
+	});
+
+	test('treats @here, @channel and @all according to the broadcast policy', () => {
+		const ignore = createMentionMatcher(config);
+		const mention = createMentionMatcher({ ...config, broadcast: 'mention' });
+		for (const handle of ['@here', '@channel', '@all']) {
+			assert.strictEqual(ignore(message(`${handle} deploy at 5`)), undefined);
+			assert.deepStrictEqual(mention(message(`${handle} deploy at 5`)), { kind: 'broadcast', handle });
+		}
+		assert.strictEqual(mention(message('@allison hi')), undefined);
+	});
+
+	test('ignores mentions from blocked senders', () => {
+		const find = createMentionMatcher({ ...config, teams: ['frontend'], broadcast: 'mention', blockedSenders: ['@DeployBot'] });
+		assert.strictEqual(find(message('@ann @frontend @here release done', 'deploybot')), undefined);
+		assert.ok(find(message('@ann release done', 'bob')));
+		assert.ok(find(message('@ann release done')));
+	});
+
+	test('matches nothing without names', () => {
+		assert.strictEqual(createMentionMatcher({ ...config, names: ['', '  '] })(message('@ hello @')), undefined);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { channelMatches, route, senderMatches, tagMatches, type NotificationInput, type NotificationMetadata, type Rule } from '../core/index.js';
+
+suite('Metadata matchers', () => {
+	const message = (metadata?: NotificationMetadata): NotificationInput => ({ source: 'Chat', title: 'New message', body: 'lgtm', metadata });
+	const rule = (filters: Partial<Rule>): Rule => ({ source: 'Chat', action: 'allow', ...filters });
+
+	test('sender matches case-insensitively, ignoring surrounding spaces', () => {
+		assert.strictEqual(senderMatches(rule({ sender: ' ann lee ' }), message({ sender: 'Ann Lee' })), true);
+		assert.strictEqual(senderMatches(rule({ sender: 'Ann' }), message({ sender: 'Ann Lee' })), false);
+		assert.strictEqual(senderMatches(rule({ sender: 'Ann' }), message()), false, 'no sender never matches a sender filter');
+		assert.strictEqual(senderMatches(rule({ sender: '  ' }), message()), true, 'an empty filter passes');
+	});
+
+	test('channel ignores case and a leading #', () => {
+		assert.strictEqual(channelMatches(rule({ channel: '#frontend' }), message({ channel: 'Frontend' })), true);
+		assert.strictEqual(channelMatches(rule({ channel: 'frontend' }), message({ channel: '#FRONTEND' })), true);
+		assert.strictEqual(channelMatches(rule({ channel: 'frontend' }), message({ channel: 'frontend-ops' })), false);
+		assert.strictEqual(channelMatches(rule({}), message({ channel: 'ops' })), true);
+	});
+
+	test('tag must be one of the notification tags', () => {
+		assert.strictEqual(tagMatches(rule({ tag: 'ci' }), message({ tags: ['nightly', 'CI'] })), true);
+		assert.strictEqual(tagMatches(rule({ tag: 'ci' }), message({ tags: ['cicd'] })), false);
+		assert.strictEqual(tagMatches(rule({ tag: 'ci' }), message()), false);
+		assert.strictEqual(tagMatches(rule({ tag: '' }), message()), true);
+	});
+
+	test('rules combine metadata filters with the other conditions', () => {
+		const rules = [rule({ sender: 'Ann', channel: '#ops', action: 'suppress' })];
+		assert.strictEqual(route(message({ sender: 'ann', channel: 'ops' }), { focusMode: false }, rules), 'suppress');
+		assert.strictEqual(route(message({ sender: 'ann', channel: 'dev' }), { focusMode: false }, rules), 'allow');
+	});
+});
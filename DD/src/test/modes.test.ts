@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { AFK_MODE_ID, FOCUS_MODE_ID, ModeMachine, NORMAL_MODE_ID, getModeId, validateMode, type ModeDefinition, type ModeTransition } from '../core/index.js';
+
+const onCall: ModeDefinition = { id: 'on-call', name: 'On-call', rules: [], defaultAction: 'digest', mentions: 'allow' };
+const meeting: ModeDefinition = { id: 'meeting', name: 'Meeting', defaultAction: 'suppress', mentions: 'digest' };
+
+suite('Mode machine', () => {
+	function createMachine() {
+		let now = 0;
+		const changes: ModeTransition[] = [];
+		const machine = new ModeMachine([onCall, meeting], (_mode, transition) => changes.push(transition), () => now++);
+		return { machine, changes };
+	}
+
+	test('starts in the normal mode with the built-in modes first', () => {
+		const { machine } = createMachine();
+		assert.strictEqual(machine.getCurrent().id, NORMAL_MODE_ID);
+		assert.deepStrictEqual(machine.getModes().map(mode => mode.id), [NORMAL_MODE_ID, FOCUS_MODE_ID, AFK_MODE_ID, 'on-call', 'meeting']);
+	});
+
+	test('exit returns to the mode the current one was entered from', () => {
+		const { machine, changes } = createMachine();
+		machine.enter('on-call', 'picker');
+		machine.enter(AFK_MODE_ID, 'command');
+		assert.strictEqual(machine.enter(AFK_MODE_ID, 'command'), undefined);
+		machine.exit('command');
+		assert.strictEqual(machine.getCurrent().id, 'on-call');
+		machine.exit('command');
+		assert.strictEqual(machine.exit('command'), undefined);
+		assert.deepStrictEqual(changes.map(t => `${t.from}→${t.to} (${t.reason}) @${t.at}`), [
+			'normal→on-call (picker) @0',
+			'on-call→afk (command) @1',
+			'afk→on-call (command) @2',
+			'on-call→normal (command) @3',
+		]);
+		assert.deepStrictEqual(machine.getHistory(), changes);
+	});
+
+	test('entering the normal mode clears the way back', () => {
+		const { machine } = createMachine();
+		machine.enter('meeting', 'picker');
+		machine.enter(FOCUS_MODE_ID, 'pomodoro');
+		machine.enter(NORMAL_MODE_ID, 'picker');
+		machine.enter(AFK_MODE_ID, 'command');
+		machine.exit('command');
+		assert.strictEqual(machine.getCurrent().id, NORMAL_MODE_ID);
+	});
+
+	test('rejects unknown modes and returns to normal when the current mode is removed', () => {
+		const { machine, changes } = createMachine();
+		assert.throws(() => machine.enter('release-day', 'picker'), /Unknown mode "release-day"/);
+		machine.enter('meeting', 'picker');
+		machine.setModes([onCall, { ...meeting, id: FOCUS_MODE_ID }]);
+		assert.strictEqual(machine.getCurrent().id, NORMAL_MODE_ID);
+		assert.strictEqual(changes[changes.length - 1].reason, 'mode removed');
+		assert.strictEqual(machine.getMode(FOCUS_MODE_ID)?.name, 'Focus');
+	});
+
+	test('derives ids from names and validates definitions', () => {
+		assert.strictEqual(getModeId('  Release day! '), 'release-day');
+		assert.deepStrictEqual(validateMode(onCall), []);
+		assert.deepStrictEqual(validateMode({ ...meeting, id: '', defaultAction: 'show' as never, mentions: 'never' as never }), [
+			'mode must have a name',
+			'defaultAction must be one of allow, suppress, digest, defer',
+			'mentions must be one of allow, digest, rules',
+		]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { NORMAL_MODE, Priority, convertToRoutingRules, describeFilter, filterNotifications, getNotificationPriority, isFilterEmpty, routeWithTrace, type FilterableEntry, type SourceRuleConfig } from '../core/index.js';
+
+const MINUTE = 60_000;
+
+suite('Sidebar filter', () => {
+	const configs: SourceRuleConfig[] = [
+		{ source: 'Build', contains: 'failed', action: 'digest', priority: Priority.Critical, showInFocusMode: false },
+		{ source: 'Git', action: 'digest', priority: Priority.Medium, showInFocusMode: false },
+	];
+	const rules = convertToRoutingRules(configs, NORMAL_MODE);
+	const now = 100 * MINUTE;
+	const routed = (source: string, title: string, body: string, minutesAgo: number, lastSeenMinutesAgo?: number): FilterableEntry => {
+		const input = { source, title, body };
+		const trace = routeWithTrace(input, { focusMode: false }, rules, { getNow: () => now });
+		return {
+			input,
+			action: trace.action,
+			timestamp: now - minutesAgo * MINUTE,
+			lastSeen: lastSeenMinutesAgo === undefined ? undefined : now - lastSeenMinutesAgo * MINUTE,
+			trace,
+		};
+	};
+	const entries = [
+		routed('Build', 'Build failed', 'tsc exited with 2', 90),
+		routed('Git', 'Pushed', 'Deploy branch updated', 50, 5),
+		routed('Extension', 'Update available', 'Deploy tools v2', 10),
+	];
+	const titles = (filtered: FilterableEntry[]) => filtered.map(entry => entry.input.title);
+
+	test('takes the priority of the matched rule; the catch-all counts as low', () => {
+		assert.deepStrictEqual(entries.map(getNotificationPriority), [Priority.Critical, Priority.Medium, Priority.Low]);
+	});
+
+	test('narrows by text, source, priority and age', () => {
+		assert.deepStrictEqual(titles(filterNotifications(entries, { text: ' DEPLOY ' }, now)), ['Pushed', 'Update available']);
+		assert.deepStrictEqual(titles(filterNotifications(entries, { source: 'git' }, now)), ['Pushed']);
+		assert.deepStrictEqual(titles(filterNotifications(entries, { minPriority: Priority.Medium }, now)), ['Build failed', 'Pushed']);
+		assert.deepStrictEqual(titles(filterNotifications(entries, { maxAgeMinutes: 15 }, now)), ['Pushed', 'Update available']);
+		assert.deepStrictEqual(titles(filterNotifications(entries, { text: 'deploy', minPriority: Priority.Medium, maxAgeMinutes: 60 }, now)), ['Pushed']);
+		assert.strictEqual(filterNotifications(entries, {}, now).length, 3);
+	});
+
+	test('describes the active filter', () => {
+		assert.strictEqual(isFilterEmpty({ text: '  ' }), true);
+		assert.strictEqual(describeFilter({}), '');
+		assert.strictEqual(describeFilter({ text: 'deploy', source: 'Git', minPriority: Priority.High, maxAgeMinutes: 60 }), '"deploy" · Git · High+ · Last hour');
+		assert.strictEqual(describeFilter({ minPriority: Priority.Critical, maxAgeMinutes: 15 }), 'Critical · Last 15 min');
+		assert.strictEqual(describeFilter({ maxAgeMinutes: 7 * 24 * 60 }), 'Last 7 days');
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { matchPattern, patternMatches, route, validatePattern, type NotificationInput, type Rule } from '../core/index.js';
+
+suite('Pattern conditions', () => {
+	const input: NotificationInput = { source: 'Build', title: 'Build #42 FAILED', body: 'on branch release/1.2' };
+	const rule = (pattern: string, patternFlags?: string): Rule => ({ source: '*', action: 'digest', pattern, patternFlags });
+
+	test('matches title and body case-insensitively by default', () => {
+		assert.strictEqual(patternMatches(rule('failed'), input), true);
+		assert.strictEqual(patternMatches(rule('failed', ''), input), false);
+		assert.strictEqual(patternMatches(rule('FAILED\\non branch'), input), true);
+		assert.strictEqual(patternMatches({ source: '*', action: 'digest' }, input), true);
+	});
+
+	test('returns the match with positional and named capture groups', () => {
+		assert.deepStrictEqual(matchPattern(rule('#(\\d+) (\\w+)( skipped)?'), input), {
+			match: '#42 FAILED',
+			groups: ['42', 'FAILED', undefined],
+			namedGroups: undefined,
+		});
+		assert.deepStrictEqual(matchPattern(rule('branch (?<branch>[\\w/.]+)'), input)?.namedGroups, { branch: 'release/1.2' });
+		assert.strictEqual(matchPattern(rule('passed'), input), undefined);
+	});
+
+	test('ignores the g and y flags, so repeated matches do not alternate', () => {
+		const sticky = rule('failed', 'gi');
+		assert.strictEqual(patternMatches(sticky, input), true);
+		assert.strictEqual(patternMatches(sticky, input), true);
+	});
+
+	test('invalid patterns are reported and never match', () => {
+		assert.ok(validatePattern('(unclosed'));
+		assert.strictEqual(validatePattern('ok+'), undefined);
+		assert.strictEqual(patternMatches(rule('(unclosed'), input), false);
+		assert.strictEqual(matchPattern(rule('(unclosed'), input), undefined);
+		assert.strictEqual(route(input, { focusMode: false }, [rule('(unclosed')]), 'allow');
+	});
+});
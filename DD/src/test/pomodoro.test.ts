@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { PomodoroTimer, formatDigestSummary, summarizeDigest, validatePomodoroSettings, type PomodoroPhase, type PomodoroStatus } from '../core/index.js';
+import { createFakeTime } from './fakeTime.js';
+
+const MINUTE = 60_000;
+
+suite('Pomodoro timer', () => {
+	const settings = { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, sessionsBeforeLongBreak: 2, autoResume: true };
+
+	function createTimer(overrides: Partial<typeof settings> = {}) {
+		const time = createFakeTime();
+		const changes: Array<[PomodoroStatus | undefined, PomodoroPhase | undefined]> = [];
+		const timer = new PomodoroTimer((status, ended) => changes.push([status, ended]), { ...settings, ...overrides }, time.getNow, time.timer);
+		const phases = () => changes.map(([status]) => status ? `${status.phase}#${status.session}@${status.startedAt / MINUTE}` : 'stopped');
+		return { time, timer, changes, phases };
+	}
+
+	test('alternates work and breaks, with a long break every N sessions, and resumes work', () => {
+		const { time, timer, phases } = createTimer();
+		timer.start();
+		time.advance(25 * MINUTE + 5 * MINUTE + 25 * MINUTE + 15 * MINUTE);
+		assert.deepStrictEqual(phases(), ['work#1@0', 'break#1@25', 'work#2@30', 'longBreak#2@55', 'work#3@70']);
+		assert.deepStrictEqual(timer.getStatus(), { phase: 'work', session: 3, completed: 2, startedAt: 70 * MINUTE, endsAt: 95 * MINUTE });
+	});
+
+	test('stops after a break when auto resume is off, keeping the session count', () => {
+		const { time, timer, changes, phases } = createTimer({ autoResume: false });
+		timer.start();
+		time.advance(30 * MINUTE);
+		assert.deepStrictEqual(phases(), ['work#1@0', 'break#1@25', 'stopped']);
+		assert.strictEqual(changes[2][1], 'break');
+		assert.strictEqual(time.pendingTimers(), 0);
+		assert.strictEqual(timer.start().session, 2);
+	});
+
+	test('skip ends the phase early and stop cancels the timer', () => {
+		const { time, timer, phases } = createTimer();
+		timer.start();
+		time.advance(10 * MINUTE);
+		timer.skip();
+		timer.skip();
+		timer.stop();
+		assert.deepStrictEqual(phases(), ['work#1@0', 'break#1@10', 'work#2@10', 'stopped']);
+		assert.strictEqual(timer.getStatus(), undefined);
+		assert.strictEqual(time.pendingTimers(), 0);
+	});
+
+	test('applies new settings from the next phase', () => {
+		const { time, timer } = createTimer();
+		timer.start();
+		timer.setSettings({ ...settings, breakMinutes: 10 });
+		time.advance(25 * MINUTE);
+		assert.strictEqual(timer.getStatus()?.endsAt, 35 * MINUTE);
+	});
+
+	test('rejects non-positive lengths', () => {
+		assert.deepStrictEqual(validatePomodoroSettings({ ...settings, workMinutes: 0, sessionsBeforeLongBreak: 1.5 }), [
+			'workMinutes must be a positive number',
+			'sessionsBeforeLongBreak must be a whole number of at least 0',
+		]);
+	});
+});
+
+suite('Digest summary', () => {
+	const entry = (source: string, title: string, timestamp: number, count?: number) => ({ input: { source, title, body: '' }, timestamp, count });
+
+	test('groups entries since a time by source, counting coalesced repeats', () => {
+		const summary = summarizeDigest([
+			entry('Git', 'Old', 0),
+			entry('Build', 'Compiled', 10, 3),
+			entry('Git', 'Pushed', 20),
+			entry('Build', 'Warnings', 30),
+			entry('Build', 'Compiled', 40),
+		], 5);
+		assert.deepStrictEqual(summary, {
+			total: 6,
+			groups: [
+				{ source: 'Build', count: 5, titles: ['Compiled', 'Warnings'] },
+				{ source: 'Git', count: 1, titles: ['Pushed'] },
+			],
+		});
+		assert.strictEqual(formatDigestSummary(summary), 'Build (5), Git (1)');
+		assert.strictEqual(formatDigestSummary(summary, 1), 'Build (5) and 1 more source');
+	});
+});
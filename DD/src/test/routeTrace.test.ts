@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { containsMatches, formatRouteTrace, patternMatches, route, routeWithTrace, sourceMatches, summarizeRouteTrace, type NotificationInput, type RouteOptions, type RouterState, type Rule } from '../core/index.js';
+
+suite('Routing traces', () => {
+	const rules: Rule[] = [
+		{ source: 'Git', contains: 'pull', action: 'suppress', title: 'Git pulls' },
+		{ source: 'Build', pattern: '#(\\d+) failed', action: 'allow' },
+		{ source: '*', contains: 'deploy', action: 'digest' },
+	];
+	const opts: RouteOptions = { matchConditions: [sourceMatches, containsMatches, patternMatches], getNow: () => 1_000 };
+	const input = (source: string, title: string): NotificationInput => ({ source, title, body: '' });
+	const idle: RouterState = { focusMode: false };
+
+	test('agrees with route() for every decision step', () => {
+		const states: RouterState[] = [idle, { focusMode: true }, { focusMode: false, snoozeUntil: 2_000 }];
+		const inputs = [input('Git', 'pull done'), input('Build', 'Build #7 failed'), input('Chat', 'deploy at 5'), input('Chat', 'hello')];
+		for (const state of states) {
+			for (const notification of inputs) {
+				assert.strictEqual(routeWithTrace(notification, state, rules, opts).action, route(notification, state, rules, opts));
+			}
+		}
+	});
+
+	test('records every condition of the rules evaluated up to the match', () => {
+		const trace = routeWithTrace(input('Build', 'Build #7 failed'), idle, rules, opts);
+		assert.strictEqual(trace.decidedBy, 'rule');
+		assert.strictEqual(trace.matchedRuleIndex, 1);
+		assert.deepStrictEqual(trace.rules.map(r => r.conditions.map(c => c.passed)), [[false, false, true], [true, true, true]]);
+		assert.deepStrictEqual(trace.captures?.groups, ['7']);
+		assert.deepStrictEqual(formatRouteTrace(trace), [
+			'Result: allow (rule #2 "Build → allow")',
+			'#1 "Git pulls": source ✗, contains ✗, pattern ✓',
+			'#2 "Build → allow": source ✓, contains ✓, pattern ✓ → matched',
+			'Pattern matched "#7 failed" ($1="7")',
+		]);
+	});
+
+	test('explains the default and snoozes', () => {
+		const unmatched = routeWithTrace(input('Chat', 'hello'), { focusMode: true }, rules, opts);
+		assert.strictEqual(unmatched.decidedBy, 'default');
+		assert.strictEqual(unmatched.rules.length, rules.length);
+		assert.strictEqual(summarizeRouteTrace(unmatched), 'digest (no rule matched; default)');
+		assert.match(formatRouteTrace(unmatched).at(-1) ?? '', /^No rule matched; the default applied/);
+
+		const snoozed = routeWithTrace(input('Git', 'pull done'), { focusMode: false, snoozeUntil: 2_000 }, rules, opts);
+		assert.deepStrictEqual([snoozed.decidedBy, snoozed.snoozeUntil, snoozed.rules.length], ['snooze', 2_000, 0]);
+		assert.deepStrictEqual(formatRouteTrace(snoozed).slice(1), ['Snooze was active, so rules were not evaluated.']);
+	});
+});
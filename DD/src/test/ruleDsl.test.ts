@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { parseRuleDsl, serializeRuleDsl, Priority, type SourceRuleConfig } from '../core/index.js';
+
+suite('Rule DSL', () => {
+	test('parses a simple rule with options', () => {
+		const { rules, errors } = parseRuleDsl('Git contains "conflict" -> allow priority high focus');
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules, [
+			{ source: 'Git', priority: Priority.High, action: 'allow', showInFocusMode: true, contains: 'conflict' },
+		]);
+	});
+
+	test('skips blank lines and comments', () => {
+		const { rules, errors } = parseRuleDsl('# rules\n\n  * -> digest   # catch-all\n');
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules, [{ source: '*', priority: Priority.Medium, action: 'digest', showInFocusMode: false }]);
+	});
+
+	test('parses condition expressions with and/or/not precedence', () => {
+		const { rules, errors } = parseRuleDsl('* when source Git or source Build and not contains "flaky" -> allow');
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules[0].when, {
+			any: [{ source: 'Git' }, { all: [{ source: 'Build' }, { not: { contains: 'flaky' } }] }],
+		});
+	});
+
+	test('parses schedules, throttles and escalation', () => {
+		const { rules, errors } = parseRuleDsl(
+			'Extension during mon-fri 09:00-12:00 tz "Europe/Berlin" -> suppress throttle 3 per 2h then digest escalate 3 within 10m'
+		);
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules[0].schedule, {
+			windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '12:00', timeZone: 'Europe/Berlin' }],
+		});
+		assert.deepStrictEqual(rules[0].throttle, { limit: 3, windowMinutes: 120, overflowAction: 'digest' });
+		assert.deepStrictEqual(rules[0].escalation, { count: 3, withinMinutes: 10 });
+	});
+
+	test('reports errors with line and column and keeps parsing other lines', () => {
+		const { rules, errors } = parseRuleDsl('Git -> allow\nBuild contains -> allow\nTest matches /(/ -> allow\nChat -> maybe');
+		assert.strictEqual(rules.length, 1);
+		assert.deepStrictEqual(errors.map(e => [e.line, e.column, e.length]), [[2, 16, 2], [3, 14, 3], [4, 9, 5]]);
+		assert.match(errors[0].message, /found "->"/);
+		assert.match(errors[2].message, /expected an action/);
+	});
+
+	test('rejects repeated filters and mixed schedules', () => {
+		const { errors } = parseRuleDsl('Git contains "a" contains "b" -> allow\nGit during 09:00-10:00 outside 12:00-13:00 -> allow');
+		assert.strictEqual(errors.length, 2);
+		assert.match(errors[0].message, /more than once/);
+		assert.match(errors[1].message, /cannot mix/);
+	});
+
+	test('round-trips rule configurations', () => {
+		const configs: SourceRuleConfig[] = [
+			{ title: 'Build Failures', source: 'Build', priority: Priority.High, action: 'allow', showInFocusMode: false, minSeverity: 'error' },
+			{ source: 'Language Server', priority: Priority.Low, action: 'digest', showInFocusMode: false, pattern: 'a/b "c"\\d+', patternFlags: 'im' },
+			{ source: 'Chat', priority: Priority.Medium, action: 'digest', showInFocusMode: true, sender: 'alice', channel: '#frontend', tag: 'team' },
+			{
+				source: '*',
+				priority: Priority.Critical,
+				action: 'allow',
+				showInFocusMode: false,
+				schedule: { windows: [{ days: ['sat', 'sun'], start: '22:00', end: '06:00' }], outside: true },
+				when: { all: [{ any: [{ source: 'Git' }, { source: 'and' }] }, { not: { contains: 'x' } }, { any: [] }] },
+				throttle: { limit: 2, windowMinutes: 1.5 },
+				escalation: { count: 4, withinMinutes: 1440 },
+			},
+		];
+		const text = serializeRuleDsl(configs);
+		const { rules, errors } = parseRuleDsl(text);
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(rules, configs);
+		assert.strictEqual(serializeRuleDsl(rules), text);
+	});
+});
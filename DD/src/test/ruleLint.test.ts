@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { lintRules, Priority, type SourceRuleConfig } from '../core/index.js';
+
+const rule = (config: Partial<SourceRuleConfig> & Pick<SourceRuleConfig, 'source' | 'action'>): SourceRuleConfig => ({
+	priority: Priority.Medium,
+	showInFocusMode: false,
+	...config,
+});
+
+suite('Rule linter', () => {
+	test('reports a rule shadowed by a broader rule with higher priority', () => {
+		const findings = lintRules([
+			rule({ source: 'Build', contains: 'failed', action: 'allow', priority: Priority.Low }),
+			rule({ source: 'Build', action: 'suppress', priority: Priority.High }),
+		]);
+		assert.deepStrictEqual(findings.map(f => [f.kind, f.ruleIndex, f.relatedIndex]), [['shadowed', 0, 1]]);
+	});
+
+	test('does not report a narrower rule checked before a broader one', () => {
+		const findings = lintRules([
+			rule({ source: 'Build', contains: 'failed', action: 'allow' }),
+			rule({ source: 'Build', action: 'suppress' }),
+		]);
+		assert.deepStrictEqual(findings, []);
+	});
+
+	test('a breakthrough rule is only shadowed by another breakthrough rule', () => {
+		const findings = lintRules([
+			rule({ source: 'Build', action: 'digest', priority: Priority.High }),
+			rule({ source: 'Build', contains: 'failed', action: 'allow', showInFocusMode: true }),
+			rule({ source: '*', action: 'allow', priority: Priority.Critical, showInFocusMode: true }),
+			rule({ source: 'Debug', action: 'allow', priority: Priority.Low, showInFocusMode: true }),
+		]);
+		assert.deepStrictEqual(findings.map(f => [f.kind, f.ruleIndex, f.relatedIndex]), [
+			['shadowed', 0, 2],
+			['shadowed', 1, 2],
+			['shadowed', 3, 2],
+		]);
+		assert.deepStrictEqual(lintRules([
+			rule({ source: 'Build', action: 'digest', priority: Priority.High }),
+			rule({ source: 'Build', contains: 'failed', action: 'allow', showInFocusMode: true }),
+		]), []);
+	});
+
+	test('reports duplicates, unreachable conditions and ineffective settings', () => {
+		const findings = lintRules([
+			rule({ title: 'Git', source: 'Git', contains: 'conflict', action: 'allow' }),
+			rule({ source: 'git', contains: ' CONFLICT ', action: 'suppress' }),
+			rule({ source: 'Test', when: { any: [] }, action: 'allow' }),
+			rule({ source: 'Chat', action: 'allow', escalation: { count: 3, withinMinutes: 10 } }),
+			rule({ source: 'Debug', action: 'digest', throttle: { limit: 5, windowMinutes: 1 } }),
+			rule({ source: 'Extension', action: 'digest' }),
+		]);
+		assert.deepStrictEqual(findings.map(f => [f.kind, f.ruleIndex]), [
+			['duplicate', 1],
+			['unreachable', 2],
+			['ineffective', 3],
+			['ineffective', 4],
+			['ineffective', 5],
+		]);
+		assert.match(findings[0].message, /same conditions as "Git".*\(suppress\) never applies/);
+	});
+});
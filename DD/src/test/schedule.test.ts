@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { isWithinSchedule, isWithinWindow, route, validateSchedule, type Rule, type TimeWindow } from '../core/index.js';
+
+/** Monday 2026-10-19 at hh:mm UTC */
+const mondayUtc = (hours: number, minutes = 0) => Date.UTC(2026, 9, 19, hours, minutes);
+
+suite('Rule schedules', () => {
+	test('windows include the start and exclude the end', () => {
+		const window: TimeWindow = { start: '09:00', end: '12:00', timeZone: 'UTC' };
+		assert.strictEqual(isWithinWindow(window, mondayUtc(8, 59)), false);
+		assert.strictEqual(isWithinWindow(window, mondayUtc(9)), true);
+		assert.strictEqual(isWithinWindow(window, mondayUtc(11, 59)), true);
+		assert.strictEqual(isWithinWindow(window, mondayUtc(12)), false);
+	});
+
+	test('evaluates days and times in the window time zone', () => {
+		// 13:30 UTC is 09:30 in New York (EDT)
+		const newYork: TimeWindow = { days: ['mon'], start: '09:00', end: '10:00', timeZone: 'America/New_York' };
+		assert.strictEqual(isWithinWindow(newYork, mondayUtc(13, 30)), true);
+		assert.strictEqual(isWithinWindow(newYork, mondayUtc(9, 30)), false);
+		// 02:00 UTC Monday is still Sunday evening in New York
+		assert.strictEqual(isWithinWindow({ days: ['sun'], start: '21:00', end: '23:00', timeZone: 'America/New_York' }, mondayUtc(2)), true);
+		assert.strictEqual(isWithinWindow({ start: '00:00', end: '23:59', timeZone: 'Not/AZone' }, mondayUtc(12)), false);
+	});
+
+	test('windows wrapping midnight belong to the day they start on', () => {
+		const fridayNight: TimeWindow = { days: ['fri'], start: '22:00', end: '06:00', timeZone: 'UTC' };
+		const friday = (hours: number) => Date.UTC(2026, 9, 23, hours);
+		assert.strictEqual(isWithinWindow(fridayNight, friday(23)), true);
+		assert.strictEqual(isWithinWindow(fridayNight, friday(24 + 5)), true, 'Saturday 05:00');
+		assert.strictEqual(isWithinWindow(fridayNight, friday(24 + 6)), false, 'Saturday 06:00');
+		assert.strictEqual(isWithinWindow(fridayNight, friday(5)), false, 'Friday 05:00 belongs to Thursday');
+		assert.strictEqual(isWithinWindow({ start: '08:00', end: '08:00', timeZone: 'UTC' }, mondayUtc(7, 59)), true, 'start === end is a full day');
+	});
+
+	test('outside inverts the schedule, and rules apply only while it holds', () => {
+		const schedule = { windows: [{ start: '09:00', end: '17:00', timeZone: 'UTC' }], outside: true };
+		assert.strictEqual(isWithinSchedule(schedule, mondayUtc(8)), true);
+		assert.strictEqual(isWithinSchedule(schedule, mondayUtc(10)), false);
+		const afterHours: Rule = { source: 'Chat', action: 'digest', schedule };
+		assert.strictEqual(route({ source: 'Chat', title: 'hi', body: '' }, { focusMode: false }, [afterHours], { getNow: () => mondayUtc(20) }), 'digest');
+		assert.strictEqual(route({ source: 'Chat', title: 'hi', body: '' }, { focusMode: false }, [afterHours], { getNow: () => mondayUtc(10) }), 'allow');
+	});
+
+	test('reports malformed times, days and time zones', () => {
+		assert.strictEqual(validateSchedule({ windows: [{ days: ['mon', 'fri'], start: '9:00', end: '17:30', timeZone: 'Europe/Berlin' }] }), undefined);
+		assert.match(validateSchedule({ windows: [{ start: '24:00', end: '01:00' }] }) ?? '', /invalid start time/);
+		assert.match(validateSchedule({ windows: [{ start: '09:00', end: '9am' }] }) ?? '', /invalid end time/);
+		assert.match(validateSchedule({ windows: [{ days: ['monday' as never], start: '09:00', end: '10:00' }] }) ?? '', /invalid day "monday"/);
+		assert.match(validateSchedule({ windows: [{ start: '09:00', end: '10:00', timeZone: 'Mars/Olympus' }] }) ?? '', /unknown time zone/);
+	});
+});
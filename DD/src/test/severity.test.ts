@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { compareSeverity, evaluateCondition, getSeverity, route, severityMatches, validateSeverity, type NotificationInput, type Rule, type Severity } from '../core/index.js';
+
+suite('Severity', () => {
+	const at = (severity?: Severity): NotificationInput => ({ source: 'Build', title: 'Build failed', body: '', severity });
+	const errorsAndUp: Rule = { source: 'Build', action: 'allow', minSeverity: 'error' };
+
+	test('orders severities and defaults to info', () => {
+		assert.strictEqual(getSeverity(at()), 'info');
+		assert.ok(compareSeverity('critical', 'error') > 0);
+		assert.ok(compareSeverity('info', 'warning') < 0);
+		assert.strictEqual(compareSeverity('error', 'error'), 0);
+	});
+
+	test('matches at or above the threshold; notifications without severity count as info', () => {
+		assert.deepStrictEqual((['info', 'warning', 'error', 'critical'] as Severity[]).map(s => severityMatches(errorsAndUp, at(s))), [false, false, true, true]);
+		assert.strictEqual(severityMatches(errorsAndUp, at()), false);
+		assert.strictEqual(severityMatches({ source: 'Build', action: 'allow' }, at()), true);
+		assert.strictEqual(severityMatches({ ...errorsAndUp, minSeverity: 'fatal' as Severity }, at('critical')), false, 'unknown thresholds never match');
+	});
+
+	test('combined with contains in an any tree, failures without a severity still match', () => {
+		const failures: Rule = { source: 'Build', action: 'allow', when: { any: [{ contains: 'failed' }, { minSeverity: 'error' }] } };
+		assert.strictEqual(route(at(), { focusMode: true }, [failures]), 'allow');
+		assert.strictEqual(route({ ...at('error'), title: 'Linker crashed' }, { focusMode: true }, [failures]), 'allow');
+		assert.strictEqual(route({ ...at('warning'), title: 'Linker slow' }, { focusMode: true }, [failures]), 'digest');
+		assert.strictEqual(evaluateCondition({ minSeverity: 'warning' }, at('warning')), true);
+	});
+
+	test('validates severity names', () => {
+		assert.strictEqual(validateSeverity('warning'), undefined);
+		assert.strictEqual(validateSeverity('fatal'), 'unknown severity "fatal" (expected info, warning, error, critical)');
+	});
+});
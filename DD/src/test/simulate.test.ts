@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { routeWithTrace, simulateRules, type Action, type NotificationInput, type Rule, type SimulationEntry } from '../core/index.js';
+
+/** History entry routed through `rules` at `timestamp`, as the notification manager records it */
+function routed(input: NotificationInput, rules: Rule[], timestamp: number): SimulationEntry {
+	const trace = routeWithTrace(input, { focusMode: false }, rules, { getNow: () => timestamp });
+	return { input, action: trace.action, timestamp, trace };
+}
+
+suite('simulateRules', () => {
+	const current: Rule[] = [
+		{ title: 'Build failures', source: 'Build', contains: 'failed', action: 'allow' },
+		{ title: 'Catch-all', source: '*', action: 'digest' },
+	];
+	const failed: NotificationInput = { source: 'Build', title: 'Build failed', body: '3 errors' };
+	const passed: NotificationInput = { source: 'Test', title: 'Tests passed', body: 'ok' };
+
+	test('reports nothing when the rules are unchanged', () => {
+		const history = [routed(failed, current, 0), routed(passed, current, 1000)];
+		const result = simulateRules(history, current);
+		assert.strictEqual(result.total, 2);
+		assert.deepStrictEqual(result.changes, []);
+		assert.deepStrictEqual(result.transitions, {});
+	});
+
+	test('lists flipped notifications with the rules that decided them', () => {
+		const history = [routed(failed, current, 0), routed(passed, current, 1000), routed(failed, current, 2000)];
+		const draft: Rule[] = [
+			{ title: 'Quiet tests', source: 'Test', action: 'suppress' },
+			{ title: 'Catch-all', source: '*', action: 'digest' },
+		];
+		const result = simulateRules(history, draft);
+		assert.deepStrictEqual(result.changes.map(c => [c.index, c.before, c.after, c.beforeRule, c.afterRule]), [
+			[0, 'allow', 'digest', 'Build failures', 'Catch-all'],
+			[1, 'digest', 'suppress', 'Catch-all', 'Quiet tests'],
+			[2, 'allow', 'digest', 'Build failures', 'Catch-all'],
+		]);
+		assert.deepStrictEqual(result.transitions, { 'allow→digest': 2, 'digest→suppress': 1 });
+	});
+
+	test('replays throttles on the recorded timestamps with fresh counters', () => {
+		const history = [0, 1000, 2000, 120_000].map(t => routed(failed, current, t));
+		const draft: Rule[] = [{ title: 'Build failures', source: 'Build', action: 'allow', throttle: { limit: 2, windowMinutes: 1 } }];
+		const after = simulateRules(history, draft).changes.map(c => [c.index, c.after]);
+		assert.deepStrictEqual(after, [[2, 'digest']]);
+	});
+
+	test('keeps entries decided by overrides', () => {
+		const mention = { ...routed(passed, current, 0), action: 'allow' as Action, override: 'mention' };
+		const result = simulateRules([mention], [{ source: '*', action: 'suppress' }]);
+		assert.strictEqual(result.overridden, 1);
+		assert.deepStrictEqual(result.changes, []);
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { formatCountdown, formatRemaining, getSourceSnoozes, route, routeWithTrace, snoozeSource, summarizeSnooze, unsnoozeSource, type Rule } from '../core/index.js';
+
+suite('Per-source snooze', () => {
+	const rules: Rule[] = [{ source: '*', action: 'allow' }];
+	const getNow = () => 1_000;
+	const extension = { source: 'Extension', title: 'Update available', body: 'v2' };
+	const git = { source: 'Git', title: 'Pushed', body: 'main' };
+
+	test('digests only the snoozed source, case-insensitively, until the snooze ends', () => {
+		const state = snoozeSource({ focusMode: false }, 'extension', 2_000);
+		assert.strictEqual(route(extension, state, rules, { getNow }), 'digest');
+		assert.strictEqual(route(git, state, rules, { getNow }), 'allow');
+		assert.strictEqual(route(extension, state, rules, { getNow: () => 2_000 }), 'allow');
+
+		const trace = routeWithTrace(extension, state, rules, { getNow });
+		assert.strictEqual(trace.decidedBy, 'snooze');
+		assert.strictEqual(trace.snoozedSource, 'extension');
+		assert.strictEqual(trace.snoozeUntil, 2_000);
+	});
+
+	test('reports the later of a global and a source snooze', () => {
+		const state = snoozeSource({ focusMode: false, snoozeUntil: 5_000 }, 'Extension', 3_000);
+		const trace = routeWithTrace(extension, state, rules, { getNow });
+		assert.strictEqual(trace.snoozeUntil, 5_000);
+		assert.strictEqual(trace.snoozedSource, undefined);
+	});
+
+	test('replaces, removes and lists snoozes without mutating the state', () => {
+		const initial = { focusMode: false };
+		const snoozed = snoozeSource(snoozeSource(initial, 'Extension', 9_000), 'EXTENSION', 4_000);
+		const both = snoozeSource(snoozed, 'Language Server', 500);
+		assert.deepStrictEqual(initial, { focusMode: false });
+		assert.deepStrictEqual(getSourceSnoozes(both, 1_000), [{ source: 'EXTENSION', until: 4_000 }]);
+		assert.deepStrictEqual(getSourceSnoozes(unsnoozeSource(both, 'extension'), 0), [{ source: 'Language Server', until: 500 }]);
+	});
+
+	test('formats remaining time compactly', () => {
+		assert.strictEqual(formatRemaining(30_000), '30s');
+		assert.strictEqual(formatRemaining(45 * 60_000), '45m');
+		assert.strictEqual(formatRemaining(2 * 3600_000), '2h');
+		assert.strictEqual(formatRemaining(80 * 60_000 + 1), '1h 21m');
+	});
+
+	test('formats the status bar countdown', () => {
+		assert.strictEqual(formatCountdown(65_000), '1:05');
+		assert.strictEqual(formatCountdown(3_729_000), '1:02:09');
+		assert.strictEqual(formatCountdown(-5), '0:00');
+	});
+
+	test('summarizes what arrived during a snooze by source', () => {
+		const history = [
+			{ input: git, timestamp: 500 },
+			{ input: extension, timestamp: 1_000 },
+			{ input: git, timestamp: 1_500 },
+			{ input: extension, timestamp: 1_800 },
+			{ input: extension, timestamp: 2_000 },
+		];
+		assert.deepStrictEqual(summarizeSnooze(history, 1_000, 2_000), {
+			startedAt: 1_000,
+			endedAt: 2_000,
+			total: 3,
+			bySource: [{ source: 'Extension', count: 2 }, { source: 'Git', count: 1 }],
+		});
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { BUILT_IN_MODES, FOCUS_MODE_ID, NORMAL_MODE, Priority, ThrottleTracker, convertToRoutingRules, type RuleThrottle, type SourceRuleConfig } from '../core/index.js';
+
+suite('ThrottleTracker', () => {
+	const throttle: RuleThrottle = { limit: 3, windowMinutes: 10 };
+	let now: number;
+	let tracker: ThrottleTracker;
+
+	setup(() => {
+		now = 1_000_000;
+		tracker = new ThrottleTracker(() => now);
+	});
+
+	test('admits up to the limit, then returns the overflow action', () => {
+		const actions = [1, 2, 3, 4, 5].map(() => tracker.admit('Build Failures', 'allow', throttle));
+		assert.deepStrictEqual(actions, ['allow', 'allow', 'allow', 'digest', 'digest']);
+		assert.deepStrictEqual(tracker.getUsage('Build Failures', throttle), {
+			admitted: 3,
+			throttled: 2,
+			limit: 3,
+			windowMinutes: 10,
+		});
+	});
+
+	test('uses the configured overflow action', () => {
+		const suppressing: RuleThrottle = { limit: 1, windowMinutes: 1, overflowAction: 'suppress' };
+		assert.strictEqual(tracker.admit('rule', 'allow', suppressing), 'allow');
+		assert.strictEqual(tracker.admit('rule', 'allow', suppressing), 'suppress');
+	});
+
+	test('slides the window with the injected clock', () => {
+		tracker.admit('rule', 'allow', throttle);
+		now += 4 * 60_000;
+		tracker.admit('rule', 'allow', throttle);
+		tracker.admit('rule', 'allow', throttle);
+		assert.strictEqual(tracker.admit('rule', 'allow', throttle), 'digest');
+
+		// The first match leaves the window after 10 minutes, freeing one slot
+		now += 6 * 60_000 + 1;
+		assert.strictEqual(tracker.admit('rule', 'allow', throttle), 'allow');
+		assert.strictEqual(tracker.admit('rule', 'allow', throttle), 'digest');
+	});
+
+	test('tracks keys independently', () => {
+		const single: RuleThrottle = { limit: 1, windowMinutes: 10 };
+		assert.strictEqual(tracker.admit('a', 'allow', single), 'allow');
+		assert.strictEqual(tracker.admit('b', 'allow', single), 'allow');
+		assert.strictEqual(tracker.admit('a', 'allow', single), 'digest');
+	});
+
+	test('routing rules keep the index of their configuration, which tells equally titled rules apart', () => {
+		const configs: SourceRuleConfig[] = [
+			{ title: 'Noisy', source: 'Git', action: 'digest', priority: Priority.Low, showInFocusMode: false, throttle },
+			{ title: 'Noisy', source: 'Build', action: 'allow', priority: Priority.High, showInFocusMode: true, throttle },
+		];
+		const focus = BUILT_IN_MODES.find(mode => mode.id === FOCUS_MODE_ID)!;
+		assert.deepStrictEqual(convertToRoutingRules(configs, NORMAL_MODE).map(rule => rule.configIndex), [1, 0, undefined]);
+		assert.deepStrictEqual(convertToRoutingRules(configs, focus).map(rule => rule.configIndex), [1, undefined]);
+	});
+});